@@ -0,0 +1,158 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { ManifestSchemaType } from './types.js'
+import type { DocumentValidationResult } from './batch.js'
+import { validateDocuments } from './batch.js'
+
+const articleType: ManifestSchemaType = {
+  type: 'document',
+  name: 'article',
+  fields: [
+    {
+      type: 'string',
+      name: 'title',
+      validation: [{ rules: [{ flag: 'presence', constraint: 'required' }] }],
+    },
+    { type: 'slug', name: 'slug' },
+    { type: 'array', name: 'tags', of: [{ type: 'tag' }] },
+  ],
+}
+
+const authorType: ManifestSchemaType = {
+  type: 'document',
+  name: 'author',
+  fields: [{ type: 'string', name: 'name' }],
+}
+
+const allTypes: ManifestSchemaType[] = [articleType, authorType]
+
+async function collect(
+  documents: Iterable<Record<string, unknown>> | AsyncIterable<Record<string, unknown>>,
+  options: Parameters<typeof validateDocuments>[2] = {}
+): Promise<DocumentValidationResult[]> {
+  const results: DocumentValidationResult[] = []
+  await validateDocuments(documents, allTypes, {
+    ...options,
+    onResult: (item) => {
+      results.push(item)
+    },
+  })
+  return results
+}
+
+describe('validateDocuments', () => {
+  it('streams one result per document', async () => {
+    const results = await collect([
+      { _type: 'article', _id: 'a', title: 'A' },
+      { _type: 'article', _id: 'b', title: 42 },
+    ])
+
+    expect(results.map(r => r.index)).toEqual([0, 1])
+    expect(results.map(r => r.documentId)).toEqual(['a', 'b'])
+    expect(results[0]?.result.valid).toBe(true)
+    expect(results[1]?.result.valid).toBe(false)
+  })
+
+  it('accepts async iterables', async () => {
+    async function* documents() {
+      yield { _type: 'article', _id: 'a', title: 'A' }
+      yield { _type: 'author', _id: 'b', name: 'B' }
+    }
+
+    const report = await validateDocuments(documents(), allTypes)
+
+    expect(report.totalDocuments).toBe(2)
+    expect(report.validDocuments).toBe(2)
+    expect(report.summary).toBe('All 2 documents are valid')
+  })
+
+  it('reports duplicate unique values within the batch', async () => {
+    const results = await collect([
+      { _type: 'article', _id: 'a', title: 'A', slug: { current: 'hello' } },
+      { _type: 'article', _id: 'b', title: 'B', slug: { current: 'hello' } },
+    ])
+
+    expect(results[0]?.result.valid).toBe(true)
+    const slugError = results[1]?.result.errors.find(e => e.path === 'slug.current')
+    expect(slugError?.message).toBe('"hello" is already used by document a')
+  })
+
+  it('reports duplicates between documents without an _id by batch index', async () => {
+    const results = await collect([
+      { _type: 'article', title: 'A', slug: { current: 'hello' } },
+      { _type: 'article', title: 'B', slug: { current: 'other' } },
+      { _type: 'article', title: 'C', slug: { current: 'hello' } },
+    ])
+
+    expect(results[0]?.result.valid).toBe(true)
+    expect(results[1]?.result.valid).toBe(true)
+    const slugError = results[2]?.result.errors.find(e => e.path === 'slug.current')
+    expect(slugError?.message).toBe('"hello" is already used by document #0')
+  })
+
+  it('does not treat drafts as duplicates of their published document', async () => {
+    const results = await collect([
+      { _type: 'article', _id: 'a', title: 'A', slug: { current: 'hello' } },
+      { _type: 'article', _id: 'drafts.a', title: 'A', slug: { current: 'hello' } },
+    ])
+
+    expect(results.every(r => r.result.valid)).toBe(true)
+  })
+
+  it('combines batch conflicts with the provided checker', async () => {
+    const checkUnique = vi.fn(async () => ['existing'])
+
+    const results = await collect(
+      [
+        { _type: 'article', _id: 'a', title: 'A', slug: { current: 'hello' } },
+        { _type: 'article', _id: 'b', title: 'B', slug: { current: 'hello' } },
+      ],
+      { checkUnique }
+    )
+
+    expect(checkUnique).toHaveBeenCalledTimes(2)
+    const slugError = results[1]?.result.errors.find(e => e.path === 'slug.current')
+    expect(slugError?.rule?.constraint).toEqual(['a', 'existing'])
+  })
+
+  describe('report', () => {
+    const documents = [
+      { _type: 'article', _id: 'a1', title: 'Fine' },
+      { _type: 'article', _id: 'a2' },
+      { _type: 'article', _id: 'a3', tags: [{ _type: 'tag' }, { _type: 'tag' }] },
+      { _type: 'author', _id: 'p1', name: 42 },
+      { _type: 'author', _id: 'p2', name: 'Ok' },
+    ]
+
+    it('counts documents per type', async () => {
+      const report = await validateDocuments(documents, allTypes)
+
+      expect(report.totalDocuments).toBe(5)
+      expect(report.invalidDocuments).toBe(3)
+      expect(report.errorCount).toBe(3)
+      expect(report.warningCount).toBe(2)
+      expect(report.byType['article']).toEqual({ total: 3, valid: 1, invalid: 2, errors: 2, warnings: 2 })
+      expect(report.byType['author']).toEqual({ total: 2, valid: 1, invalid: 1, errors: 1, warnings: 0 })
+      expect(report.summary).toBe('3 of 5 documents failed validation (3 errors, 2 warnings)')
+    })
+
+    it('collapses array indices in top paths', async () => {
+      const report = await validateDocuments(documents, allTypes)
+
+      expect(report.topPaths[0]).toEqual({ documentType: 'article', path: 'title', count: 2 })
+      expect(report.topPaths[1]).toEqual({ documentType: 'article', path: 'tags[]', count: 2 })
+    })
+
+    it('ranks rules by frequency', async () => {
+      const report = await validateDocuments(documents, allTypes)
+
+      expect(report.topRules).toEqual([{ flag: 'presence', count: 2 }])
+    })
+
+    it('keeps the worst documents', async () => {
+      const report = await validateDocuments(documents, allTypes, { topCount: 2 })
+
+      expect(report.worstDocuments.map(d => d.documentId)).toEqual(['a3', 'a2'])
+      expect(report.topPaths).toHaveLength(2)
+    })
+  })
+})
@@ -0,0 +1,311 @@
+import type { ManifestSchemaType } from './types.js'
+import type {
+  ValidateOptions,
+  ValidationResult,
+  UniquenessChecker,
+} from './validation.js'
+import { createTypeMap, validateWithTypeMapAsync } from './validation.js'
+
+/**
+ * The validation result for one document in a batch.
+ */
+export interface DocumentValidationResult {
+  /** Position of the document in the input (0-based) */
+  index: number
+  /** The document's `_id`, if it has one */
+  documentId?: string
+  /** The document that was validated */
+  document: Record<string, unknown>
+  /** The validation result */
+  result: ValidationResult
+}
+
+/**
+ * Options for batch validation.
+ */
+export interface ValidateDocumentsOptions extends ValidateOptions {
+  /** Called with each document's result as soon as it is validated */
+  onResult?: (item: DocumentValidationResult) => void | Promise<void>
+  /** Number of entries to keep in the report's top lists (default: 10) */
+  topCount?: number
+}
+
+/**
+ * Validation counts for one document type.
+ */
+export interface TypeValidationStats {
+  /** Number of documents of this type */
+  total: number
+  /** Documents without errors */
+  valid: number
+  /** Documents with errors */
+  invalid: number
+  /** Total errors across documents of this type */
+  errors: number
+  /** Total warnings across documents of this type */
+  warnings: number
+}
+
+/**
+ * Aggregate report for a batch validation run.
+ */
+export interface ValidationReport {
+  /** Number of documents validated */
+  totalDocuments: number
+  /** Documents without errors */
+  validDocuments: number
+  /** Documents with errors */
+  invalidDocuments: number
+  /** Total errors across all documents */
+  errorCount: number
+  /** Total warnings across all documents */
+  warningCount: number
+  /** Total info messages across all documents */
+  infoCount: number
+  /** Counts per document type */
+  byType: Record<string, TypeValidationStats>
+  /** Most frequent issue paths, with array indices collapsed (e.g., "content[].children[].text") */
+  topPaths: Array<{ documentType: string; path: string; count: number }>
+  /** Most frequent violated rules, by validation flag */
+  topRules: Array<{ flag: string; count: number }>
+  /** Documents with the most errors (then warnings) */
+  worstDocuments: Array<{
+    index: number
+    documentId?: string
+    documentType: string
+    errorCount: number
+    warningCount: number
+  }>
+  /** Summary for quick display */
+  summary: string
+}
+
+/**
+ * Validates a stream of documents and produces an aggregate report.
+ *
+ * The schema is indexed once for the whole batch, and documents are validated
+ * one at a time as they are read, so arbitrarily large exports can be checked
+ * without holding them in memory. Per-document results are passed to
+ * `options.onResult` as they are produced.
+ *
+ * Unique values (slugs and fields with a `unique` rule) are also checked
+ * against the other documents in the batch, so duplicates are caught before
+ * they are imported. A collision is reported on the later of the two
+ * documents. Drafts and their published counterparts (`drafts.foo` and `foo`)
+ * are not considered duplicates.
+ *
+ * @param documents - The documents to validate (iterable or async iterable)
+ * @param schemaTypes - All schema types from the schema
+ * @param options - Validation options
+ * @returns Aggregate report for the batch
+ *
+ * @example
+ * ```ts
+ * const report = await validateDocuments(documents, allTypes, {
+ *   checkUnique: schemaClient.createUniquenessChecker(),
+ *   onResult: ({ documentId, result }) => {
+ *     if (!result.valid) console.log(documentId, result.summary)
+ *   },
+ * })
+ * console.log(report.summary)
+ * ```
+ */
+export async function validateDocuments(
+  documents: Iterable<Record<string, unknown>> | AsyncIterable<Record<string, unknown>>,
+  schemaTypes: ManifestSchemaType[],
+  options: ValidateDocumentsOptions = {}
+): Promise<ValidationReport> {
+  return validateBatch(documents, schemaTypes, options, () => ({}))
+}
+
+/** An entry in `ValidationReport.worstDocuments` */
+type WorstDocument = ValidationReport['worstDocuments'][number]
+
+/**
+ * A validation report whose worst documents carry extra details.
+ */
+export interface DetailedValidationReport<Details extends object> extends Omit<ValidationReport, 'worstDocuments'> {
+  worstDocuments: Array<WorstDocument & Details>
+}
+
+/**
+ * Validates documents like `validateDocuments`, keeping the details returned
+ * by `describe` on each worst-documents entry (e.g., line numbers for
+ * `validateNdjson`), so callers need not remember them for every document.
+ */
+export async function validateBatch<Details extends object>(
+  documents: Iterable<Record<string, unknown>> | AsyncIterable<Record<string, unknown>>,
+  schemaTypes: ManifestSchemaType[],
+  options: ValidateDocumentsOptions,
+  describe: (item: DocumentValidationResult) => Details
+): Promise<DetailedValidationReport<Details>> {
+  const { onResult, topCount = 10, ...validateOptions } = options
+  const typeMap = createTypeMap(schemaTypes)
+  const batchUniquenessChecker = createBatchUniquenessChecker(validateOptions.checkUnique)
+  const report = new ReportBuilder<Details>(topCount)
+
+  let index = 0
+  for await (const document of documents) {
+    const result = await validateWithTypeMapAsync(document, typeMap, {
+      ...validateOptions,
+      checkUnique: batchUniquenessChecker(index),
+    })
+    const documentId = typeof document['_id'] === 'string' ? document['_id'] : undefined
+    const item: DocumentValidationResult = { index, documentId, document, result }
+
+    report.add(item, describe(item))
+    if (onResult) {
+      await onResult(item)
+    }
+    index++
+  }
+
+  return report.build()
+}
+
+/**
+ * Create uniqueness checkers that remember the unique values they have seen,
+ * reporting documents earlier in the batch as conflicts. Documents without an
+ * `_id` are identified by their index in the batch, e.g. `#3`. Results are
+ * combined with those of the wrapped checker, if any.
+ */
+function createBatchUniquenessChecker(checker?: UniquenessChecker): (index: number) => UniquenessChecker {
+  const seen = new Map<string, string>()
+
+  return (index) => async (context) => {
+    const conflicts: string[] = []
+    const documentId = context.documentId ?? `#${index}`
+    const key = JSON.stringify([context.documentType, context.queryPath, context.value])
+    const baseId = documentId.replace(/^drafts\./, '')
+    const existing = seen.get(key)
+
+    if (existing === undefined) {
+      seen.set(key, documentId)
+    } else if (existing.replace(/^drafts\./, '') !== baseId) {
+      conflicts.push(existing)
+    }
+
+    if (checker) {
+      conflicts.push(...(await checker(context)))
+    }
+
+    return conflicts
+  }
+}
+
+/**
+ * Accumulates per-document results into a report without keeping the results.
+ */
+class ReportBuilder<Details extends object> {
+  private totalDocuments = 0
+  private validDocuments = 0
+  private errorCount = 0
+  private warningCount = 0
+  private infoCount = 0
+  private byType: Record<string, TypeValidationStats> = {}
+  private pathCounts = new Map<string, { documentType: string; path: string; count: number }>()
+  private ruleCounts = new Map<string, number>()
+  private worstDocuments: Array<WorstDocument & Details> = []
+
+  constructor(private readonly topCount: number) {}
+
+  add({ index, documentId, result }: DocumentValidationResult, details: Details): void {
+    const { documentType, errors, warnings, info } = result
+
+    this.totalDocuments++
+    if (result.valid) this.validDocuments++
+    this.errorCount += errors.length
+    this.warningCount += warnings.length
+    this.infoCount += info.length
+
+    const stats = (this.byType[documentType] ??= {
+      total: 0,
+      valid: 0,
+      invalid: 0,
+      errors: 0,
+      warnings: 0,
+    })
+    stats.total++
+    stats[result.valid ? 'valid' : 'invalid']++
+    stats.errors += errors.length
+    stats.warnings += warnings.length
+
+    for (const issue of [...errors, ...warnings]) {
+      const path = issue.path.replace(/\[\d+\]/g, '[]')
+      const pathKey = `${documentType}\u0000${path}`
+      const pathCount = this.pathCounts.get(pathKey)
+      if (pathCount) {
+        pathCount.count++
+      } else {
+        this.pathCounts.set(pathKey, { documentType, path, count: 1 })
+      }
+
+      if (issue.rule) {
+        this.ruleCounts.set(issue.rule.flag, (this.ruleCounts.get(issue.rule.flag) ?? 0) + 1)
+      }
+    }
+
+    if (errors.length > 0 || warnings.length > 0) {
+      this.addWorstDocument({
+        index,
+        documentId,
+        documentType,
+        errorCount: errors.length,
+        warningCount: warnings.length,
+        ...details,
+      })
+    }
+  }
+
+  build(): DetailedValidationReport<Details> {
+    const invalidDocuments = this.totalDocuments - this.validDocuments
+
+    const topPaths = Array.from(this.pathCounts.values())
+      .sort((a, b) => b.count - a.count)
+      .slice(0, this.topCount)
+
+    const topRules = Array.from(this.ruleCounts, ([flag, count]) => ({ flag, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, this.topCount)
+
+    const summary = invalidDocuments === 0
+      ? `All ${this.totalDocuments} document${this.totalDocuments === 1 ? '' : 's'} are valid`
+      : `${invalidDocuments} of ${this.totalDocuments} document${this.totalDocuments === 1 ? '' : 's'} failed validation (${this.errorCount} error${this.errorCount === 1 ? '' : 's'}, ${this.warningCount} warning${this.warningCount === 1 ? '' : 's'})`
+
+    return {
+      totalDocuments: this.totalDocuments,
+      validDocuments: this.validDocuments,
+      invalidDocuments,
+      errorCount: this.errorCount,
+      warningCount: this.warningCount,
+      infoCount: this.infoCount,
+      byType: this.byType,
+      topPaths,
+      topRules,
+      worstDocuments: this.worstDocuments,
+      summary,
+    }
+  }
+
+  /**
+   * Insert a document into the bounded, sorted list of worst documents.
+   */
+  private addWorstDocument(entry: WorstDocument & Details): void {
+    const worse = (a: typeof entry, b: typeof entry) =>
+      a.errorCount - b.errorCount || a.warningCount - b.warningCount
+
+    const list = this.worstDocuments
+    if (list.length >= this.topCount) {
+      const last = list[list.length - 1]
+      if (!last || worse(entry, last) <= 0) return
+      list.pop()
+    }
+
+    const position = list.findIndex((existing) => worse(entry, existing) > 0)
+    if (position === -1) {
+      list.push(entry)
+    } else {
+      list.splice(position, 0, entry)
+    }
+  }
+}
@@ -268,6 +268,92 @@ describe('SchemaClient', () => {
       })
     })
   })
+
+  describe('createUniquenessChecker', () => {
+    it('queries other documents with the same value', async () => {
+      const mockClient = createMockClient({ fetch: vi.fn().mockResolvedValue(['article-2']) } as any)
+
+      const schemaClient = new SchemaClient(mockClient)
+      const checkUnique = schemaClient.createUniquenessChecker()
+      const conflicts = await checkUnique({
+        documentId: 'drafts.article-1',
+        documentType: 'article',
+        path: 'slug.current',
+        queryPath: 'slug.current',
+        value: 'hello',
+      })
+
+      expect(conflicts).toEqual(['article-2'])
+      expect(mockClient.fetch).toHaveBeenCalledWith(
+        '*[_type == $type && !(_id in $ids) && @["slug"]["current"] == $value]._id',
+        { type: 'article', ids: ['article-1', 'drafts.article-1'], value: 'hello' }
+      )
+    })
+
+    it('matches values inside arrays', async () => {
+      const mockClient = createMockClient({ fetch: vi.fn().mockResolvedValue([]) } as any)
+
+      const schemaClient = new SchemaClient(mockClient)
+      await schemaClient.createUniquenessChecker()({
+        documentType: 'product',
+        path: 'variants[0].sku',
+        queryPath: 'variants[].sku',
+        value: 'SKU-1',
+      })
+
+      expect(mockClient.fetch).toHaveBeenCalledWith(
+        '*[_type == $type && !(_id in $ids) && $value in @["variants"][]["sku"]]._id',
+        { type: 'product', ids: [], value: 'SKU-1' }
+      )
+    })
+
+    it('quotes field names that are not GROQ identifiers', async () => {
+      const mockClient = createMockClient({ fetch: vi.fn().mockResolvedValue([]) } as any)
+
+      const schemaClient = new SchemaClient(mockClient)
+      await schemaClient.createUniquenessChecker()({
+        documentType: 'product',
+        path: 'sku-code',
+        queryPath: 'sku-code',
+        value: 'SKU-1',
+      })
+
+      expect(mockClient.fetch).toHaveBeenCalledWith(
+        '*[_type == $type && !(_id in $ids) && @["sku-code"] == $value]._id',
+        { type: 'product', ids: [], value: 'SKU-1' }
+      )
+    })
+
+    it('reports a draft and its published document once', async () => {
+      const mockClient = createMockClient({
+        fetch: vi.fn().mockResolvedValue(['drafts.article-2', 'article-2', 'drafts.article-3']),
+      } as any)
+
+      const schemaClient = new SchemaClient(mockClient)
+      const conflicts = await schemaClient.createUniquenessChecker()({
+        documentType: 'article',
+        path: 'slug.current',
+        queryPath: 'slug.current',
+        value: 'hello',
+      })
+
+      expect(conflicts).toEqual(['article-2', 'article-3'])
+    })
+
+    it('wraps errors', async () => {
+      const mockClient = createMockClient({ fetch: vi.fn().mockRejectedValue(new Error('Network error')) } as any)
+
+      const schemaClient = new SchemaClient(mockClient)
+      const checkUnique = schemaClient.createUniquenessChecker()
+
+      await expect(checkUnique({
+        documentType: 'article',
+        path: 'slug.current',
+        queryPath: 'slug.current',
+        value: 'hello',
+      })).rejects.toThrow("Failed to check uniqueness of 'slug.current'")
+    })
+  })
 })
 
 describe('SchemaClientError', () => {
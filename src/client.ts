@@ -7,6 +7,7 @@ import type {
   GetSchemaOptions,
   DeploySchemaInput,
 } from './types.js'
+import type { UniquenessChecker } from './validation.js'
 
 /** Default API version for schema operations */
 const DEFAULT_API_VERSION = '2025-03-01'
@@ -283,6 +284,56 @@ export class SchemaClient {
     }
   }
 
+  /**
+   * Create a uniqueness checker that queries the dataset with GROQ.
+   *
+   * Use it as `checkUnique` when validating, to find other documents of the
+   * same type that already use a slug or a value that must be unique. The
+   * document itself and its draft are excluded, and conflicting drafts are
+   * reported by their published ID.
+   *
+   * @returns A uniqueness checker backed by the wrapped Sanity client
+   *
+   * @example
+   * ```ts
+   * const result = await validateDocumentAsync(doc, types, {
+   *   checkUnique: schemaClient.createUniquenessChecker(),
+   * })
+   * ```
+   */
+  createUniquenessChecker(): UniquenessChecker {
+    return async ({ documentId, documentType, queryPath, value }) => {
+      const publishedId = documentId?.replace(/^drafts\./, '')
+      const ids = publishedId ? [publishedId, `drafts.${publishedId}`] : []
+      const path = this.groqPath(queryPath)
+      const filter = queryPath.includes('[]') ? `$value in ${path}` : `${path} == $value`
+
+      try {
+        const conflicts = await this.client.fetch<string[]>(
+          `*[_type == $type && !(_id in $ids) && ${filter}]._id`,
+          { type: documentType, ids, value }
+        )
+        return Array.from(new Set(conflicts.map((id) => id.replace(/^drafts\./, ''))))
+      } catch (error) {
+        throw this.wrapError(error, `Failed to check uniqueness of '${queryPath}'`)
+      }
+    }
+  }
+
+  /**
+   * Quote each segment of a query path, so field names that aren't valid GROQ
+   * identifiers can be queried: `variants[].sku` → `@["variants"][]["sku"]`.
+   */
+  private groqPath(queryPath: string): string {
+    return '@' + queryPath
+      .split('.')
+      .map((segment) => {
+        const [, name = segment, arrays = ''] = /^(.*?)((?:\[\])*)$/.exec(segment) ?? []
+        return `[${JSON.stringify(name)}]${arrays}`
+      })
+      .join('')
+  }
+
   /**
    * Parse the stringified schema JSON into typed objects.
    */
@@ -0,0 +1,160 @@
+/**
+ * Stable, machine-readable codes for validation issues, set as `code` on
+ * every issue. Use them to group and react to issues instead of matching
+ * messages, which may be localized.
+ *
+ * @example
+ * ```ts
+ * const result = validateDocument(doc, allTypes)
+ * const missingKeys = result.issues.filter((i) => i.code === IssueCode.ARRAY_MISSING_KEY)
+ * ```
+ */
+export const IssueCode = {
+  // Documents and fields
+
+  /** The document has no `_type` */
+  MISSING_DOCUMENT_TYPE: 'MISSING_DOCUMENT_TYPE',
+  /** The document's `_type` is not a type in the schema */
+  UNKNOWN_DOCUMENT_TYPE: 'UNKNOWN_DOCUMENT_TYPE',
+  /** A key is not declared as a field in the schema */
+  UNKNOWN_FIELD: 'UNKNOWN_FIELD',
+  /** A required field has no value */
+  REQUIRED: 'REQUIRED',
+  /** A value has the wrong type, e.g. a string for a number field */
+  TYPE_MISMATCH: 'TYPE_MISMATCH',
+  /** A property of an object value has the wrong type, e.g. a string `lat` on a geopoint */
+  PROPERTY_TYPE_MISMATCH: 'PROPERTY_TYPE_MISMATCH',
+  /** An object value is missing a property, e.g. `hex` on a color */
+  MISSING_PROPERTY: 'MISSING_PROPERTY',
+  /** A numeric property is outside its range, e.g. a color channel or hotspot value */
+  NUMBER_OUT_OF_RANGE: 'NUMBER_OUT_OF_RANGE',
+  /** A string is not one of the field's `options.list` values */
+  LIST_OPTION_INVALID: 'LIST_OPTION_INVALID',
+
+  // Formats
+
+  /** A date or datetime string is not in the stored format */
+  INVALID_DATE_FORMAT: 'INVALID_DATE_FORMAT',
+  /** A datetime string has no timezone */
+  DATETIME_MISSING_TIMEZONE: 'DATETIME_MISSING_TIMEZONE',
+  /** A URL can't be parsed */
+  INVALID_URL: 'INVALID_URL',
+  /** An email address is not valid */
+  INVALID_EMAIL: 'INVALID_EMAIL',
+  /** A slug has no `current` value */
+  SLUG_MISSING_CURRENT: 'SLUG_MISSING_CURRENT',
+  /** A slug has characters other than lowercase letters, numbers and hyphens */
+  SLUG_INVALID_CHARACTERS: 'SLUG_INVALID_CHARACTERS',
+  /** A geopoint latitude or longitude is out of range */
+  COORDINATE_OUT_OF_RANGE: 'COORDINATE_OUT_OF_RANGE',
+  /** A color's `hex` is not a hex color */
+  INVALID_HEX_COLOR: 'INVALID_HEX_COLOR',
+
+  // Arrays
+
+  /** An object in an array has no `_key` */
+  ARRAY_MISSING_KEY: 'ARRAY_MISSING_KEY',
+  /** An array item's `_type` is not one of the array's member types */
+  ARRAY_ITEM_TYPE_NOT_ALLOWED: 'ARRAY_ITEM_TYPE_NOT_ALLOWED',
+  /** An array item equals an earlier item in an array with a `unique` rule */
+  DUPLICATE_ITEM: 'DUPLICATE_ITEM',
+
+  // References
+
+  /** A reference has no `_ref` */
+  REFERENCE_MISSING_REF: 'REFERENCE_MISSING_REF',
+  /** A reference points to a document type that is not one of the field's targets */
+  REFERENCE_TARGET_NOT_ALLOWED: 'REFERENCE_TARGET_NOT_ALLOWED',
+  /** A referenced document does not exist (`validateDocumentAsync`) */
+  REFERENCE_NOT_FOUND: 'REFERENCE_NOT_FOUND',
+  /** A cross-dataset reference points to another dataset than the field's */
+  CROSS_DATASET_REFERENCE_MISMATCH: 'CROSS_DATASET_REFERENCE_MISMATCH',
+  /** A global document reference `_ref` has no resource prefix */
+  GLOBAL_REFERENCE_MISSING_RESOURCE: 'GLOBAL_REFERENCE_MISSING_RESOURCE',
+  /** A global document reference points to another resource than the field's */
+  GLOBAL_REFERENCE_MISMATCH: 'GLOBAL_REFERENCE_MISMATCH',
+
+  // Assets
+
+  /** An image or file has no `asset` */
+  ASSET_MISSING: 'ASSET_MISSING',
+  /** An image or file `asset` has no `_ref` */
+  ASSET_MISSING_REF: 'ASSET_MISSING_REF',
+  /** An asset `_ref` is not an asset document ID */
+  INVALID_ASSET_ID: 'INVALID_ASSET_ID',
+  /** A file asset on an image field, or the other way around */
+  ASSET_TYPE_MISMATCH: 'ASSET_TYPE_MISMATCH',
+  /** A file type does not match the field's `options.accept` */
+  FILE_TYPE_NOT_ACCEPTED: 'FILE_TYPE_NOT_ACCEPTED',
+  /** Opposite crop sides remove the whole image */
+  CROP_TOO_LARGE: 'CROP_TOO_LARGE',
+
+  // Portable text
+
+  /** A block style is not one of the block's styles */
+  BLOCK_STYLE_NOT_ALLOWED: 'BLOCK_STYLE_NOT_ALLOWED',
+  /** A block list type is not one of the block's lists */
+  BLOCK_LIST_NOT_ALLOWED: 'BLOCK_LIST_NOT_ALLOWED',
+  /** A block is a list item, but the block has no lists */
+  BLOCK_LISTS_NOT_ALLOWED: 'BLOCK_LISTS_NOT_ALLOWED',
+  /** An inline object's type is not one of the block's `of` members */
+  INLINE_TYPE_NOT_ALLOWED: 'INLINE_TYPE_NOT_ALLOWED',
+  /** A mark definition's type is not one of the block's annotations */
+  ANNOTATION_NOT_ALLOWED: 'ANNOTATION_NOT_ALLOWED',
+  /** A mark definition is not used by any span */
+  MARK_DEFINITION_UNUSED: 'MARK_DEFINITION_UNUSED',
+  /** A span uses a default decorator the block does not allow */
+  DECORATOR_NOT_ALLOWED: 'DECORATOR_NOT_ALLOWED',
+  /** A span mark is neither a decorator nor a mark definition key */
+  MARK_NOT_ALLOWED: 'MARK_NOT_ALLOWED',
+
+  // Validation rules
+
+  /** A date is before the `min` rule */
+  MIN_DATE: 'MIN_DATE',
+  /** A date is after the `max` rule */
+  MAX_DATE: 'MAX_DATE',
+  /** A string is shorter than the `min` or `length` rule */
+  MIN_LENGTH: 'MIN_LENGTH',
+  /** A string is longer than the `max` or `length` rule */
+  MAX_LENGTH: 'MAX_LENGTH',
+  /** A number is less than the `min` rule */
+  MIN_VALUE: 'MIN_VALUE',
+  /** A number is greater than the `max` rule */
+  MAX_VALUE: 'MAX_VALUE',
+  /** An array has fewer items than the `min` rule */
+  MIN_ITEMS: 'MIN_ITEMS',
+  /** An array has more items than the `max` rule */
+  MAX_ITEMS: 'MAX_ITEMS',
+  /** A number is not an integer (`integer` rule) */
+  NOT_INTEGER: 'NOT_INTEGER',
+  /** A number is not positive (`positive` rule) */
+  NOT_POSITIVE: 'NOT_POSITIVE',
+  /** A string does not match the `regex` rule */
+  PATTERN_MISMATCH: 'PATTERN_MISMATCH',
+  /** A unique value is used by other documents (`validateDocumentAsync`) */
+  NOT_UNIQUE: 'NOT_UNIQUE',
+
+  // Custom rules
+
+  /** An issue returned by a registered custom validator */
+  CUSTOM_RULE: 'CUSTOM_RULE',
+  /** A `custom` rule has no registered validator */
+  CUSTOM_RULE_NOT_EVALUATED: 'CUSTOM_RULE_NOT_EVALUATED',
+  /** An async custom validator was skipped by synchronous validation */
+  CUSTOM_RULE_ASYNC: 'CUSTOM_RULE_ASYNC',
+  /** A custom validator threw or rejected */
+  CUSTOM_RULE_FAILED: 'CUSTOM_RULE_FAILED',
+
+  // Patches
+
+  /** A patch writes to a read-only field (`validatePatch`) */
+  READ_ONLY: 'READ_ONLY',
+  /** A patch operation can't be applied (`validatePatch`) */
+  PATCH_NOT_APPLICABLE: 'PATCH_NOT_APPLICABLE',
+} as const
+
+/**
+ * A validation issue code, e.g. `'REQUIRED'` or `'TYPE_MISMATCH'`.
+ */
+export type IssueCode = typeof IssueCode[keyof typeof IssueCode]
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { ManifestSchemaType } from './types.js'
+import {
+  createConditionEvaluator,
+  evaluatePredicate,
+  evaluateFieldCondition,
+} from './conditions.js'
+
+const document = {
+  _type: 'article',
+  kind: 'link',
+  tags: ['news'],
+  seo: { title: 'Hello' },
+  sections: [{ _key: 'a', kind: 'image', image: { asset: { _ref: 'image-abc-1x1-png' } } }],
+}
+
+describe('evaluatePredicate', () => {
+  const context = { document, parent: document.sections[0], value: 'current' }
+
+  it('compares values at document paths', () => {
+    expect(evaluatePredicate({ path: 'kind', equals: 'link' }, context)).toBe(true)
+    expect(evaluatePredicate({ path: 'seo.title', notEquals: 'Hello' }, context)).toBe(false)
+    expect(evaluatePredicate({ path: 'sections[0].kind', in: ['image', 'video'] }, context)).toBe(true)
+    expect(evaluatePredicate({ path: 'tags', equals: ['news'] }, context)).toBe(true)
+  })
+
+  it('checks existence', () => {
+    expect(evaluatePredicate({ path: 'seo.description', exists: false }, context)).toBe(true)
+    expect(evaluatePredicate({ path: 'seo.title', exists: true }, context)).toBe(true)
+  })
+
+  it('resolves parent and value paths', () => {
+    expect(evaluatePredicate({ path: '^.kind', equals: 'image' }, context)).toBe(true)
+    expect(evaluatePredicate({ path: '^.image.asset', exists: true }, context)).toBe(true)
+    expect(evaluatePredicate({ path: '@', equals: 'current' }, context)).toBe(true)
+  })
+
+  it('combines predicates', () => {
+    expect(evaluatePredicate({
+      and: [
+        { path: 'kind', equals: 'link' },
+        { or: [{ path: 'tags', exists: false }, { not: { path: 'seo', exists: false } }] },
+      ],
+    }, context)).toBe(true)
+    expect(evaluatePredicate(false, context)).toBe(false)
+  })
+})
+
+describe('createConditionEvaluator', () => {
+  const field: ManifestSchemaType = { type: 'string', name: 'caption', hidden: 'conditional' }
+
+  it('looks up predicates by document type and collapsed path', () => {
+    const evaluate = createConditionEvaluator({
+      'article.sections[].caption': { hidden: { path: '^.kind', notEquals: 'image' } },
+    })
+
+    const context = { field, document, parent: document.sections[0], value: undefined }
+    expect(evaluate({ ...context, property: 'hidden', path: 'sections[0].caption' })).toBe(false)
+    expect(evaluate({ ...context, property: 'readOnly', path: 'sections[0].caption' })).toBeUndefined()
+    expect(evaluate({ ...context, property: 'hidden', path: 'caption' })).toBeUndefined()
+  })
+})
+
+describe('evaluateFieldCondition', () => {
+  const context = { path: 'title', document, parent: document, value: undefined }
+
+  it('uses static states without calling the evaluator', () => {
+    const evaluate = vi.fn(() => true)
+
+    expect(evaluateFieldCondition('hidden', { type: 'string', name: 'title', hidden: true }, context, evaluate)).toBe(true)
+    expect(evaluateFieldCondition('hidden', { type: 'string', name: 'title' }, context, evaluate)).toBe(false)
+    expect(evaluate).not.toHaveBeenCalled()
+  })
+
+  it('treats conditional states as off without an evaluator', () => {
+    const field: ManifestSchemaType = { type: 'string', name: 'title', readOnly: 'conditional' }
+
+    expect(evaluateFieldCondition('readOnly', field, context)).toBe(false)
+    expect(evaluateFieldCondition('readOnly', field, context, () => undefined)).toBe(false)
+    expect(evaluateFieldCondition('readOnly', field, context, () => true)).toBe(true)
+  })
+})
@@ -0,0 +1,162 @@
+import type { ManifestSchemaType } from './types.js'
+import { getValueAtPath } from './paths.js'
+
+/**
+ * A field property that can be conditional in the schema.
+ */
+export type ConditionalProperty = 'hidden' | 'readOnly'
+
+/**
+ * Everything an evaluator needs to decide a conditional property, mirroring
+ * the arguments Sanity Studio passes to `hidden` and `readOnly` callbacks.
+ */
+export interface ConditionContext {
+  /** The property being evaluated */
+  property: ConditionalProperty
+  /** The field definition */
+  field: ManifestSchemaType
+  /** Path to the field in the document (e.g., "sections[0].heading") */
+  path: string
+  /** The whole document */
+  document: Record<string, unknown>
+  /** The object (or array) containing the field */
+  parent: unknown
+  /** The field's current value */
+  value: unknown
+}
+
+/**
+ * Decides whether a field with `hidden: 'conditional'` or
+ * `readOnly: 'conditional'` is currently hidden or read-only.
+ *
+ * Return undefined when the state is unknown; the field is then treated as
+ * visible and editable.
+ */
+export type ConditionEvaluator = (context: ConditionContext) => boolean | undefined
+
+/**
+ * A declarative condition over the document.
+ *
+ * Paths are resolved from the document root (`category`, `seo.title`,
+ * `sections[0].kind`), from the field's parent with `^` (`^.kind`), or from
+ * the field's own value with `@`.
+ */
+export type ConditionPredicate =
+  | boolean
+  | { path: string; equals: unknown }
+  | { path: string; notEquals: unknown }
+  | { path: string; in: unknown[] }
+  | { path: string; exists: boolean }
+  | { and: ConditionPredicate[] }
+  | { or: ConditionPredicate[] }
+  | { not: ConditionPredicate }
+
+/**
+ * Declarative conditions, keyed by document type and field path, with array
+ * indices written as `[]` (e.g., "article.subtitle" or "article.sections[].heading").
+ */
+export type FieldConditions = Record<string, Partial<Record<ConditionalProperty, ConditionPredicate>>>
+
+/**
+ * Create a condition evaluator from declarative predicates.
+ *
+ * Fields without a predicate for the evaluated property are left undecided.
+ *
+ * @param conditions - Predicates keyed by "<documentType>.<fieldPath>"
+ * @returns An evaluator for `ValidateOptions.evaluateCondition`
+ *
+ * @example
+ * ```ts
+ * const evaluateCondition = createConditionEvaluator({
+ *   'article.externalUrl': { hidden: { path: 'kind', notEquals: 'link' } },
+ *   'article.slug': { readOnly: { path: '_id', exists: true } },
+ *   'article.sections[].caption': { hidden: { path: '^.image', exists: false } },
+ * })
+ *
+ * const result = validateDocument(doc, allTypes, { evaluateCondition })
+ * ```
+ */
+export function createConditionEvaluator(conditions: FieldConditions): ConditionEvaluator {
+  return (context) => {
+    const predicate = conditions[getFieldKey(context.document, context.path)]?.[context.property]
+    return predicate === undefined ? undefined : evaluatePredicate(predicate, context)
+  }
+}
+
+/**
+ * Evaluate a declarative predicate against a document.
+ *
+ * @param predicate - The predicate to evaluate
+ * @param context - The document, and the parent and value of the field being evaluated
+ * @returns Whether the predicate holds
+ *
+ * @example
+ * ```ts
+ * evaluatePredicate(
+ *   { and: [{ path: 'kind', equals: 'event' }, { path: 'date', exists: false }] },
+ *   { document: { kind: 'event' }, parent: undefined, value: undefined }
+ * )
+ * // true
+ * ```
+ */
+export function evaluatePredicate(
+  predicate: ConditionPredicate,
+  context: Pick<ConditionContext, 'document' | 'parent' | 'value'>
+): boolean {
+  if (typeof predicate === 'boolean') return predicate
+  if ('and' in predicate) return predicate.and.every((p) => evaluatePredicate(p, context))
+  if ('or' in predicate) return predicate.or.some((p) => evaluatePredicate(p, context))
+  if ('not' in predicate) return !evaluatePredicate(predicate.not, context)
+
+  const actual = resolvePredicatePath(predicate.path, context)
+  if ('equals' in predicate) return isEqual(actual, predicate.equals)
+  if ('notEquals' in predicate) return !isEqual(actual, predicate.notEquals)
+  if ('in' in predicate) return predicate.in.some((candidate) => isEqual(actual, candidate))
+  return (actual !== undefined && actual !== null) === predicate.exists
+}
+
+/**
+ * Decide whether a field is hidden or read-only: `true` in the schema, or
+ * `'conditional'` and the evaluator says so.
+ *
+ * @param property - 'hidden' or 'readOnly'
+ * @param field - The field definition
+ * @param context - Where the field is in the document
+ * @param evaluate - Evaluator for conditional states
+ * @returns Whether the property currently applies
+ */
+export function evaluateFieldCondition(
+  property: ConditionalProperty,
+  field: ManifestSchemaType,
+  context: Omit<ConditionContext, 'property' | 'field'>,
+  evaluate?: ConditionEvaluator
+): boolean {
+  const state = field[property]
+  if (state === true) return true
+  if (state !== 'conditional' || !evaluate) return false
+  return evaluate({ ...context, property, field }) === true
+}
+
+/**
+ * Get the key of a field for lookups by document type and path, with array
+ * indices collapsed (e.g., "article.sections[].heading").
+ */
+export function getFieldKey(document: Record<string, unknown>, path: string): string {
+  const documentType = document['_type']
+  return `${typeof documentType === 'string' ? documentType : ''}.${path.replace(/\[[^\]]*\]/g, '[]')}`
+}
+
+function resolvePredicatePath(
+  path: string,
+  context: Pick<ConditionContext, 'document' | 'parent' | 'value'>
+): unknown {
+  if (path === '@' || path.startsWith('@.')) return getValueAtPath(context.value, path.slice(2))
+  if (path === '^' || path.startsWith('^.')) return getValueAtPath(context.parent, path.slice(2))
+  return getValueAtPath(context.document, path)
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false
+  return JSON.stringify(a) === JSON.stringify(b)
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest'
+import type { ManifestSchemaType } from './types.js'
+import { fixDocument } from './fix.js'
+
+const productType: ManifestSchemaType = {
+  type: 'document',
+  name: 'product',
+  fields: [
+    {
+      type: 'string',
+      name: 'title',
+      validation: [{ rules: [{ flag: 'presence', constraint: 'required' }] }],
+    },
+    { type: 'slug', name: 'slug' },
+    { type: 'number', name: 'price' },
+    {
+      type: 'number',
+      name: 'stock',
+      validation: [{ rules: [{ flag: 'integer' }] }],
+    },
+    { type: 'array', name: 'tags', of: [{ type: 'string' }] },
+    { type: 'array', name: 'sizes', of: [{ type: 'number' }] },
+    { type: 'reference', name: 'brand', to: [{ type: 'brand' }] },
+    {
+      type: 'array',
+      name: 'variants',
+      of: [{ type: 'variant' }],
+    },
+  ],
+}
+
+const variantType: ManifestSchemaType = {
+  type: 'object',
+  name: 'variant',
+  fields: [
+    { type: 'string', name: 'sku' },
+    { type: 'reference', name: 'supplier', to: [{ type: 'supplier' }] },
+  ],
+}
+
+const allTypes: ManifestSchemaType[] = [productType, variantType]
+
+let keyCounter = 0
+const generateKey = () => `key${++keyCounter}`
+
+describe('fixDocument', () => {
+  it('applies safe fixes and re-validates', () => {
+    keyCounter = 0
+    const { document, applied, result } = fixDocument(
+      {
+        _type: 'product',
+        title: 'Shoe',
+        slug: 'shoe',
+        price: '49.90',
+        stock: 3.7,
+        tags: 'sale',
+        sizes: ['42', 43],
+        brand: { _ref: 'brand-1' },
+        variants: [{ _type: 'variant', sku: 'A', supplier: { _ref: 'supplier-1' } }],
+      },
+      allTypes,
+      { generateKey }
+    )
+
+    expect(document).toEqual({
+      _type: 'product',
+      title: 'Shoe',
+      slug: { _type: 'slug', current: 'shoe' },
+      price: 49.9,
+      stock: 4,
+      tags: ['sale'],
+      sizes: [42, 43],
+      brand: { _type: 'reference', _ref: 'brand-1' },
+      variants: [
+        { _type: 'variant', _key: 'key1', sku: 'A', supplier: { _type: 'reference', _ref: 'supplier-1' } },
+      ],
+    })
+    expect(applied.map(f => `${f.kind} ${f.path}`)).toEqual([
+      'string-to-slug slug',
+      'string-to-number price',
+      'round-to-integer stock',
+      'wrap-in-array tags',
+      'string-to-number sizes[0]',
+      'add-reference-type brand',
+      'add-key variants[0]',
+      'add-reference-type variants[0].supplier',
+    ])
+    expect(result.valid).toBe(true)
+    expect(result.warnings).toHaveLength(0)
+  })
+
+  it('does not modify the input document', () => {
+    const input = { _type: 'product', title: 'Shoe', tags: 'sale' }
+
+    fixDocument(input, allTypes)
+
+    expect(input.tags).toBe('sale')
+  })
+
+  it('logs fixes that are not safe to apply', () => {
+    const { applied, skipped, result } = fixDocument(
+      { _type: 'product', price: 'cheap', brand: 'brand-1' },
+      allTypes
+    )
+
+    expect(applied).toHaveLength(0)
+    expect(skipped.map(f => `${f.kind} ${f.path}`)).toEqual([
+      'string-to-number price',
+      'add-reference-type brand',
+    ])
+    expect(result.valid).toBe(false)
+    expect(result.errors.some(e => e.path === 'title')).toBe(true)
+  })
+
+  it('generates keys that do not collide with existing keys', () => {
+    const keys = ['a', 'a', 'b']
+    const { document } = fixDocument(
+      {
+        _type: 'product',
+        variants: [{ _type: 'variant', _key: 'a' }, { _type: 'variant' }],
+      },
+      allTypes,
+      { generateKey: () => keys.shift() ?? 'c' }
+    )
+
+    expect((document['variants'] as Array<{ _key: string }>).map(v => v._key)).toEqual(['a', 'b'])
+  })
+
+  it('returns the document unchanged for unknown types', () => {
+    const { document, applied, result } = fixDocument({ _type: 'post', tags: 'x' }, allTypes)
+
+    expect(document).toEqual({ _type: 'post', tags: 'x' })
+    expect(applied).toHaveLength(0)
+    expect(result.valid).toBe(false)
+  })
+})
@@ -0,0 +1,270 @@
+import type { ManifestSchemaType, ManifestArrayMember } from './types.js'
+import type { ValidateOptions, ValidationResult } from './validation.js'
+import { createTypeMap, validateWithTypeMap } from './validation.js'
+import { hasValidationRule, generateKey as randomKey } from './helpers.js'
+
+/**
+ * The kinds of fixes `fixDocument` can apply.
+ */
+export type FixKind =
+  | 'add-key'
+  | 'add-reference-type'
+  | 'wrap-in-array'
+  | 'string-to-number'
+  | 'round-to-integer'
+  | 'string-to-slug'
+
+/**
+ * A fix that was applied to the document.
+ */
+export interface AppliedFix {
+  /** Path to the fixed value (e.g., "tags[0]") */
+  path: string
+  /** The kind of fix */
+  kind: FixKind
+  /** Human-readable description of the fix */
+  message: string
+  /** The value before the fix */
+  before: unknown
+  /** The value after the fix */
+  after: unknown
+}
+
+/**
+ * A fix that was considered but not applied because it would not be safe.
+ */
+export interface SkippedFix {
+  /** Path to the value that could not be fixed */
+  path: string
+  /** The kind of fix that was considered */
+  kind: FixKind
+  /** Why the fix was not applied */
+  reason: string
+  /** The value that was left unchanged */
+  value: unknown
+}
+
+/**
+ * Options for fixing a document.
+ */
+export interface FixOptions extends ValidateOptions {
+  /** Generate a `_key` for array items (default: random 12-character key) */
+  generateKey?: () => string
+}
+
+/**
+ * Result of fixing a document.
+ */
+export interface FixResult {
+  /** The repaired document (the input document is not modified) */
+  document: Record<string, unknown>
+  /** Fixes that were applied */
+  applied: AppliedFix[]
+  /** Fixes that were considered but not applied */
+  skipped: SkippedFix[]
+  /** Validation result for the repaired document */
+  result: ValidationResult
+}
+
+/**
+ * Repairs common, mechanically fixable validation issues in a document.
+ *
+ * Applies these fixes where the schema calls for them:
+ * - adds missing `_key` to objects in arrays
+ * - adds missing `_type: 'reference'` to references
+ * - wraps single values in an array for array fields
+ * - converts numeric strings to numbers for number fields
+ * - rounds decimals for number fields with an `integer` rule
+ * - converts strings to `{ _type: 'slug', current }` for slug fields
+ *
+ * The document is then re-validated, so the result shows what is left to fix.
+ *
+ * @param document - The document to fix (must have `_type` field)
+ * @param schemaTypes - All schema types from the schema
+ * @param options - Fix and validation options
+ * @returns The repaired document, a log of fixes, and its validation result
+ *
+ * @example
+ * ```ts
+ * const { document, applied, result } = fixDocument(agentOutput, allTypes)
+ * console.log(`Applied ${applied.length} fixes`)
+ * if (!result.valid) {
+ *   console.log(formatValidationIssues(result))
+ * }
+ * ```
+ */
+export function fixDocument(
+  document: Record<string, unknown>,
+  schemaTypes: ManifestSchemaType[],
+  options: FixOptions = {}
+): FixResult {
+  const { generateKey = randomKey, ...validateOptions } = options
+  const typeMap = createTypeMap(schemaTypes)
+  const applied: AppliedFix[] = []
+  const skipped: SkippedFix[] = []
+
+  const fixed = structuredClone(document)
+  const docType = fixed['_type']
+  const schemaType = typeof docType === 'string' ? typeMap.get(docType) : undefined
+
+  function fixFields(obj: Record<string, unknown>, fields: ManifestSchemaType[], path: string): void {
+    for (const field of fields) {
+      const fieldPath = path ? `${path}.${field.name}` : field.name
+      const value = obj[field.name]
+      if (value === undefined || value === null) continue
+      obj[field.name] = fixValue(value, field, fieldPath)
+    }
+  }
+
+  function fixValue(value: unknown, def: ManifestSchemaType, path: string): unknown {
+    switch (def.type) {
+      case 'array':
+        return fixArray(value, def, path)
+
+      case 'number':
+        return fixNumber(value, def, path)
+
+      case 'slug':
+        if (typeof value === 'string') {
+          return apply(path, 'string-to-slug', `Converted string to slug object`, value, {
+            _type: 'slug',
+            current: value,
+          })
+        }
+        return value
+
+      case 'reference':
+        if (isPlainObject(value) && typeof value['_ref'] === 'string' && value['_type'] === undefined) {
+          return apply(path, 'add-reference-type', `Added _type "reference"`, value, {
+            _type: 'reference',
+            ...value,
+          })
+        }
+        if (typeof value === 'string') {
+          skipped.push({
+            path,
+            kind: 'add-reference-type',
+            reason: 'String may not be a document ID; set { _type: "reference", _ref } explicitly',
+            value,
+          })
+        }
+        return value
+
+      case 'block':
+        if (isPlainObject(value) && Array.isArray(value['children'])) {
+          addMissingKeys(value['children'], `${path}.children`)
+        }
+        return value
+
+      default: {
+        if (!isPlainObject(value)) return value
+        const fields = (def.fields ?? typeMap.get(def.type)?.fields) as ManifestSchemaType[] | undefined
+        if (fields) {
+          fixFields(value, fields, path)
+          return value
+        }
+        // Named aliases of built-in types (e.g., a reference type with preset targets)
+        const customType = typeMap.get(def.type)
+        if (customType && customType.type !== def.type && customType.type !== 'document') {
+          return fixValue(value, customType, path)
+        }
+        return value
+      }
+    }
+  }
+
+  function fixArray(value: unknown, def: ManifestSchemaType, path: string): unknown {
+    let items: unknown[]
+    if (Array.isArray(value)) {
+      items = value
+    } else {
+      items = apply(path, 'wrap-in-array', `Wrapped value in an array`, value, [value]) as unknown[]
+    }
+
+    addMissingKeys(items, path)
+
+    const members = def.of ?? []
+    items.forEach((item, i) => {
+      const member = findMember(members, item)
+      if (member) {
+        items[i] = fixValue(item, member as ManifestSchemaType, `${path}[${i}]`)
+      }
+    })
+    return items
+  }
+
+  function fixNumber(value: unknown, def: ManifestSchemaType, path: string): unknown {
+    let result = value
+
+    if (typeof result === 'string') {
+      const parsed = result.trim() === '' ? NaN : Number(result)
+      if (Number.isFinite(parsed)) {
+        result = apply(path, 'string-to-number', `Converted "${result}" to a number`, result, parsed)
+      } else {
+        skipped.push({
+          path,
+          kind: 'string-to-number',
+          reason: `"${result}" is not a number`,
+          value: result,
+        })
+        return result
+      }
+    }
+
+    if (typeof result === 'number' && !Number.isInteger(result) && hasValidationRule(def, 'integer')) {
+      result = apply(path, 'round-to-integer', `Rounded ${result} to an integer`, result, Math.round(result))
+    }
+
+    return result
+  }
+
+  function addMissingKeys(items: unknown[], path: string): void {
+    const keys = new Set(
+      items
+        .map((item) => (isPlainObject(item) ? item['_key'] : undefined))
+        .filter((key): key is string => typeof key === 'string')
+    )
+
+    items.forEach((item, i) => {
+      if (!isPlainObject(item) || item['_key']) return
+
+      let key = generateKey()
+      while (keys.has(key)) key = generateKey()
+      keys.add(key)
+
+      items[i] = apply(`${path}[${i}]`, 'add-key', `Added _key "${key}"`, item, { ...item, _key: key })
+    })
+  }
+
+  function apply(path: string, kind: FixKind, message: string, before: unknown, after: unknown): unknown {
+    applied.push({ path, kind, message, before, after })
+    return after
+  }
+
+  if (schemaType?.fields) {
+    fixFields(fixed, schemaType.fields, '')
+  }
+
+  return {
+    document: fixed,
+    applied,
+    skipped,
+    result: validateWithTypeMap(fixed, typeMap, validateOptions),
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Find the array member definition matching an item's `_type`.
+ */
+function findMember(members: ManifestArrayMember[], item: unknown): ManifestArrayMember | undefined {
+  const itemType = isPlainObject(item) ? item['_type'] : undefined
+  if (itemType === undefined) {
+    // Untyped items (e.g., primitives) can only match a single member type
+    return members.length === 1 ? members[0] : undefined
+  }
+  return members.find((m) => m['type'] === itemType || m.name === itemType)
+}
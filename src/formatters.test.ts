@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest'
+import type { ManifestSchemaType } from './types.js'
+import type { NdjsonDocumentResult } from './ndjson.js'
+import { validateDocument } from './validation.js'
+import { formatValidationSarif, formatValidationJUnit } from './formatters.js'
+
+const articleType: ManifestSchemaType = {
+  type: 'document',
+  name: 'article',
+  fields: [
+    {
+      type: 'string',
+      name: 'title',
+      validation: [{ rules: [{ flag: 'presence', constraint: 'required' }] }],
+    },
+    {
+      type: 'string',
+      name: 'lead',
+      validation: [{ rules: [{ flag: 'max', constraint: 5 }], level: 'warning' }],
+    },
+    { type: 'number', name: 'views' },
+  ],
+}
+
+const allTypes: ManifestSchemaType[] = [articleType]
+
+function documentResult(index: number, document: Record<string, unknown>, line?: number): NdjsonDocumentResult {
+  return {
+    index,
+    documentId: document['_id'] as string | undefined,
+    document,
+    result: validateDocument(document, allTypes),
+    line: line ?? index + 1,
+    isDraft: false,
+  }
+}
+
+const results = [
+  documentResult(0, { _type: 'article', _id: 'a', title: 'Valid' }),
+  documentResult(1, { _type: 'article', _id: 'b', views: 'many', lead: 'Too long <lead>' }),
+  documentResult(2, { _type: 'page', _id: 'c' }),
+]
+
+describe('formatValidationSarif', () => {
+  it('maps issues to results with codes as rule IDs', () => {
+    const log = formatValidationSarif(results)
+    const run = log.runs[0]
+
+    expect(log.version).toBe('2.1.0')
+    expect(run?.tool.driver.rules).toEqual([
+      { id: 'REQUIRED', name: 'Required' },
+      { id: 'TYPE_MISMATCH', name: 'TypeMismatch' },
+      { id: 'MAX_LENGTH', name: 'MaxLength' },
+      { id: 'UNKNOWN_DOCUMENT_TYPE', name: 'UnknownDocumentType' },
+    ])
+    expect(run?.results.map(r => [r.ruleId, r.ruleIndex, r.level])).toEqual([
+      ['REQUIRED', 0, 'error'],
+      ['TYPE_MISMATCH', 1, 'error'],
+      ['MAX_LENGTH', 2, 'warning'],
+      ['UNKNOWN_DOCUMENT_TYPE', 3, 'error'],
+    ])
+    expect(run?.results[0]).toMatchObject({
+      message: { text: 'title: title is required' },
+      locations: [{ logicalLocations: [{ name: 'title', fullyQualifiedName: 'b:title', kind: 'member' }] }],
+      properties: { documentId: 'b', documentType: 'article', path: 'title', rule: { flag: 'presence' } },
+    })
+    expect(run?.results[0]?.locations[0]?.physicalLocation).toBeUndefined()
+  })
+
+  it('locates results in the artifact at the document line', () => {
+    const log = formatValidationSarif(results, { artifactUri: 'export/data.ndjson', toolVersion: '1.0.0' })
+
+    expect(log.runs[0]?.tool.driver.version).toBe('1.0.0')
+    expect(log.runs[0]?.results[0]?.locations[0]?.physicalLocation).toEqual({
+      artifactLocation: { uri: 'export/data.ndjson' },
+      region: { startLine: 2 },
+    })
+  })
+
+  it('accepts a single validation result', () => {
+    const result = validateDocument({ _type: 'article' }, allTypes)
+    const log = formatValidationSarif(result)
+
+    expect(log.runs[0]?.results.map(r => r.locations[0]?.logicalLocations[0]?.fullyQualifiedName)).toEqual([
+      'article[0]:title',
+    ])
+  })
+})
+
+describe('formatValidationJUnit', () => {
+  it('reports a test case per document and a failure per error', () => {
+    const xml = formatValidationJUnit(results)
+
+    expect(xml).toBe([
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<testsuites name="Content validation" tests="3" failures="2" errors="0" skipped="0">',
+      '  <testsuite name="article" tests="2" failures="1" errors="0" skipped="0">',
+      '    <testcase name="a" classname="article"/>',
+      '    <testcase name="b" classname="article">',
+      '      <failure message="title: title is required" type="REQUIRED">error REQUIRED at title: title is required',
+      'Rule: presence &quot;required&quot;',
+      '→ Provide a value for title</failure>',
+      '      <failure message="views: Expected number, got string" type="TYPE_MISMATCH">error TYPE_MISMATCH at views: Expected number, got string',
+      '→ Convert the value to a number</failure>',
+      '      <system-out>warning MAX_LENGTH at lead: Must be at most 5 characters (currently 15)',
+      'Rule: max 5',
+      '→ Remove 10 characters</system-out>',
+      '    </testcase>',
+      '  </testsuite>',
+      '  <testsuite name="page" tests="1" failures="1" errors="0" skipped="0">',
+      '    <testcase name="c" classname="page">',
+      '      <failure message="_type: Unknown document type &quot;page&quot;" type="UNKNOWN_DOCUMENT_TYPE">error UNKNOWN_DOCUMENT_TYPE at _type: Unknown document type &quot;page&quot;',
+      '→ Use one of the known types: article</failure>',
+      '    </testcase>',
+      '  </testsuite>',
+      '</testsuites>',
+      '',
+    ].join('\n'))
+  })
+
+  it('fails documents on warnings with failOn', () => {
+    const xml = formatValidationJUnit(results, { name: 'Content <lint>', failOn: 'warning' })
+
+    expect(xml).toContain('<testsuites name="Content &lt;lint&gt;" tests="3" failures="2"')
+    expect(xml).toContain('<failure message="lead: Must be at most 5 characters (currently 15)" type="MAX_LENGTH">')
+    expect(xml).not.toContain('<system-out>')
+  })
+
+  it('escapes values in messages', () => {
+    const result = validateDocument({ _type: '<b>"x"</b>\u0007' }, allTypes)
+    const xml = formatValidationJUnit(result)
+
+    expect(xml).toContain('message="_type: Unknown document type &quot;&lt;b&gt;&quot;x&quot;&lt;/b&gt;&quot;"')
+    expect(xml).not.toContain('<b>')
+    expect(xml).not.toContain('\u0007')
+  })
+})
@@ -0,0 +1,322 @@
+import type { DocumentValidationResult } from './batch.js'
+import type { IssueCode } from './codes.js'
+import type { ValidationIssue, ValidationResult, ValidationSeverity } from './validation.js'
+
+/**
+ * A result to format: a plain `ValidationResult`, or a per-document result
+ * from `validateDocuments` or `validateNdjson`.
+ */
+export type FormattableResult = ValidationResult | DocumentValidationResult
+
+/**
+ * Options for SARIF output.
+ */
+export interface SarifOptions {
+  /**
+   * URI of the validated source (e.g., "export/data.ndjson"), relative to the
+   * repository root. Results are located in this file, at the document's line
+   * for `validateNdjson` results. Code-scanning UIs such as GitHub's only show
+   * results with a file location.
+   */
+  artifactUri?: string
+  /** Name of the tool in the log (default: "@sanity/schema-client") */
+  toolName?: string
+  /** Version of the tool in the log */
+  toolVersion?: string
+}
+
+/**
+ * A SARIF 2.1.0 result: one validation issue.
+ */
+export interface SarifResult {
+  ruleId: IssueCode
+  ruleIndex: number
+  level: 'error' | 'warning' | 'note'
+  message: { text: string }
+  locations: Array<{
+    physicalLocation?: {
+      artifactLocation: { uri: string }
+      region?: { startLine: number }
+    }
+    logicalLocations: Array<{ name: string; fullyQualifiedName: string; kind: 'member' }>
+  }>
+  partialFingerprints: Record<string, string>
+  properties: {
+    documentId?: string
+    documentType: string
+    path: string
+    rule?: ValidationIssue['rule']
+    suggestions?: string[]
+  }
+}
+
+/**
+ * A SARIF 2.1.0 log with a single run.
+ */
+export interface SarifLog {
+  $schema: string
+  version: '2.1.0'
+  runs: Array<{
+    tool: {
+      driver: {
+        name: string
+        version?: string
+        informationUri: string
+        rules: Array<{ id: IssueCode; name: string }>
+      }
+    }
+    results: SarifResult[]
+  }>
+}
+
+/**
+ * Options for JUnit XML output.
+ */
+export interface JUnitOptions {
+  /** Name of the `<testsuites>` element (default: "Content validation") */
+  name?: string
+  /**
+   * Lowest severity that fails a document (default: "error"). Issues below it
+   * are listed in the test case's `<system-out>`.
+   */
+  failOn?: ValidationSeverity
+}
+
+/**
+ * A formatted result, with the document it belongs to.
+ */
+interface ReportEntry {
+  /** The document's `_id`, or its position when it has none */
+  name: string
+  documentId?: string
+  documentType: string
+  line?: number
+  result: ValidationResult
+}
+
+const severityRank: Record<ValidationSeverity, number> = { error: 2, warning: 1, info: 0 }
+
+/**
+ * Format validation results as a SARIF 2.1.0 log, for code-scanning UIs.
+ *
+ * Each issue becomes a result with its `code` as the rule ID, and the
+ * document ID and issue path as its logical location. Issues keep the
+ * severities they were reported with; `info` is mapped to SARIF's `note`.
+ *
+ * @param results - One result, or many (e.g., collected with `onResult`)
+ * @param options - Where the documents came from, and the tool to report
+ * @returns A SARIF log, ready for `JSON.stringify`
+ *
+ * @example
+ * ```ts
+ * const results: NdjsonDocumentResult[] = []
+ * await validateNdjson('export/data.ndjson', allTypes, { onResult: (r) => results.push(r) })
+ *
+ * const sarif = formatValidationSarif(results, { artifactUri: 'export/data.ndjson' })
+ * await writeFile('content.sarif', JSON.stringify(sarif, null, 2))
+ * ```
+ */
+export function formatValidationSarif(
+  results: FormattableResult | FormattableResult[],
+  options: SarifOptions = {}
+): SarifLog {
+  const { artifactUri, toolName = '@sanity/schema-client', toolVersion } = options
+  const rules: Array<{ id: IssueCode; name: string }> = []
+  const ruleIndices = new Map<IssueCode, number>()
+  const sarifResults: SarifResult[] = []
+
+  for (const entry of toEntries(results)) {
+    for (const issue of entry.result.issues) {
+      let ruleIndex = ruleIndices.get(issue.code)
+      if (ruleIndex === undefined) {
+        ruleIndex = rules.push({ id: issue.code, name: toRuleName(issue.code) }) - 1
+        ruleIndices.set(issue.code, ruleIndex)
+      }
+
+      const fullyQualifiedName = issue.path ? `${entry.name}:${issue.path}` : entry.name
+      sarifResults.push({
+        ruleId: issue.code,
+        ruleIndex,
+        level: issue.severity === 'info' ? 'note' : issue.severity,
+        message: { text: issue.path ? `${issue.path}: ${issue.message}` : issue.message },
+        locations: [{
+          ...(artifactUri && {
+            physicalLocation: {
+              artifactLocation: { uri: artifactUri },
+              ...(entry.line !== undefined && { region: { startLine: entry.line } }),
+            },
+          }),
+          logicalLocations: [{ name: issue.path, fullyQualifiedName, kind: 'member' }],
+        }],
+        partialFingerprints: { 'documentPath/v1': `${fullyQualifiedName}:${issue.code}` },
+        properties: {
+          documentId: entry.documentId,
+          documentType: entry.documentType,
+          path: issue.path,
+          rule: issue.rule,
+          suggestions: issue.suggestions,
+        },
+      })
+    }
+  }
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: toolName,
+          version: toolVersion,
+          informationUri: 'https://github.com/simen/schema-client',
+          rules,
+        },
+      },
+      results: sarifResults,
+    }],
+  }
+}
+
+/**
+ * Format validation results as JUnit XML, for CI test reports.
+ *
+ * Documents are grouped into a `<testsuite>` per document type, with a
+ * `<testcase>` per document. Each failing issue becomes a `<failure>` with
+ * its `code` as the type.
+ *
+ * @param results - One result, or many (e.g., collected with `onResult`)
+ * @param options - Report name, and which severities fail a document
+ * @returns The XML document
+ *
+ * @example
+ * ```ts
+ * const results: DocumentValidationResult[] = []
+ * await validateDocuments(documents, allTypes, { onResult: (r) => results.push(r) })
+ *
+ * await writeFile('content-junit.xml', formatValidationJUnit(results, { failOn: 'warning' }))
+ * ```
+ */
+export function formatValidationJUnit(
+  results: FormattableResult | FormattableResult[],
+  options: JUnitOptions = {}
+): string {
+  const { name = 'Content validation', failOn = 'error' } = options
+  const suites = new Map<string, ReportEntry[]>()
+
+  for (const entry of toEntries(results)) {
+    const suite = suites.get(entry.documentType) ?? []
+    suite.push(entry)
+    suites.set(entry.documentType, suite)
+  }
+
+  const isFailure = (issue: ValidationIssue) => severityRank[issue.severity] >= severityRank[failOn]
+  let totalTests = 0
+  let totalFailures = 0
+  const suiteLines: string[] = []
+
+  for (const [documentType, entries] of suites) {
+    const caseLines: string[] = []
+    let failures = 0
+
+    for (const entry of entries) {
+      const failing = entry.result.issues.filter(isFailure)
+      const other = entry.result.issues.filter((issue) => !isFailure(issue))
+      const testcase = `    <testcase name="${escapeXml(entry.name)}" classname="${escapeXml(documentType)}"`
+
+      if (failing.length === 0 && other.length === 0) {
+        caseLines.push(`${testcase}/>`)
+        continue
+      }
+
+      caseLines.push(`${testcase}>`)
+      for (const issue of failing) {
+        const message = issue.path ? `${issue.path}: ${issue.message}` : issue.message
+        caseLines.push(
+          `      <failure message="${escapeXml(message)}" type="${issue.code}">${escapeXml(describeIssue(issue))}</failure>`
+        )
+      }
+      if (other.length > 0) {
+        caseLines.push(`      <system-out>${escapeXml(other.map(describeIssue).join('\n\n'))}</system-out>`)
+      }
+      caseLines.push('    </testcase>')
+      if (failing.length > 0) failures++
+    }
+
+    totalTests += entries.length
+    totalFailures += failures
+    suiteLines.push(
+      `  <testsuite name="${escapeXml(documentType)}" tests="${entries.length}" failures="${failures}" errors="0" skipped="0">`,
+      ...caseLines,
+      '  </testsuite>'
+    )
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(name)}" tests="${totalTests}" failures="${totalFailures}" errors="0" skipped="0">`,
+    ...suiteLines,
+    '</testsuites>',
+    '',
+  ].join('\n')
+}
+
+/**
+ * Normalize the input into entries with a name for each document.
+ */
+function toEntries(results: FormattableResult | FormattableResult[]): ReportEntry[] {
+  const items = Array.isArray(results) ? results : [results]
+
+  return items.map((item, position) => {
+    if (!('result' in item)) {
+      return { name: `${item.documentType}[${position}]`, documentType: item.documentType, result: item }
+    }
+
+    const line = 'line' in item && typeof item.line === 'number' ? item.line : undefined
+    return {
+      name: item.documentId ?? (line !== undefined ? `line ${line}` : `document[${item.index}]`),
+      documentId: item.documentId,
+      documentType: item.result.documentType,
+      line,
+      result: item.result,
+    }
+  })
+}
+
+/**
+ * Describe an issue on a few lines, for failure bodies.
+ */
+function describeIssue(issue: ValidationIssue): string {
+  const lines = [`${issue.severity} ${issue.code} at ${issue.path || '(document)'}: ${issue.message}`]
+  if (issue.rule) {
+    const constraint = issue.rule.constraint === undefined ? '' : ` ${JSON.stringify(issue.rule.constraint)}`
+    lines.push(`Rule: ${issue.rule.flag}${constraint}`)
+  }
+  for (const suggestion of issue.suggestions ?? []) {
+    lines.push(`→ ${suggestion}`)
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Turn an issue code into a SARIF rule name ("TYPE_MISMATCH" → "TypeMismatch").
+ */
+function toRuleName(code: IssueCode): string {
+  return code
+    .toLowerCase()
+    .split('_')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('')
+}
+
+/**
+ * Escape text for XML attributes and content, dropping characters XML can't represent.
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
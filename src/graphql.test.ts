@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest'
+import { buildSchema, validateSchema } from 'graphql'
+import type { ManifestSchemaType } from './types.js'
+import { toGraphQLSDL } from './graphql.js'
+
+const types: ManifestSchemaType[] = [
+  {
+    type: 'document',
+    name: 'article',
+    description: 'A news article',
+    fields: [
+      { type: 'string', name: 'title', validation: [{ rules: [{ flag: 'presence', constraint: 'required' }] }] },
+      {
+        type: 'string',
+        name: 'status',
+        options: { list: [{ title: 'Draft', value: 'draft' }, { title: 'Published', value: 'published' }] },
+      },
+      { type: 'string', name: 'format', options: { list: ['16:9', '4:3'] } },
+      { type: 'number', name: 'rating', validation: [{ rules: [{ flag: 'integer' }] }] },
+      { type: 'datetime', name: 'publishedAt', deprecated: { reason: 'Use "publication"' } },
+      { type: 'reference', name: 'author', to: [{ type: 'author' }, { type: 'person' }] },
+      { type: 'reference', name: 'editor', to: [{ type: 'author' }] },
+      { type: 'array', name: 'tags', of: [{ type: 'string' }] },
+      { type: 'object', name: 'meta', fields: [{ type: 'boolean', name: 'featured' }] },
+      {
+        type: 'array',
+        name: 'sections',
+        of: [
+          { type: 'seo' },
+          { type: 'object', name: 'quote', fields: [{ type: 'text', name: 'text' }] },
+          { type: 'reference', to: [{ type: 'article' }] },
+        ],
+      },
+      { type: 'array', name: 'mixed', of: [{ type: 'string' }, { type: 'seo' }] },
+      { type: 'array', name: 'body', of: [{ type: 'block' }, { type: 'image' }] },
+      { type: 'seo', name: 'seo' },
+      { type: 'slug', name: 'my-slug' },
+    ],
+  },
+  { type: 'document', name: 'author', fields: [{ type: 'string', name: 'name' }] },
+  { type: 'document', name: 'person', fields: [{ type: 'string', name: 'name' }] },
+  {
+    type: 'object',
+    name: 'seo',
+    fields: [
+      { type: 'string', name: 'description' },
+      { type: 'reference', name: 'canonical', to: [{ type: 'article' }] },
+      { type: 'array', name: 'keywords', of: [{ type: 'string' }] },
+    ],
+  },
+  { type: 'string', name: 'category', options: { list: ['news', 'sports'] } },
+]
+
+/** Build the SDL with a query root, and return the schema's validation errors */
+function schemaErrors(sdl: string): string[] {
+  return validateSchema(buildSchema(`${sdl}\ntype Query {\n  ok: Boolean\n}\n`)).map((error) => error.message)
+}
+
+describe('toGraphQLSDL', () => {
+  const sdl = toGraphQLSDL(types)
+
+  it('generates a valid schema', () => {
+    expect(schemaErrors(sdl)).toEqual([])
+    expect(schemaErrors(toGraphQLSDL(types, { inputTypes: true }))).toEqual([])
+  })
+
+  it('declares document types with an id and the Document interface', () => {
+    expect(sdl.startsWith('# Generated from the deployed Sanity schema. Do not edit.\n')).toBe(true)
+    expect(sdl).toContain('interface Document {\n  id: ID!\n  _type: String!\n')
+    expect(sdl).toContain([
+      '"""A news article"""',
+      'type Article implements Document {',
+      '  id: ID!',
+      '  _type: String!',
+      '  _createdAt: DateTime',
+      '  _updatedAt: DateTime',
+      '  _rev: String',
+      '  title: String!',
+      '  status: ArticleStatus',
+      '  format: String',
+      '  rating: Int',
+      '  publishedAt: DateTime @deprecated(reason: "Use \\"publication\\"")',
+      '  author: AuthorOrPerson',
+      '  editor: Author',
+      '  tags: [String!]',
+      '  meta: ArticleMeta',
+      '  sections: [ArticleSectionsItem!]',
+      '  mixed: [JSON!]',
+      '  body: [ArticleBodyItem!]',
+      '  seo: Seo',
+      '  my_slug: Slug',
+      '}',
+    ].join('\n'))
+    expect(sdl).toContain('scalar DateTime')
+  })
+
+  it('turns list options into enums', () => {
+    expect(sdl).toContain('enum ArticleStatus {\n  draft\n  published\n}')
+    expect(sdl).toContain('enum Category {\n  news\n  sports\n}')
+  })
+
+  it('turns references and array members into unions', () => {
+    expect(sdl).toContain('union AuthorOrPerson = Author | Person')
+    expect(sdl).toContain('union ArticleSectionsItem = Seo | ArticleSectionsQuote | Article')
+    expect(sdl).toContain('union ArticleBodyItem = Block | Image')
+  })
+
+  it('declares object types and inline objects', () => {
+    expect(sdl).toContain([
+      'type Seo {',
+      '  _key: String',
+      '  _type: String',
+      '  description: String',
+      '  canonical: Article',
+      '  keywords: [String!]',
+      '}',
+    ].join('\n'))
+    expect(sdl).toContain('type ArticleMeta {\n  _key: String\n  _type: String\n  featured: Boolean\n}')
+    expect(sdl).toContain('type ArticleSectionsQuote {\n  _key: String\n  _type: String\n  text: String\n}')
+  })
+
+  it('emits only the helper types that are used', () => {
+    expect(sdl).toContain('type Block {')
+    expect(sdl).toContain('type Slug {')
+    expect(sdl).not.toContain('type Geopoint')
+    expect(sdl).not.toContain('scalar Date\n')
+    expect(sdl).not.toContain('input ')
+  })
+
+  it('declares input types for object types', () => {
+    const withInputs = toGraphQLSDL(types, { inputTypes: true })
+
+    expect(withInputs).toContain([
+      'input SeoInput {',
+      '  _key: String',
+      '  _type: String',
+      '  description: String',
+      '  canonical: ReferenceInput',
+      '  keywords: [String!]',
+      '}',
+    ].join('\n'))
+    expect(withInputs).toContain('input ReferenceInput {')
+    expect(withInputs).not.toContain('input ArticleInput')
+  })
+
+  it('keeps descriptions that end with a quote valid', () => {
+    const quoted = toGraphQLSDL([
+      { type: 'document', name: 'quote', description: 'Says "hi"', fields: [{ type: 'string', name: 'text', title: '"Text"' }] },
+    ])
+
+    expect(quoted).toContain('"""\nSays "hi"\n"""\ntype Quote implements Document {')
+    expect(quoted).toContain('  """\n  "Text"\n  """\n  text: String')
+    expect(schemaErrors(quoted)).toEqual([])
+  })
+
+  it('renames fields and generated types that clash', () => {
+    const clashing = toGraphQLSDL([
+      {
+        type: 'document',
+        name: 'page',
+        fields: [
+          { type: 'string', name: 'id' },
+          { type: 'string', name: 'weird-name' },
+          { type: 'number', name: 'weird_name' },
+          { type: 'string', name: 'status', options: { list: ['draft', 'live'] } },
+          { type: 'object', name: 'meta', fields: [{ type: 'boolean', name: 'featured' }] },
+        ],
+      },
+      { type: 'object', name: 'pageStatus', fields: [{ type: 'string', name: 'label' }] },
+      { type: 'string', name: 'pageMeta', options: { list: ['a', 'b'] } },
+    ], { inputTypes: true })
+
+    expect(clashing).toContain([
+      '  id: ID!',
+      '  _type: String!',
+      '  _createdAt: DateTime',
+      '  _updatedAt: DateTime',
+      '  _rev: String',
+      '  id_2: String',
+      '  weird_name: String',
+      '  weird_name_2: Float',
+      '  status: PageStatus2',
+      '  meta: PageMeta2',
+      '}',
+    ].join('\n'))
+    expect(clashing).toContain('enum PageStatus2 {\n  draft\n  live\n}')
+    expect(clashing).toContain('type PageStatus {\n  _key: String\n  _type: String\n  label: String\n}')
+    expect(clashing).toContain('type PageMeta2 {\n  _key: String\n  _type: String\n  featured: Boolean\n}')
+    expect(clashing).toContain('enum PageMeta {\n  a\n  b\n}')
+    expect(schemaErrors(clashing)).toEqual([])
+  })
+})
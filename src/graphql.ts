@@ -0,0 +1,533 @@
+import type { ManifestArrayMember, ManifestSchemaType } from './types.js'
+import { getListOptions, getReferenceTargetTypes, hasValidationRule, isFieldRequired } from './helpers.js'
+import { pascalCase } from './typescript.js'
+
+/**
+ * Options for GraphQL SDL generation.
+ */
+export interface GraphQLSDLOptions {
+  /** Also declare input types for object types, e.g. "SeoInput" for "seo" (default: false) */
+  inputTypes?: boolean
+  /** Name of the GraphQL type for a schema type (default: PascalCase, e.g. "blogPost" → "BlogPost") */
+  typeName?: (name: string) => string
+}
+
+type Mode = 'output' | 'input'
+
+/**
+ * State shared while generating one document.
+ */
+interface GeneratorContext {
+  typeMap: Map<string, ManifestSchemaType>
+  typeName: (name: string) => string
+  /** GraphQL names of the document types */
+  documentNames: Set<string>
+  /** Declared types by name, in declaration order */
+  declarations: Map<string, string>
+  /** Names of named schema types and helpers, which generated types must not take */
+  reservedNames: Set<string>
+  /** Names of generated types (inline objects, enums, unions), by what they were generated for */
+  generatedNames: Record<Mode, Map<unknown, string>>
+  /** Built-in helper types used so far */
+  helpers: Set<HelperName>
+}
+
+/**
+ * Scalars, the document interface, and types for Sanity's built-in object
+ * types, emitted when used.
+ */
+const helperTypes = {
+  Date: ['"""A date in ISO 8601 format (YYYY-MM-DD)"""', 'scalar Date'],
+  DateTime: ['"""A date and time in ISO 8601 format"""', 'scalar DateTime'],
+  JSON: ['"""Any JSON value"""', 'scalar JSON'],
+  Document: [
+    '"""A document of any type"""',
+    'interface Document {',
+    '  id: ID!',
+    '  _type: String!',
+    '  _createdAt: DateTime',
+    '  _updatedAt: DateTime',
+    '  _rev: String',
+    '}',
+  ],
+  Reference: [
+    '"""A reference that is not resolved, e.g. to an image or file asset"""',
+    'type Reference {',
+    '  _key: String',
+    '  _type: String',
+    '  _ref: ID!',
+    '  _weak: Boolean',
+    '}',
+  ],
+  ReferenceInput: [
+    'input ReferenceInput {',
+    '  _key: String',
+    '  _type: String',
+    '  _ref: ID!',
+    '  _weak: Boolean',
+    '}',
+  ],
+  CrossDatasetReference: [
+    'type CrossDatasetReference {',
+    '  _key: String',
+    '  _type: String',
+    '  _ref: ID!',
+    '  _dataset: String!',
+    '  _projectId: String!',
+    '  _weak: Boolean',
+    '}',
+  ],
+  GlobalDocumentReference: [
+    'type GlobalDocumentReference {',
+    '  _key: String',
+    '  _type: String',
+    '  _ref: ID!',
+    '  _weak: Boolean',
+    '}',
+  ],
+  Slug: [
+    'type Slug {',
+    '  _key: String',
+    '  _type: String',
+    '  current: String',
+    '}',
+  ],
+  ImageHotspot: [
+    'type ImageHotspot {',
+    '  x: Float',
+    '  y: Float',
+    '  height: Float',
+    '  width: Float',
+    '}',
+  ],
+  ImageCrop: [
+    'type ImageCrop {',
+    '  top: Float',
+    '  bottom: Float',
+    '  left: Float',
+    '  right: Float',
+    '}',
+  ],
+  Image: [
+    'type Image {',
+    '  _key: String',
+    '  _type: String',
+    '  asset: Reference',
+    '  hotspot: ImageHotspot',
+    '  crop: ImageCrop',
+    '}',
+  ],
+  File: [
+    'type File {',
+    '  _key: String',
+    '  _type: String',
+    '  asset: Reference',
+    '}',
+  ],
+  Geopoint: [
+    'type Geopoint {',
+    '  _key: String',
+    '  _type: String',
+    '  lat: Float',
+    '  lng: Float',
+    '  alt: Float',
+    '}',
+  ],
+  Color: [
+    'type Color {',
+    '  _key: String',
+    '  _type: String',
+    '  hex: String',
+    '  alpha: Float',
+    '}',
+  ],
+  Span: [
+    'type Span {',
+    '  _key: String',
+    '  _type: String',
+    '  text: String',
+    '  marks: [String!]',
+    '}',
+  ],
+  Block: [
+    '"""A portable text block"""',
+    'type Block {',
+    '  _key: String',
+    '  _type: String',
+    '  children: [Span!]',
+    '  style: String',
+    '  listItem: String',
+    '  level: Int',
+    '  markDefs: [JSON!]',
+    '}',
+  ],
+} satisfies Record<string, string[]>
+
+type HelperName = keyof typeof helperTypes
+
+/** Helpers that other helpers use */
+const helperDependencies: Partial<Record<HelperName, HelperName[]>> = {
+  Document: ['DateTime'],
+  Image: ['Reference', 'ImageHotspot', 'ImageCrop'],
+  File: ['Reference'],
+  Block: ['Span', 'JSON'],
+}
+
+const builtInHelpers: Partial<Record<string, HelperName>> = {
+  crossDatasetReference: 'CrossDatasetReference',
+  globalDocumentReference: 'GlobalDocumentReference',
+  slug: 'Slug',
+  image: 'Image',
+  file: 'File',
+  geopoint: 'Geopoint',
+  color: 'Color',
+  span: 'Span',
+  block: 'Block',
+}
+
+/** Schema types that become GraphQL object types */
+const objectTypes = ['document', 'object', 'image', 'file', 'block']
+
+/**
+ * Generate a GraphQL schema (SDL) for the documents and objects in a
+ * deployed schema, e.g. for a GraphQL gateway in front of Sanity content.
+ *
+ * Document types become object types that implement the `Document`
+ * interface, with an `id` field, and object types become object types (and
+ * input types with `inputTypes`). Required fields (`isFieldRequired`) are
+ * non-null. References are typed by their targets, with a union for more
+ * than one target type, and arrays with more than one member type get a
+ * union of the member types. Strings with `options.list` become enums, and
+ * `deprecated.reason` becomes `@deprecated`. Inline objects are declared as
+ * types named after their path (`ArticleMeta` for the `meta` field of
+ * `article`), with a number appended when the name is taken. Field names
+ * that are not valid GraphQL names have their invalid characters replaced
+ * with `_`, and a number appended when that clashes with another field.
+ *
+ * @param types - All schema types from the schema
+ * @param options - Input types and type naming
+ * @returns The SDL
+ *
+ * @example
+ * ```ts
+ * const types = await schemaClient.getTypes()
+ * await writeFile('schema.graphql', toGraphQLSDL(types))
+ *
+ * // type Article implements Document {
+ * //   id: ID!
+ * //   _type: String!
+ * //   ...
+ * //   title: String!
+ * //   status: ArticleStatus
+ * //   author: AuthorOrPerson
+ * //   tags: [String!]
+ * // }
+ * ```
+ */
+export function toGraphQLSDL(types: ManifestSchemaType[], options: GraphQLSDLOptions = {}): string {
+  const { inputTypes = false, typeName = pascalCase } = options
+  const context: GeneratorContext = {
+    typeMap: new Map(types.map((t) => [t.name, t])),
+    typeName,
+    documentNames: new Set(types.filter((t) => t.type === 'document').map((t) => typeName(t.name))),
+    declarations: new Map(),
+    reservedNames: new Set([
+      ...Object.keys(helperTypes),
+      ...types.map((t) => typeName(t.name)),
+      ...(inputTypes ? types.filter((t) => t.type === 'object').map((t) => `${typeName(t.name)}Input`) : []),
+    ]),
+    generatedNames: { output: new Map(), input: new Map() },
+    helpers: new Set(),
+  }
+
+  for (const type of types) {
+    declareNamedType(type, 'output', context)
+  }
+  if (inputTypes) {
+    for (const type of types.filter((t) => t.type === 'object')) {
+      declareNamedType(type, 'input', context)
+    }
+  }
+
+  // Schema types with the same name as a helper take its place
+  const helpers = resolveHelpers(context.helpers).filter((name) => !context.declarations.has(name))
+
+  return [
+    '# Generated from the deployed Sanity schema. Do not edit.',
+    ...helpers.map((name) => helperTypes[name].join('\n')),
+    ...context.declarations.values(),
+  ].join('\n\n') + '\n'
+}
+
+/**
+ * Declare the GraphQL type for a named schema type, if it needs one, and
+ * return its name.
+ */
+function declareNamedType(type: ManifestSchemaType, mode: Mode, context: GeneratorContext): string {
+  const name = context.typeName(type.name)
+  if (type.type === 'document') {
+    return mode === 'output' ? declareObject(type, name, name, 'output', context) : useHelper('JSON', context)
+  }
+  if (mode === 'input' && type.type !== 'object') {
+    return fieldType(type, name, 'input', context)
+  }
+  if (!objectTypes.includes(type.type)) {
+    return fieldType(type, name, mode, context)
+  }
+  return declareObject(type, mode === 'input' ? `${name}Input` : name, name, mode, context)
+}
+
+/**
+ * Declare an object or input type with a type's fields, and return its name.
+ *
+ * @param owner - Name for the types declared for its fields, e.g. "Article"
+ */
+function declareObject(
+  def: ManifestSchemaType,
+  name: string,
+  owner: string,
+  mode: Mode,
+  context: GeneratorContext
+): string {
+  if (context.declarations.has(name)) return name
+  // Reserve the position, so the type comes before the inline types of its fields
+  context.declarations.set(name, '')
+
+  const lines: string[] = []
+  let heading = `type ${name}`
+  if (def.type === 'document') {
+    useHelper('Document', context)
+    heading = `type ${name} implements Document`
+    lines.push('  id: ID!', '  _type: String!', '  _createdAt: DateTime', '  _updatedAt: DateTime', '  _rev: String')
+  } else {
+    if (mode === 'input') heading = `input ${name}`
+    lines.push('  _key: String', '  _type: String')
+  }
+
+  if (def.type === 'image' || def.type === 'file') {
+    lines.push(`  asset: ${useHelper('Reference', context)}`)
+    if (def.type === 'image') {
+      lines.push(`  hotspot: ${useHelper('ImageHotspot', context)}`, `  crop: ${useHelper('ImageCrop', context)}`)
+    }
+  }
+  if (def.type === 'block') {
+    lines.push(
+      `  children: [${useHelper('Span', context)}!]`,
+      '  style: String',
+      '  listItem: String',
+      '  level: Int',
+      `  markDefs: [${useHelper('JSON', context)}!]`
+    )
+  }
+
+  // Fields so far are "  name: Type"; schema fields must not take their names
+  const fieldNames = new Set(lines.map((line) => line.slice(2, line.indexOf(':'))))
+  for (const field of def.fields ?? []) {
+    const type = fieldType(field, `${owner}${pascalCase(field.name)}`, mode, context)
+    const nonNull = isFieldRequired(field) ? '!' : ''
+    const deprecated = field.deprecated && mode === 'output'
+      ? ` @deprecated(reason: ${JSON.stringify(field.deprecated.reason)})`
+      : ''
+    const name = availableName(fieldName(field.name), (n) => fieldNames.has(n), '_')
+    fieldNames.add(name)
+    lines.push(`${description(field, '  ')}  ${name}: ${type}${nonNull}${deprecated}`)
+  }
+
+  context.declarations.set(name, `${description(def, '')}${heading} {\n${lines.join('\n')}\n}`)
+  return name
+}
+
+/**
+ * The GraphQL type of a field or array member, declaring the inline types,
+ * enums and unions it needs.
+ *
+ * @param owner - Name for the types declared for the field, e.g. "ArticleMeta"
+ */
+function fieldType(def: ManifestSchemaType, owner: string, mode: Mode, context: GeneratorContext): string {
+  switch (def.type) {
+    case 'string':
+    case 'text':
+    case 'url':
+    case 'email':
+      return enumType(def, owner, context) ?? 'String'
+    case 'number':
+      return hasValidationRule(def, 'integer') ? 'Int' : 'Float'
+    case 'boolean':
+      return 'Boolean'
+    case 'date':
+      return useHelper('Date', context)
+    case 'datetime':
+      return useHelper('DateTime', context)
+    case 'object':
+      return declareInlineObject(def, owner, mode, context)
+    case 'image':
+    case 'file':
+      if (mode === 'input') return useHelper('JSON', context)
+      return def.fields?.length ? declareInlineObject(def, owner, mode, context) : useHelper(def.type === 'image' ? 'Image' : 'File', context)
+    case 'array':
+      return `[${itemType(def.of ?? [], owner, mode, context)}!]`
+    case 'reference':
+      return mode === 'input' ? useHelper('ReferenceInput', context) : referenceType(def, context)
+    default: {
+      const helper = builtInHelpers[def.type]
+      if (helper) return mode === 'input' ? useHelper('JSON', context) : useHelper(helper, context)
+
+      const named = context.typeMap.get(def.type)
+      return named ? declareNamedType(named, mode, context) : useHelper('JSON', context)
+    }
+  }
+}
+
+/**
+ * Declare the type for an inline object, named after its path.
+ */
+function declareInlineObject(def: ManifestSchemaType, owner: string, mode: Mode, context: GeneratorContext): string {
+  const name = generatedName(def, mode === 'input' ? `${owner}Input` : owner, mode, context)
+  return declareObject(def, name, mode === 'input' ? owner : name, mode, context)
+}
+
+/**
+ * The type of array items: the member's type, or a union when there is more
+ * than one member object type.
+ */
+function itemType(members: ManifestArrayMember[], owner: string, mode: Mode, context: GeneratorContext): string {
+  const memberOwner = (member: ManifestArrayMember) => `${owner}${pascalCase(member.name ?? (member as ManifestSchemaType).type)}`
+  const [first] = members
+  if (!first) return useHelper('JSON', context)
+  if (members.length === 1) return fieldType(first as ManifestSchemaType, memberOwner(first), mode, context)
+  if (mode === 'input') return useHelper('JSON', context)
+
+  const types = members.map((member) => {
+    const def = member as ManifestSchemaType
+    if (def.type === 'reference') return referenceTargets(def, context)
+
+    const kind = context.typeMap.get(def.type)?.type ?? def.type
+    const isObject = objectTypes.includes(kind) || builtInHelpers[kind] !== undefined
+    return isObject ? [fieldType(def, memberOwner(member), mode, context)] : []
+  })
+
+  // Union members must be object types
+  const unique = Array.from(new Set(types.flat()))
+  if (types.some((names) => names.length === 0) || unique.length === 0) return useHelper('JSON', context)
+  return unique.length === 1 ? (unique[0] ?? '') : declareUnion(members, `${owner}Item`, unique, context)
+}
+
+/**
+ * The type of a reference: its target type, a union of its target types, or
+ * any document.
+ */
+function referenceType(def: ManifestSchemaType, context: GeneratorContext): string {
+  const targets = referenceTargets(def, context)
+  const [first] = targets
+  if (!first) return context.documentNames.size > 0 ? useHelper('Document', context) : useHelper('JSON', context)
+  return targets.length === 1 ? first : declareUnion(targets.join('|'), targets.join('Or'), targets, context)
+}
+
+/**
+ * The GraphQL names of the document types a reference can point to.
+ */
+function referenceTargets(def: ManifestSchemaType, context: GeneratorContext): string[] {
+  return Array.from(new Set(getReferenceTargetTypes(def)
+    .map((target) => context.typeName(target))
+    .filter((name) => context.documentNames.has(name))))
+}
+
+/**
+ * Declare a union of types, once for each `key`.
+ */
+function declareUnion(key: unknown, baseName: string, types: string[], context: GeneratorContext): string {
+  const name = generatedName(key, baseName, 'output', context)
+  if (!context.declarations.has(name)) {
+    context.declarations.set(name, `union ${name} = ${types.join(' | ')}`)
+  }
+  return name
+}
+
+/**
+ * An enum for a string with `options.list`, when its values are valid enum values.
+ *
+ * @param owner - The name of the enum, for named types, or the base of a
+ *   generated name for fields
+ */
+function enumType(def: ManifestSchemaType, owner: string, context: GeneratorContext): string | undefined {
+  const list = getListOptions(def)
+  if (!list || list.length === 0) return undefined
+
+  // List items may be plain values or { title, value } objects
+  const values = Array.from(new Set(list.map((item) =>
+    String(typeof item === 'object' && item !== null ? item.value : item)
+  )))
+  if (!values.every((value) => /^[_A-Za-z][_0-9A-Za-z]*$/.test(value) && !['true', 'false', 'null'].includes(value))) {
+    return undefined
+  }
+
+  // Enums work for input types too, so fields get the same enum in both modes
+  const name = context.typeMap.get(def.name) === def ? owner : generatedName(def, owner, 'output', context)
+  if (!context.declarations.has(name)) {
+    context.declarations.set(name, `${description(def, '')}enum ${name} {\n${values.map((v) => `  ${v}`).join('\n')}\n}`)
+  }
+  return name
+}
+
+/**
+ * A description from a type's title and description.
+ */
+function description(def: ManifestSchemaType, indent: string): string {
+  const text = [def.title, def.description].filter(Boolean).join('\n\n').replace(/"""/g, '\\"""')
+  if (!text) return ''
+  // A quote before the closing quotes would end the string early
+  if (!text.includes('\n') && !text.endsWith('"')) return `${indent}"""${text}"""\n`
+  return `${indent}"""\n${text.split('\n').map((line) => (line ? `${indent}${line}` : '')).join('\n')}\n${indent}"""\n`
+}
+
+function fieldName(name: string): string {
+  const valid = name.replace(/[^_0-9A-Za-z]/g, '_')
+  return /^[0-9]/.test(valid) ? `_${valid}` : valid
+}
+
+/**
+ * A name for a generated type that no named type, helper or other generated
+ * type has, the same for each `key`.
+ */
+function generatedName(key: unknown, baseName: string, mode: Mode, context: GeneratorContext): string {
+  const names = context.generatedNames[mode]
+  const existing = names.get(key)
+  if (existing !== undefined) return existing
+
+  const taken = (name: string) => context.reservedNames.has(name) || context.declarations.has(name)
+  const name = availableName(baseName, taken, '')
+  names.set(key, name)
+  // Claim the name now, so later generated types don't take it before it is declared
+  context.reservedNames.add(name)
+  return name
+}
+
+/**
+ * The name, or the name with the lowest number from 2 appended that isn't taken.
+ */
+function availableName(name: string, taken: (name: string) => boolean, separator: string): string {
+  let candidate = name
+  for (let i = 2; taken(candidate); i++) {
+    candidate = `${name}${separator}${i}`
+  }
+  return candidate
+}
+
+function useHelper(name: HelperName, context: GeneratorContext): string {
+  context.helpers.add(name)
+  return name
+}
+
+/**
+ * Helpers in declaration order, with the helpers they depend on.
+ */
+function resolveHelpers(used: Set<HelperName>): HelperName[] {
+  const all = new Set<HelperName>()
+  const add = (name: HelperName): void => {
+    if (all.has(name)) return
+    all.add(name)
+    for (const dependency of helperDependencies[name] ?? []) add(dependency)
+  }
+  for (const name of used) add(name)
+  return (Object.keys(helperTypes) as HelperName[]).filter((name) => all.has(name))
+}
@@ -177,6 +177,22 @@ describe('Field Helpers', () => {
     expect(visible.some(f => f.name === 'hiddenField')).toBe(false)
     expect(visible.some(f => f.name === 'title')).toBe(true)
   })
+
+  it('getVisibleFields with conditional fields', () => {
+    const type: ManifestSchemaType = {
+      type: 'document',
+      name: 'event',
+      fields: [
+        { type: 'string', name: 'kind' },
+        { type: 'string', name: 'venue', hidden: 'conditional' },
+      ],
+    }
+    const evaluateCondition = ({ document }: { document: Record<string, unknown> }) => document['kind'] === 'online'
+
+    expect(getVisibleFields(type).map(f => f.name)).toEqual(['kind', 'venue'])
+    expect(getVisibleFields(type, { document: { kind: 'online' }, evaluateCondition }).map(f => f.name))
+      .toEqual(['kind'])
+  })
 })
 
 describe('Validation Helpers', () => {
@@ -479,6 +495,49 @@ describe('Skeleton Generation', () => {
       const skeleton = generateDocumentSkeleton(emptyType)
       expect(skeleton).toEqual({ _type: 'empty' })
     })
+
+    it('leaves out conditionally hidden fields and read-only fields without an initial value', () => {
+      const required = [{ rules: [{ flag: 'presence' as const, constraint: 'required' }] }]
+      const eventType: ManifestSchemaType = {
+        type: 'document',
+        name: 'event',
+        fields: [
+          { type: 'string', name: 'kind', initialValue: 'online', validation: required },
+          { type: 'string', name: 'venue', hidden: 'conditional', validation: required },
+          { type: 'url', name: 'streamUrl', hidden: 'conditional', validation: required },
+          { type: 'string', name: 'code', readOnly: true, validation: required },
+          { type: 'string', name: 'ticketId', readOnly: 'conditional', validation: required },
+          { type: 'string', name: 'source', readOnly: 'conditional', initialValue: 'api', validation: required },
+        ],
+      }
+
+      const skeleton = generateDocumentSkeleton(eventType, {
+        evaluateCondition: ({ path, document, property }) =>
+          property === 'readOnly' ? true
+            : path === 'venue' ? document['kind'] === 'online'
+            : path === 'streamUrl' ? document['kind'] !== 'online'
+            : undefined,
+      })
+
+      expect(skeleton).toEqual({ _type: 'event', kind: 'online', streamUrl: '', code: '', source: 'api' })
+    })
+
+    it('keeps fields that are always hidden or read-only', () => {
+      const required = [{ rules: [{ flag: 'presence' as const, constraint: 'required' }] }]
+      const secretType: ManifestSchemaType = {
+        type: 'document',
+        name: 'secretive',
+        fields: [
+          { type: 'string', name: 'title', validation: required },
+          { type: 'string', name: 'secret', hidden: true, validation: required },
+          { type: 'string', name: 'code', readOnly: true, validation: required },
+        ],
+      }
+
+      const expected = { _type: 'secretive', title: '', secret: '', code: '' }
+      expect(generateDocumentSkeleton(secretType)).toEqual(expected)
+      expect(generateDocumentSkeleton(secretType, { evaluateCondition: () => true })).toEqual(expected)
+    })
   })
 
   describe('generateSkeletonByTypeName', () => {
@@ -5,6 +5,8 @@ import type {
   ManifestArrayMember,
   ManifestReferenceMember,
 } from './types.js'
+import type { ConditionEvaluator } from './conditions.js'
+import { evaluateFieldCondition } from './conditions.js'
 
 // =============================================================================
 // Type Guards
@@ -122,16 +124,47 @@ export function getFieldsWithoutFieldset(type: ManifestSchemaType): ManifestFiel
 
 /**
  * Get all visible fields (not hidden).
+ *
+ * Fields with `hidden: 'conditional'` are only left out when a document and
+ * an evaluator are given and the evaluator says they are hidden.
+ *
+ * @example
+ * ```ts
+ * const visible = getVisibleFields(articleType, { document, evaluateCondition })
+ * ```
  */
-export function getVisibleFields(type: ManifestSchemaType): ManifestField[] {
-  return type.fields?.filter((f) => f.hidden !== true) ?? []
+export function getVisibleFields(
+  type: ManifestSchemaType,
+  conditions?: { document: Record<string, unknown>; evaluateCondition?: ConditionEvaluator }
+): ManifestField[] {
+  return type.fields?.filter((f) => !isTopLevelFieldIn('hidden', f, conditions)) ?? []
 }
 
 /**
  * Get all editable fields (not read-only).
+ *
+ * Fields with `readOnly: 'conditional'` are only left out when a document and
+ * an evaluator are given and the evaluator says they are read-only.
  */
-export function getEditableFields(type: ManifestSchemaType): ManifestField[] {
-  return type.fields?.filter((f) => f.readOnly !== true) ?? []
+export function getEditableFields(
+  type: ManifestSchemaType,
+  conditions?: { document: Record<string, unknown>; evaluateCondition?: ConditionEvaluator }
+): ManifestField[] {
+  return type.fields?.filter((f) => !isTopLevelFieldIn('readOnly', f, conditions)) ?? []
+}
+
+function isTopLevelFieldIn(
+  property: 'hidden' | 'readOnly',
+  field: ManifestField,
+  conditions?: { document: Record<string, unknown>; evaluateCondition?: ConditionEvaluator }
+): boolean {
+  const document = conditions?.document ?? {}
+  return evaluateFieldCondition(
+    property,
+    field,
+    { path: field.name, document, parent: document, value: document[field.name] },
+    conditions?.evaluateCondition
+  )
 }
 
 // =============================================================================
@@ -443,6 +476,27 @@ function isPrimitiveTypeName(typeName: string): boolean {
   return primitives.includes(typeName)
 }
 
+// =============================================================================
+// Keys
+// =============================================================================
+
+/**
+ * Generate a random 12-character key for an array item, like the ones Sanity Studio creates.
+ *
+ * @example
+ * ```ts
+ * const item = { _type: 'tag', _key: generateKey(), name: 'news' }
+ * ```
+ */
+export function generateKey(): string {
+  const chars = 'abcdefghijklmnopqrstuvwxyz0123456789'
+  let key = ''
+  for (let i = 0; i < 12; i++) {
+    key += chars[Math.floor(Math.random() * chars.length)]
+  }
+  return key
+}
+
 // =============================================================================
 // Skeleton Generation
 // =============================================================================
@@ -457,6 +511,22 @@ export interface GenerateSkeletonOptions {
   documentId?: string
   /** Type map for resolving custom object types */
   typeMap?: Map<string, ManifestSchemaType>
+  /**
+   * Decides whether fields with conditional `hidden`/`readOnly` are hidden or
+   * read-only in the skeleton being built. Those hidden are left out, and those
+   * read-only only get their `initialValue`. Fields that are always hidden or
+   * read-only (`true`) are kept, as they are without an evaluator.
+   */
+  evaluateCondition?: ConditionEvaluator
+}
+
+/**
+ * Where a field is in the skeleton being generated, for evaluating conditions.
+ */
+interface SkeletonContext {
+  document: Record<string, unknown>
+  path: string
+  evaluateCondition?: ConditionEvaluator
 }
 
 /**
@@ -483,7 +553,7 @@ export function generateDocumentSkeleton(
   schemaType: ManifestSchemaType,
   options: GenerateSkeletonOptions = {}
 ): Record<string, unknown> {
-  const { includeOptional = false, documentId, typeMap } = options
+  const { includeOptional = false, documentId, typeMap, evaluateCondition } = options
 
   const skeleton: Record<string, unknown> = {
     _type: schemaType.name,
@@ -505,7 +575,12 @@ export function generateDocumentSkeleton(
       continue
     }
 
-    const defaultValue = getDefaultValueForField(field, typeMap, includeOptional)
+    const context = { document: skeleton, path: field.name, evaluateCondition }
+    if (isSkippedInSkeleton(field, skeleton, context)) {
+      continue
+    }
+
+    const defaultValue = getDefaultValueForField(field, typeMap, includeOptional, context)
     if (defaultValue !== undefined) {
       skeleton[field.name] = defaultValue
     }
@@ -514,6 +589,23 @@ export function generateDocumentSkeleton(
   return skeleton
 }
 
+/**
+ * Check whether a field is left out of a skeleton: conditionally hidden
+ * fields, and conditionally read-only fields without an initial value (a
+ * placeholder can't be edited), when the evaluator says the condition applies.
+ */
+function isSkippedInSkeleton(
+  field: ManifestField,
+  parent: Record<string, unknown>,
+  context: SkeletonContext
+): boolean {
+  const conditionContext = { path: context.path, document: context.document, parent, value: undefined }
+  const applies = (property: 'hidden' | 'readOnly') =>
+    field[property] === 'conditional' &&
+    evaluateFieldCondition(property, field, conditionContext, context.evaluateCondition)
+  return applies('hidden') || (field.initialValue === undefined && applies('readOnly'))
+}
+
 /**
  * Generate a skeleton from a type name, looking it up in the provided types array.
  *
@@ -550,7 +642,8 @@ export function generateSkeletonByTypeName(
 function getDefaultValueForField(
   field: ManifestField,
   typeMap?: Map<string, ManifestSchemaType>,
-  includeOptional: boolean = false
+  includeOptional: boolean = false,
+  context?: SkeletonContext
 ): unknown {
   // Check for explicit initialValue in schema
   if (field.initialValue !== undefined) {
@@ -601,7 +694,7 @@ function getDefaultValueForField(
 
     case 'object':
       // Recursively generate skeleton for nested object
-      return generateObjectSkeleton(field, typeMap, includeOptional)
+      return generateObjectSkeleton(field, typeMap, includeOptional, context)
 
     case 'block':
       // Portable text - return empty array (content field is usually array of blocks)
@@ -612,7 +705,7 @@ function getDefaultValueForField(
       if (typeMap) {
         const customType = typeMap.get(field.type)
         if (customType && customType.type === 'object') {
-          return generateObjectSkeleton(customType, typeMap, includeOptional)
+          return generateObjectSkeleton(customType, typeMap, includeOptional, context)
         }
       }
       return undefined
@@ -625,7 +718,8 @@ function getDefaultValueForField(
 function generateObjectSkeleton(
   objectType: ManifestSchemaType,
   typeMap?: Map<string, ManifestSchemaType>,
-  includeOptional: boolean = false
+  includeOptional: boolean = false,
+  context?: SkeletonContext
 ): Record<string, unknown> {
   const skeleton: Record<string, unknown> = {}
 
@@ -645,7 +739,12 @@ function generateObjectSkeleton(
       continue
     }
 
-    const defaultValue = getDefaultValueForField(field, typeMap, includeOptional)
+    const fieldContext = context && { ...context, path: `${context.path}.${field.name}` }
+    if (fieldContext && isSkippedInSkeleton(field, skeleton, fieldContext)) {
+      continue
+    }
+
+    const defaultValue = getDefaultValueForField(field, typeMap, includeOptional, fieldContext)
     if (defaultValue !== undefined) {
       skeleton[field.name] = defaultValue
     }
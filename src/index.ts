@@ -96,6 +96,8 @@ export {
   findTypes,
   findTypeByName,
   getReferencedTypeNames,
+  // Keys
+  generateKey,
   // Skeleton generation
   generateDocumentSkeleton,
   generateSkeletonByTypeName,
@@ -106,6 +108,8 @@ export type { GenerateSkeletonOptions } from './helpers.js'
 // Validation
 export {
   validateDocument,
+  validateDocumentAsync,
+  toPatchOperations,
   formatValidationIssues,
   formatValidationForAgent,
 } from './validation.js'
@@ -113,6 +117,142 @@ export {
 export type {
   ValidationSeverity,
   ValidationIssue,
+  ValidationFix,
   ValidationResult,
   ValidateOptions,
+  UniqueValueContext,
+  UniquenessChecker,
 } from './validation.js'
+
+// Batch validation
+export { validateDocuments } from './batch.js'
+
+export type {
+  DocumentValidationResult,
+  ValidateDocumentsOptions,
+  TypeValidationStats,
+  ValidationReport,
+  DetailedValidationReport,
+} from './batch.js'
+
+// Auto-fix
+export { fixDocument } from './fix.js'
+
+export type {
+  FixKind,
+  AppliedFix,
+  SkippedFix,
+  FixOptions,
+  FixResult,
+} from './fix.js'
+
+// NDJSON export validation
+export { validateNdjson } from './ndjson.js'
+
+export type {
+  NdjsonDocumentResult,
+  ValidateNdjsonOptions,
+  NdjsonValidationReport,
+} from './ndjson.js'
+
+// CI reports
+export { formatValidationSarif, formatValidationJUnit } from './formatters.js'
+
+export type {
+  FormattableResult,
+  SarifOptions,
+  SarifResult,
+  SarifLog,
+  JUnitOptions,
+} from './formatters.js'
+
+// Patch validation
+export { validatePatch } from './patch.js'
+
+export type { PatchValidationResult } from './patch.js'
+
+// Paths
+export {
+  parsePath,
+  formatPath,
+  getValueAtPath,
+  toKeyedPath,
+  toIndexPath,
+  toJsonPointer,
+  fromJsonPointer,
+  toJsonPath,
+  fromJsonPath,
+} from './paths.js'
+
+export type { PathSegment } from './paths.js'
+
+// Conditional fields
+export {
+  createConditionEvaluator,
+  evaluatePredicate,
+  evaluateFieldCondition,
+} from './conditions.js'
+
+export type {
+  ConditionalProperty,
+  ConditionContext,
+  ConditionEvaluator,
+  ConditionPredicate,
+  FieldConditions,
+} from './conditions.js'
+
+// Custom rules
+export { CustomRuleRegistry, createCustomRuleRegistry } from './rules.js'
+
+export type {
+  CustomRuleContext,
+  CustomRuleIssue,
+  CustomRuleResult,
+  CustomRuleValidator,
+  CustomRuleDefinition,
+} from './rules.js'
+
+// Messages
+export { defaultMessages, formatMessage, registerLocale } from './messages.js'
+
+export type {
+  MessageId,
+  MessageParams,
+  MessageTemplate,
+  MessageCatalog,
+} from './messages.js'
+
+// Issue codes
+export { IssueCode } from './codes.js'
+
+// TypeScript generation
+export { generateTypeScript } from './typescript.js'
+
+export type { GenerateTypeScriptOptions } from './typescript.js'
+
+// JSON Schema export
+export { toJsonSchema } from './jsonschema.js'
+
+export type { JsonSchema, JsonSchemaDraft, JsonSchemaOptions } from './jsonschema.js'
+
+// Zod generation
+export { generateZod } from './zod.js'
+
+export type { GenerateZodOptions } from './zod.js'
+
+// GraphQL SDL generation
+export { toGraphQLSDL } from './graphql.js'
+
+export type { GraphQLSDLOptions } from './graphql.js'
+
+// OpenAPI export
+export { toOpenApi } from './openapi.js'
+
+export type {
+  OpenApiDocument,
+  OpenApiOptions,
+  OpenApiPathItem,
+  OpenApiOperation,
+  OpenApiParameter,
+  OpenApiResponse,
+} from './openapi.js'
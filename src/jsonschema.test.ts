@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest'
+import type { ManifestSchemaType } from './types.js'
+import { toJsonSchema } from './jsonschema.js'
+
+const types: ManifestSchemaType[] = [
+  {
+    type: 'document',
+    name: 'article',
+    title: 'Article',
+    fields: [
+      {
+        type: 'string',
+        name: 'title',
+        validation: [{ rules: [{ flag: 'presence', constraint: 'required' }, { flag: 'max', constraint: 120 }] }],
+      },
+      {
+        type: 'string',
+        name: 'subtitle',
+        validation: [{ rules: [{ flag: 'presence', constraint: 'required' }, { flag: 'min', constraint: 10 }], level: 'warning' }],
+      },
+      {
+        type: 'string',
+        name: 'status',
+        options: { list: [{ title: 'Draft', value: 'draft' }, { title: 'Published', value: 'published' }] },
+      },
+      {
+        type: 'string',
+        name: 'code',
+        validation: [{
+          rules: [
+            { flag: 'length', constraint: 6 },
+            { flag: 'regex', constraint: { pattern: '^[A-Z0-9]+$' } },
+            { flag: 'regex', constraint: { pattern: '^TEST', invert: true } },
+          ],
+        }],
+      },
+      { type: 'string', name: 'contact', validation: [{ rules: [{ flag: 'email' }] }] },
+      { type: 'url', name: 'website' },
+      {
+        type: 'number',
+        name: 'rating',
+        description: 'From 1 to 5',
+        validation: [{ rules: [{ flag: 'integer' }, { flag: 'min', constraint: 1 }, { flag: 'max', constraint: 5 }] }],
+      },
+      { type: 'datetime', name: 'publishedAt', deprecated: { reason: 'Use the publication' } },
+      {
+        type: 'array',
+        name: 'tags',
+        of: [{ type: 'string' }],
+        validation: [{ rules: [{ flag: 'min', constraint: 1 }, { flag: 'unique' }] }],
+      },
+      {
+        type: 'array',
+        name: 'sections',
+        of: [
+          { type: 'seo' },
+          { type: 'object', name: 'quote', fields: [{ type: 'text', name: 'text' }] },
+          { type: 'reference', to: [{ type: 'author' }] },
+        ],
+      },
+      {
+        type: 'array',
+        name: 'body',
+        of: [{
+          type: 'block',
+          styles: [{ value: 'normal', title: 'Normal' }, { value: 'h2', title: 'H2' }],
+          lists: [],
+          marks: { annotations: [{ type: 'object', name: 'link', fields: [{ type: 'url', name: 'href' }] }] },
+        }],
+      },
+      { type: 'seo', name: 'seo', validation: [{ rules: [{ flag: 'presence', constraint: 'required' }] }] },
+    ],
+  },
+  { type: 'document', name: 'author', fields: [{ type: 'string', name: 'name' }] },
+  { type: 'object', name: 'seo', fields: [{ type: 'string', name: 'description' }] },
+  { type: 'string', name: 'category', options: { list: ['news', 'sports'] } },
+]
+
+describe('toJsonSchema', () => {
+  const schema = toJsonSchema(types, { draft: '2020-12' })
+  const article = schema.$defs?.['article']
+  const properties = article?.properties ?? {}
+
+  it('defines every named type, and matches any document type', () => {
+    expect(schema.$schema).toBe('https://json-schema.org/draft/2020-12/schema')
+    expect(Object.keys(schema.$defs ?? {})).toEqual(['article', 'author', 'seo', 'category'])
+    expect(schema.oneOf).toEqual([{ $ref: '#/$defs/article' }, { $ref: '#/$defs/author' }])
+    expect(schema.$defs?.['category']).toEqual({ type: 'string', enum: ['news', 'sports'] })
+    expect(schema.$defs?.['seo']).toEqual({
+      type: 'object',
+      properties: { _type: { const: 'seo' }, description: { type: 'string' } },
+    })
+  })
+
+  it('declares document system fields and required fields', () => {
+    expect(article).toMatchObject({ title: 'Article', type: 'object', required: ['_type', 'title', 'seo'] })
+    expect(properties['_type']).toEqual({ const: 'article' })
+    expect(properties['_updatedAt']).toEqual({ type: 'string', format: 'date-time' })
+    expect(properties['seo']).toEqual({ $ref: '#/$defs/seo' })
+  })
+
+  it('maps rules to keywords', () => {
+    expect(properties['title']).toEqual({ type: 'string', maxLength: 120 })
+    expect(properties['code']).toEqual({
+      type: 'string',
+      minLength: 6,
+      maxLength: 6,
+      pattern: '^[A-Z0-9]+$',
+      allOf: [{ not: { pattern: '^TEST' } }],
+    })
+    expect(properties['contact']).toEqual({ type: 'string', format: 'email' })
+    expect(properties['website']).toEqual({ type: 'string', format: 'uri' })
+    expect(properties['rating']).toEqual({
+      description: 'From 1 to 5',
+      type: 'integer',
+      minimum: 1,
+      maximum: 5,
+    })
+    expect(properties['tags']).toEqual({ type: 'array', items: { type: 'string' }, minItems: 1, uniqueItems: true })
+  })
+
+  it('leaves out rules that only warn', () => {
+    expect(properties['subtitle']).toEqual({ type: 'string' })
+  })
+
+  it('turns list options into enums and marks deprecated fields', () => {
+    expect(properties['status']).toEqual({ type: 'string', enum: ['draft', 'published'] })
+    expect(properties['publishedAt']).toEqual({ deprecated: true, type: 'string', format: 'date-time' })
+  })
+
+  it('discriminates array members by _type', () => {
+    expect(properties['sections']?.items?.oneOf).toEqual([
+      { $ref: '#/$defs/seo', required: ['_type'] },
+      {
+        type: 'object',
+        properties: { _type: { const: 'quote' }, text: { type: 'string' } },
+        required: ['_type'],
+      },
+      {
+        type: 'object',
+        properties: { _type: { const: 'reference' }, _ref: { type: 'string' }, _weak: { type: 'boolean' } },
+        required: ['_ref', '_type'],
+      },
+    ])
+  })
+
+  it('describes portable text blocks', () => {
+    const block = properties['body']?.items
+    expect(block?.required).toEqual(['_type', 'children'])
+    expect(block?.properties?.['style']).toEqual({ type: 'string', enum: ['normal', 'h2'] })
+    expect(block?.properties?.['listItem']).toBeUndefined()
+    expect(block?.properties?.['children']?.items?.properties?.['_type']).toEqual({ const: 'span' })
+    expect(block?.properties?.['markDefs']?.items).toEqual({
+      type: 'object',
+      properties: { _type: { const: 'link' }, href: { type: 'string', format: 'uri' } },
+      required: ['_type'],
+    })
+  })
+
+  it('uses definitions and allOf for draft 07', () => {
+    const draft07 = toJsonSchema(types, { draft: '07' })
+    const sections = draft07.definitions?.['article']?.properties?.['sections']
+
+    expect(draft07.$schema).toBe('http://json-schema.org/draft-07/schema#')
+    expect(draft07.$defs).toBeUndefined()
+    expect(draft07.oneOf?.[0]).toEqual({ $ref: '#/definitions/article' })
+    expect(sections?.items?.oneOf?.[0]).toEqual({ allOf: [{ $ref: '#/definitions/seo' }], required: ['_type'] })
+    expect(draft07.definitions?.['article']?.properties?.['publishedAt']).not.toHaveProperty('deprecated')
+  })
+
+  it('rejects unknown fields with additionalProperties: false', () => {
+    const strict = toJsonSchema(types, { additionalProperties: false })
+
+    expect(strict.$defs?.['seo']).toMatchObject({ patternProperties: { '^_': {} }, additionalProperties: false })
+  })
+})
@@ -0,0 +1,478 @@
+import type {
+  ManifestArrayMember,
+  ManifestSchemaType,
+  ManifestTitledValue,
+  ManifestValidationRule,
+} from './types.js'
+import { getListOptions } from './helpers.js'
+
+/**
+ * JSON Schema versions `toJsonSchema` can produce.
+ */
+export type JsonSchemaDraft = '2020-12' | '2019-09' | '07'
+
+/**
+ * Options for JSON Schema export.
+ */
+export interface JsonSchemaOptions {
+  /**
+   * JSON Schema version (default: "2020-12"). Named types are in `$defs`, or
+   * in `definitions` for draft 07.
+   */
+  draft?: JsonSchemaDraft
+  /**
+   * Allow properties that are not fields in the schema (default: true, as
+   * `validateDocument` only warns about unknown fields). Properties starting
+   * with `_` are always allowed.
+   */
+  additionalProperties?: boolean
+}
+
+/**
+ * A JSON Schema, with the keywords `toJsonSchema` produces.
+ */
+export interface JsonSchema {
+  $schema?: string
+  $ref?: string
+  $defs?: Record<string, JsonSchema>
+  definitions?: Record<string, JsonSchema>
+  title?: string
+  description?: string
+  deprecated?: boolean
+  readOnly?: boolean
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array'
+  const?: string
+  enum?: Array<string | number>
+  format?: string
+  pattern?: string
+  minLength?: number
+  maxLength?: number
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: number
+  properties?: Record<string, JsonSchema>
+  patternProperties?: Record<string, JsonSchema>
+  additionalProperties?: boolean
+  required?: string[]
+  items?: JsonSchema
+  minItems?: number
+  maxItems?: number
+  uniqueItems?: boolean
+  oneOf?: JsonSchema[]
+  allOf?: JsonSchema[]
+  not?: JsonSchema
+  [keyword: string]: unknown
+}
+
+/**
+ * State shared while converting one schema.
+ */
+interface ConversionContext {
+  typeMap: Map<string, ManifestSchemaType>
+  draft: JsonSchemaDraft
+  additionalProperties: boolean
+  /** The `$ref` for a named type */
+  ref: (name: string) => string
+}
+
+const schemaUris: Record<JsonSchemaDraft, string> = {
+  '2020-12': 'https://json-schema.org/draft/2020-12/schema',
+  '2019-09': 'https://json-schema.org/draft/2019-09/schema',
+  '07': 'http://json-schema.org/draft-07/schema#',
+}
+
+/** Schema types whose values are objects with a `_type` */
+const objectTypes = ['document', 'object', 'image', 'file', 'block', 'span', 'slug', 'reference',
+  'crossDatasetReference', 'globalDocumentReference', 'geopoint', 'color']
+
+/**
+ * Convert a deployed schema to JSON Schema, for services that don't use
+ * TypeScript (ingestion pipelines, form builders, ...).
+ *
+ * Every named type gets a definition in `$defs`, and the root schema matches
+ * any document type. Required fields are listed in `required`, and
+ * `min`/`max`/`length`/`regex`/`email`/`uri`/`integer`/`positive`/`unique`
+ * rules become the corresponding keywords (`minLength`, `minimum`,
+ * `minItems`, `pattern`, `format`, ...). Rules with a `warning` or `info`
+ * level are left out. Values from `options.list` become an `enum`, and array
+ * members a `oneOf` discriminated by `_type`.
+ *
+ * @param types - All schema types from the schema
+ * @param options - JSON Schema version, and whether to allow unknown fields
+ * @returns The JSON Schema, ready for `JSON.stringify`
+ *
+ * @example
+ * ```ts
+ * const types = await schemaClient.getTypes()
+ * const schema = toJsonSchema(types, { draft: '2020-12' })
+ * await writeFile('sanity.schema.json', JSON.stringify(schema, null, 2))
+ *
+ * // schema.$defs.article:
+ * // {
+ * //   type: 'object',
+ * //   properties: {
+ * //     _id: { type: 'string' },
+ * //     _type: { const: 'article' },
+ * //     ...
+ * //     title: { type: 'string', maxLength: 120 },
+ * //     status: { type: 'string', enum: ['draft', 'published'] },
+ * //   },
+ * //   required: ['_type', 'title'],
+ * // }
+ * ```
+ */
+export function toJsonSchema(types: ManifestSchemaType[], options: JsonSchemaOptions = {}): JsonSchema {
+  const { draft = '2020-12', additionalProperties = true } = options
+  const definitionsKeyword = draft === '07' ? 'definitions' : '$defs'
+  const definitions = toJsonSchemaDefinitions(types, { draft, additionalProperties }, `#/${definitionsKeyword}/`)
+  const documents = types.filter((t) => t.type === 'document')
+
+  return {
+    $schema: schemaUris[draft],
+    ...(documents.length > 0 && { oneOf: documents.map((t) => ({ $ref: `#/${definitionsKeyword}/${t.name}` })) }),
+    [definitionsKeyword]: definitions,
+  }
+}
+
+/**
+ * JSON Schemas for all named types, by type name, referencing each other
+ * with `refPrefix` followed by the type name.
+ *
+ * Used by the OpenAPI export, which puts them in `components.schemas`.
+ */
+export function toJsonSchemaDefinitions(
+  types: ManifestSchemaType[],
+  options: Required<JsonSchemaOptions>,
+  refPrefix: string
+): Record<string, JsonSchema> {
+  const context: ConversionContext = {
+    typeMap: new Map(types.map((t) => [t.name, t])),
+    draft: options.draft,
+    additionalProperties: options.additionalProperties,
+    ref: (name) => `${refPrefix}${name}`,
+  }
+
+  const definitions: Record<string, JsonSchema> = {}
+  for (const type of types) {
+    definitions[type.name] = typeSchema(type, type.name, context)
+  }
+  return definitions
+}
+
+/**
+ * The schema for a type or field, with its annotations and rules.
+ *
+ * @param typeName - The `_type` of the value, for object types
+ */
+function typeSchema(def: ManifestSchemaType, typeName: string | undefined, context: ConversionContext): JsonSchema {
+  const annotations: JsonSchema = {
+    ...(def.title && { title: def.title }),
+    ...(def.description && { description: def.description }),
+    ...(def.deprecated && context.draft !== '07' && { deprecated: true }),
+    ...(def.readOnly === true && { readOnly: true }),
+  }
+  return withKeywords({ ...annotations, ...valueSchema(def, typeName, context) }, ruleKeywords(def, context), context)
+}
+
+/**
+ * The schema for values of a type, without annotations and rules.
+ */
+function valueSchema(def: ManifestSchemaType, typeName: string | undefined, context: ConversionContext): JsonSchema {
+  switch (def.type) {
+    case 'string':
+    case 'text':
+      return { type: 'string', ...listEnum(def) }
+    case 'url':
+      return { type: 'string', format: 'uri' }
+    case 'email':
+      return { type: 'string', format: 'email' }
+    case 'date':
+      return { type: 'string', format: 'date' }
+    case 'datetime':
+      return { type: 'string', format: 'date-time' }
+    case 'number':
+      return { type: 'number', ...listEnum(def) }
+    case 'boolean':
+      return { type: 'boolean' }
+    case 'document':
+      return objectSchema(def.fields ?? [], context, {
+        _id: { type: 'string' },
+        _type: { const: def.name },
+        _createdAt: { type: 'string', format: 'date-time' },
+        _updatedAt: { type: 'string', format: 'date-time' },
+        _rev: { type: 'string' },
+      }, ['_type'])
+    case 'object':
+      return objectSchema(def.fields ?? [], context, typeName ? { _type: { const: typeName } } : {})
+    case 'image':
+    case 'file':
+      return objectSchema(def.fields ?? [], context, {
+        _type: { const: typeName ?? def.type },
+        asset: referenceSchema('reference'),
+        ...(def.type === 'image' && {
+          hotspot: numbersSchema(['x', 'y', 'height', 'width']),
+          crop: numbersSchema(['top', 'bottom', 'left', 'right']),
+        }),
+      })
+    case 'array':
+      return { type: 'array', ...(def.of?.length && { items: oneOf(def.of.map((m) => memberSchema(m, context))) }) }
+    case 'block':
+      return blockSchema(def, typeName ?? 'block', context)
+    case 'span':
+      return spanSchema()
+    case 'slug':
+      return {
+        type: 'object',
+        properties: { _type: { const: 'slug' }, current: { type: 'string' } },
+        required: ['current'],
+      }
+    case 'reference':
+      return referenceSchema(typeName ?? 'reference')
+    case 'crossDatasetReference':
+    case 'globalDocumentReference': {
+      const schema = referenceSchema(typeName ?? def.type)
+      if (def.type === 'globalDocumentReference') return schema
+      return {
+        ...schema,
+        properties: { ...schema.properties, _dataset: { type: 'string' }, _projectId: { type: 'string' } },
+        required: ['_ref', '_dataset', '_projectId'],
+      }
+    }
+    case 'geopoint':
+      return {
+        type: 'object',
+        properties: {
+          _type: { const: 'geopoint' },
+          lat: { type: 'number', minimum: -90, maximum: 90 },
+          lng: { type: 'number', minimum: -180, maximum: 180 },
+          alt: { type: 'number' },
+        },
+        required: ['lat', 'lng'],
+      }
+    case 'color':
+      return {
+        type: 'object',
+        properties: {
+          _type: { const: 'color' },
+          hex: { type: 'string', pattern: '^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$' },
+          alpha: { type: 'number', minimum: 0, maximum: 1 },
+        },
+        required: ['hex'],
+      }
+    default:
+      return context.typeMap.has(def.type) ? { $ref: context.ref(def.type) } : {}
+  }
+}
+
+/**
+ * The schema for an array item. Objects are discriminated by a required
+ * `_type`: the member's name, or the name of the type.
+ */
+function memberSchema(member: ManifestArrayMember, context: ConversionContext): JsonSchema {
+  const def = member as ManifestSchemaType
+  const kind = context.typeMap.get(def.type)?.type ?? def.type
+  if (!objectTypes.includes(kind)) return typeSchema(def, undefined, context)
+
+  return withKeywords(typeSchema(def, member.name ?? def.type, context), { required: ['_type'] }, context)
+}
+
+/**
+ * The schema for a portable text block, with its styles, list types,
+ * annotations (mark definitions) and inline objects.
+ */
+function blockSchema(def: ManifestSchemaType, typeName: string, context: ConversionContext): JsonSchema {
+  const annotations = def.marks?.annotations ?? []
+  const properties: Record<string, JsonSchema> = {
+    _type: { const: typeName },
+    children: {
+      type: 'array',
+      items: oneOf([spanSchema(), ...(def.of ?? []).map((m) => memberSchema(m, context))]),
+    },
+    style: { type: 'string', ...titledEnum(def.styles) },
+  }
+  if (def.lists?.length !== 0) {
+    properties['listItem'] = { type: 'string', ...titledEnum(def.lists) }
+    properties['level'] = { type: 'integer', minimum: 1 }
+  }
+  properties['markDefs'] = {
+    type: 'array',
+    items: annotations.length > 0
+      ? oneOf(annotations.map((m) => memberSchema(m, context)))
+      : { type: 'object', properties: { _type: { type: 'string' }, _key: { type: 'string' } }, required: ['_type', '_key'] },
+  }
+
+  return { type: 'object', properties, required: ['_type', 'children'] }
+}
+
+/**
+ * An object with properties for fields, after the given system properties.
+ */
+function objectSchema(
+  fields: ManifestSchemaType[],
+  context: ConversionContext,
+  system: Record<string, JsonSchema> = {},
+  systemRequired: string[] = []
+): JsonSchema {
+  const properties = { ...system }
+  const required = [...systemRequired]
+  for (const field of fields) {
+    properties[field.name] = typeSchema(field, undefined, context)
+    if (isValueRequired(field)) required.push(field.name)
+  }
+
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 && { required }),
+    // Keys starting with `_` (`_key`, `_weak`, ...) are managed by Sanity
+    ...(!context.additionalProperties && { patternProperties: { '^_': {} }, additionalProperties: false }),
+  }
+}
+
+function spanSchema(): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      _type: { const: 'span' },
+      text: { type: 'string' },
+      marks: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['text'],
+  }
+}
+
+function referenceSchema(typeName: string): JsonSchema {
+  return {
+    type: 'object',
+    properties: { _type: { const: typeName }, _ref: { type: 'string' }, _weak: { type: 'boolean' } },
+    required: ['_ref'],
+  }
+}
+
+function numbersSchema(names: string[]): JsonSchema {
+  return {
+    type: 'object',
+    properties: Object.fromEntries(names.map((name) => [name, { type: 'number' }])),
+  }
+}
+
+/**
+ * Keywords for a type's `error`-level validation rules.
+ */
+function ruleKeywords(def: ManifestSchemaType, context: ConversionContext): JsonSchema {
+  const base = context.typeMap.get(def.type)?.type ?? def.type
+  const kind = ['string', 'text', 'url', 'email'].includes(base)
+    ? 'string'
+    : base === 'number' || base === 'array' ? base : undefined
+  const keywords: JsonSchema = {}
+
+  for (const { flag, constraint } of constraintRules(def)) {
+    switch (flag) {
+      case 'min':
+      case 'max': {
+        if (typeof constraint !== 'number') break
+        const keyword = {
+          string: flag === 'min' ? 'minLength' : 'maxLength',
+          number: flag === 'min' ? 'minimum' : 'maximum',
+          array: flag === 'min' ? 'minItems' : 'maxItems',
+        } as const
+        if (kind) keywords[keyword[kind]] = constraint
+        break
+      }
+      case 'length': {
+        // An exact length, or a { min, max } range
+        const range = typeof constraint === 'number' ? { min: constraint, max: constraint } : constraint
+        if (typeof range !== 'object' || range === null || Array.isArray(range)) break
+        const { min, max } = range
+        if (kind === 'string') {
+          if (typeof min === 'number') keywords.minLength = min
+          if (typeof max === 'number') keywords.maxLength = max
+        } else if (kind === 'array') {
+          if (typeof min === 'number') keywords.minItems = min
+          if (typeof max === 'number') keywords.maxItems = max
+        }
+        break
+      }
+      case 'regex': {
+        if (kind !== 'string' || typeof constraint !== 'object' || constraint === null || Array.isArray(constraint)) break
+        const { pattern, invert } = constraint
+        if (typeof pattern !== 'string') break
+        // A schema has one `pattern`; further patterns go in `allOf`
+        if (invert === true || keywords.pattern !== undefined) {
+          keywords.allOf = [...(keywords.allOf ?? []), invert === true ? { not: { pattern } } : { pattern }]
+        } else {
+          keywords.pattern = pattern
+        }
+        break
+      }
+      case 'email':
+      case 'uri':
+        if (kind === 'string') keywords.format = flag === 'email' ? 'email' : 'uri'
+        break
+      case 'integer':
+        if (kind === 'number') keywords.type = 'integer'
+        break
+      case 'positive':
+        if (kind === 'number') keywords.exclusiveMinimum = 0
+        break
+      case 'unique':
+        if (kind === 'array') keywords.uniqueItems = true
+        break
+    }
+  }
+
+  return keywords
+}
+
+/**
+ * Rules from validation groups that report errors.
+ *
+ * Used by the Zod generator, which enforces the same rules.
+ */
+export function constraintRules(def: ManifestSchemaType): ManifestValidationRule[] {
+  return (def.validation ?? [])
+    .filter((group) => (group.level ?? 'error') === 'error')
+    .flatMap((group) => group.rules)
+}
+
+/**
+ * Whether a missing value is an error. Hidden fields can't be filled in by
+ * editors, so they are not required.
+ */
+export function isValueRequired(field: ManifestSchemaType): boolean {
+  return field.hidden !== true &&
+    constraintRules(field).some((r) => r.flag === 'presence' && r.constraint === 'required')
+}
+
+/**
+ * Add keywords to a schema. In draft 07, keywords next to `$ref` are
+ * ignored, so a reference is wrapped in `allOf` instead.
+ */
+function withKeywords(schema: JsonSchema, keywords: JsonSchema, context: ConversionContext): JsonSchema {
+  if (Object.keys(keywords).length === 0) return schema
+  if (schema.$ref !== undefined && context.draft === '07') return { allOf: [schema], ...keywords }
+
+  const required = Array.from(new Set([...(schema.required ?? []), ...(keywords.required ?? [])]))
+  return { ...schema, ...keywords, ...(required.length > 0 && { required }) }
+}
+
+function listEnum(def: ManifestSchemaType): JsonSchema {
+  const list = getListOptions(def)
+  if (!list || list.length === 0) return {}
+
+  // List items may be plain values or { title, value } objects
+  return {
+    enum: Array.from(new Set(list.map((item) =>
+      typeof item === 'object' && item !== null ? item.value : (item as string | number)
+    ))),
+  }
+}
+
+function titledEnum(values: ManifestTitledValue[] | undefined): JsonSchema {
+  return values?.length ? { enum: values.map((v) => v.value) } : {}
+}
+
+function oneOf(schemas: JsonSchema[]): JsonSchema {
+  const [first] = schemas
+  return schemas.length === 1 && first ? first : { oneOf: schemas }
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import type { ManifestSchemaType } from './types.js'
+import { defaultMessages, formatMessage, registerLocale } from './messages.js'
+import { validateDocument } from './validation.js'
+
+registerLocale('nb', {
+  REQUIRED: '{field} er påkrevd',
+  MIN_ITEMS: ({ min }) => `Må ha minst ${min} ${min === 1 ? 'element' : 'elementer'}`,
+})
+registerLocale('nb-NO', {
+  REQUIRED: '{field} må fylles ut',
+})
+
+describe('formatMessage', () => {
+  it('formats English messages by default', () => {
+    expect(formatMessage('MIN_LENGTH', { min: 3 })).toBe('Must be at least 3 characters')
+    expect(formatMessage('MIN_ITEMS', { min: 1 })).toBe('Must have at least 1 item')
+    expect(formatMessage('MAX_ITEMS', { max: 2, length: 3 })).toBe('Must have at most 2 items (currently 3)')
+  })
+
+  it('leaves placeholders without a parameter', () => {
+    expect(formatMessage('REQUIRED')).toBe('{field} is required')
+  })
+
+  it('falls back from region to language to English', () => {
+    expect(formatMessage('REQUIRED', { field: 'Tittel' }, 'nb-NO')).toBe('Tittel må fylles ut')
+    expect(formatMessage('MIN_ITEMS', { min: 2 }, 'NB-no')).toBe('Må ha minst 2 elementer')
+    expect(formatMessage('MIN_VALUE', { min: 2 }, 'nb-NO')).toBe('Must be at least 2')
+    expect(formatMessage('MIN_VALUE', { min: 2 }, 'de')).toBe('Must be at least 2')
+  })
+
+  it('merges messages registered for the same locale', () => {
+    registerLocale('de', { REQUIRED: '{field} ist erforderlich' })
+    registerLocale('de', { MIN_VALUE: 'Muss mindestens {min} sein' })
+
+    expect(formatMessage('REQUIRED', { field: 'Titel' }, 'de')).toBe('Titel ist erforderlich')
+    expect(formatMessage('MIN_VALUE', { min: 2 }, 'de')).toBe('Muss mindestens 2 sein')
+  })
+
+  it('has a message for every ID', () => {
+    for (const id of Object.keys(defaultMessages) as Array<keyof typeof defaultMessages>) {
+      expect(formatMessage(id, {})).not.toBe('')
+    }
+  })
+})
+
+describe('localized validation', () => {
+  const articleType: ManifestSchemaType = {
+    type: 'document',
+    name: 'article',
+    fields: [
+      {
+        type: 'string',
+        name: 'title',
+        title: 'Tittel',
+        validation: [{ rules: [{ flag: 'presence', constraint: 'required' }] }],
+      },
+      {
+        type: 'string',
+        name: 'lead',
+        validation: [{ rules: [{ flag: 'presence', constraint: 'required' }], message: 'Skriv en ingress' }],
+      },
+      { type: 'array', name: 'tags', of: [{ type: 'string' }], validation: [{ rules: [{ flag: 'min', constraint: 2 }] }] },
+    ],
+  }
+
+  it('uses the locale for built-in messages and sets codes', () => {
+    const result = validateDocument({ _type: 'article', tags: ['a'] }, [articleType], { locale: 'nb' })
+
+    expect(result.errors.map(e => [e.code, e.message])).toEqual([
+      ['REQUIRED', 'Tittel er påkrevd'],
+      ['REQUIRED', 'Skriv en ingress'],
+      ['MIN_ITEMS', 'Må ha minst 2 elementer'],
+    ])
+  })
+})
@@ -0,0 +1,152 @@
+import type { IssueCode } from './codes.js'
+
+/**
+ * Parameters interpolated into a message, e.g. `{ min: 3 }` for "Must be at least {min}".
+ */
+export type MessageParams = Record<string, string | number>
+
+/**
+ * A message: a string with `{param}` placeholders, or a function for messages
+ * that depend on their parameters (e.g. plurals).
+ */
+export type MessageTemplate = string | ((params: MessageParams) => string)
+
+const plural = (count: string | number, word: string): string =>
+  `${count} ${word}${Number(count) === 1 ? '' : 's'}`
+
+/**
+ * The built-in English messages, keyed by issue code.
+ *
+ * Parameters are values from the document and names from the schema; they
+ * are not translated. Issues from custom validators (`CUSTOM_RULE`) bring
+ * their own messages.
+ */
+export const defaultMessages = {
+  MISSING_DOCUMENT_TYPE: 'Document is missing required _type field',
+  UNKNOWN_DOCUMENT_TYPE: 'Unknown document type "{type}"',
+  UNKNOWN_FIELD: 'Unknown field "{name}"',
+  REQUIRED: '{field} is required',
+  TYPE_MISMATCH: 'Expected {expected}, got {actual}',
+  PROPERTY_TYPE_MISMATCH: 'Expected {property} to be {expected}, got {actual}',
+  MISSING_PROPERTY: '{object} is missing {property}',
+  NUMBER_OUT_OF_RANGE: 'Expected {property} to be a number between 0 and {max}',
+  LIST_OPTION_INVALID: '"{value}" is not a valid option',
+  INVALID_DATE_FORMAT: 'Invalid {type} format: "{value}"',
+  DATETIME_MISSING_TIMEZONE: 'Datetime is missing a timezone: "{value}"',
+  ARRAY_MISSING_KEY: 'Array item is missing _key property',
+  ARRAY_ITEM_TYPE_NOT_ALLOWED: 'Type "{type}" is not allowed in this array',
+  REFERENCE_MISSING_REF: 'Reference is missing _ref property',
+  REFERENCE_TARGET_NOT_ALLOWED: 'Reference to "{type}" is not allowed',
+  REFERENCE_NOT_FOUND: 'Referenced document "{id}" does not exist',
+  CROSS_DATASET_REFERENCE_MISMATCH: 'Reference points to dataset "{actual}", but this field references "{expected}"',
+  GLOBAL_REFERENCE_MISSING_RESOURCE: 'Global document reference _ref must include the resource: "{ref}"',
+  GLOBAL_REFERENCE_MISMATCH:
+    'Reference points to {actualType} "{actualId}", but this field references {expectedType} "{expectedId}"',
+  ASSET_MISSING: ({ type }) => `${type === 'image' ? 'Image' : 'File'} is missing asset reference`,
+  ASSET_MISSING_REF: 'Asset is missing _ref property',
+  INVALID_ASSET_ID: 'Invalid {type} asset ID: "{id}"',
+  ASSET_TYPE_MISMATCH: 'Expected {expected} asset, got {actual} asset "{id}"',
+  FILE_TYPE_NOT_ACCEPTED: 'File type "{extension}" is not accepted',
+  CROP_TOO_LARGE: 'Crop {first} and {second} remove the whole image',
+  SLUG_MISSING_CURRENT: 'Slug is missing current value',
+  SLUG_INVALID_CHARACTERS: 'Slug contains invalid characters',
+  INVALID_URL: 'Invalid URL: "{value}"',
+  INVALID_EMAIL: 'Invalid email address: "{value}"',
+  COORDINATE_OUT_OF_RANGE: '{name} must be between -{limit} and {limit}',
+  INVALID_HEX_COLOR: 'Invalid hex color: {hex}',
+  BLOCK_STYLE_NOT_ALLOWED: 'Block style "{style}" is not allowed',
+  BLOCK_LIST_NOT_ALLOWED: 'List type "{listItem}" is not allowed',
+  BLOCK_LISTS_NOT_ALLOWED: 'Lists are not allowed in this block',
+  INLINE_TYPE_NOT_ALLOWED: 'Inline type "{type}" is not allowed in this block',
+  ANNOTATION_NOT_ALLOWED: 'Annotation "{type}" is not allowed',
+  MARK_DEFINITION_UNUSED: 'Mark definition "{key}" is not used by any span',
+  DECORATOR_NOT_ALLOWED: 'Decorator "{mark}" is not allowed',
+  MARK_NOT_ALLOWED: 'Mark "{mark}" is not an allowed decorator or a mark definition key',
+  MIN_DATE: 'Must be on or after {min}',
+  MAX_DATE: 'Must be on or before {max}',
+  MIN_LENGTH: 'Must be at least {min} characters',
+  MAX_LENGTH: 'Must be at most {max} characters (currently {length})',
+  MIN_VALUE: 'Must be at least {min}',
+  MAX_VALUE: 'Must be at most {max}',
+  MIN_ITEMS: ({ min = 0 }) => `Must have at least ${plural(min, 'item')}`,
+  MAX_ITEMS: ({ max = 0, length }) => `Must have at most ${plural(max, 'item')} (currently ${length})`,
+  NOT_INTEGER: 'Expected integer, got decimal',
+  NOT_POSITIVE: 'Expected positive number',
+  PATTERN_MISMATCH: ({ name }) => name ? `Does not match ${name} format` : 'Does not match required pattern',
+  DUPLICATE_ITEM: 'Duplicate of item {index}',
+  NOT_UNIQUE: ({ value, count = 0, ids }) =>
+    `"${value}" is already used by ${Number(count) === 1 ? 'document' : 'documents'} ${ids}`,
+  CUSTOM_RULE_NOT_EVALUATED: 'Has custom validation that cannot be evaluated',
+  CUSTOM_RULE_ASYNC: 'Custom rule "{name}" is async and is only evaluated by validateDocumentAsync',
+  CUSTOM_RULE_FAILED: 'Custom rule "{name}" failed: {error}',
+  READ_ONLY: 'Field "{field}" is read-only',
+  PATCH_NOT_APPLICABLE: 'Cannot apply {operation}: {reason}',
+} satisfies Record<Exclude<IssueCode, 'CUSTOM_RULE'>, MessageTemplate>
+
+/**
+ * The ID of a built-in message: the code of the issues it is used for.
+ */
+export type MessageId = keyof typeof defaultMessages
+
+/**
+ * Messages for a locale. Messages that are left out fall back to the base
+ * language (`nb` for `nb-NO`), then to English.
+ */
+export type MessageCatalog = Partial<Record<MessageId, MessageTemplate>>
+
+const catalogs = new Map<string, MessageCatalog>([['en', defaultMessages]])
+
+/**
+ * Register messages for a locale, merged with any messages registered for it before.
+ *
+ * @param locale - A BCP 47 language tag (e.g., "nb", "de" or "nb-NO"), case-insensitive
+ * @param messages - Messages keyed by message ID
+ *
+ * @example
+ * ```ts
+ * registerLocale('nb', {
+ *   REQUIRED: '{field} er påkrevd',
+ *   MIN_LENGTH: 'Må være minst {min} tegn',
+ *   MIN_ITEMS: ({ min }) => `Må ha minst ${min} ${min === 1 ? 'element' : 'elementer'}`,
+ * })
+ *
+ * const result = validateDocument(doc, allTypes, { locale: 'nb' })
+ * ```
+ */
+export function registerLocale(locale: string, messages: MessageCatalog): void {
+  const key = locale.toLowerCase()
+  catalogs.set(key, { ...catalogs.get(key), ...messages })
+}
+
+/**
+ * Format a message in a locale, falling back to the base language and then to English.
+ *
+ * @param id - The message ID
+ * @param params - Parameters to interpolate
+ * @param locale - The locale (default: "en")
+ * @returns The formatted message
+ *
+ * @example
+ * ```ts
+ * formatMessage('MIN_LENGTH', { min: 3 })
+ * // "Must be at least 3 characters"
+ * ```
+ */
+export function formatMessage(id: MessageId, params: MessageParams = {}, locale = 'en'): string {
+  const template = localeChain(locale)
+    .map((key) => catalogs.get(key)?.[id])
+    .find((t) => t !== undefined) ?? defaultMessages[id]
+
+  if (typeof template === 'function') return template(params)
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] === undefined ? match : String(params[name])
+  )
+}
+
+/**
+ * Locales to look messages up in, most specific first ("nb-no", "nb").
+ */
+function localeChain(locale: string): string[] {
+  const parts = locale.toLowerCase().split('-')
+  return parts.map((_, i) => parts.slice(0, parts.length - i).join('-'))
+}
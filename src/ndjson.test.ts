@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest'
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { ManifestSchemaType } from './types.js'
+import type { NdjsonDocumentResult } from './ndjson.js'
+import { validateNdjson } from './ndjson.js'
+
+const articleType: ManifestSchemaType = {
+  type: 'document',
+  name: 'article',
+  fields: [
+    {
+      type: 'string',
+      name: 'title',
+      validation: [{ rules: [{ flag: 'presence', constraint: 'required' }] }],
+    },
+    { type: 'slug', name: 'slug' },
+  ],
+}
+
+const allTypes: ManifestSchemaType[] = [articleType]
+
+const lines = [
+  JSON.stringify({ _id: '_.schemas.default', _type: 'system.schema', schema: '[]' }),
+  JSON.stringify({ _id: 'a1', _type: 'article', title: 'Hello', slug: { current: 'hello' } }),
+  '',
+  JSON.stringify({ _id: 'drafts.a1', _type: 'article', title: 'Hello', slug: { current: 'hello' } }),
+  '{ not json',
+  JSON.stringify({ _id: 'a2', _type: 'article' }),
+  JSON.stringify({ _id: 'image-abc-10x10-png', _type: 'sanity.imageAsset' }),
+]
+
+async function* chunks(text: string, size: number) {
+  const bytes = new TextEncoder().encode(text)
+  for (let i = 0; i < bytes.length; i += size) {
+    yield bytes.slice(i, i + size)
+  }
+}
+
+async function collect(
+  source: Parameters<typeof validateNdjson>[0],
+  options: Parameters<typeof validateNdjson>[2] = {}
+) {
+  const results: NdjsonDocumentResult[] = []
+  const report = await validateNdjson(source, allTypes, {
+    ...options,
+    onResult: (item) => {
+      results.push(item)
+    },
+  })
+  return { results, report }
+}
+
+describe('validateNdjson', () => {
+  it('reports line numbers for each document', async () => {
+    const { results } = await collect(chunks(lines.join('\n'), 7))
+
+    expect(results.map(r => r.line)).toEqual([2, 4, 6])
+    expect(results[2]?.result.errors[0]?.path).toBe('title')
+  })
+
+  it('skips system documents', async () => {
+    const { results, report } = await collect(chunks(lines.join('\n'), 64))
+
+    expect(results.some(r => r.documentId === '_.schemas.default')).toBe(false)
+    expect(results.some(r => r.documentId === 'image-abc-10x10-png')).toBe(false)
+    expect(report.skippedDocuments).toBe(2)
+  })
+
+  it('includes system documents on request', async () => {
+    const { report } = await collect(chunks(lines.join('\n'), 64), { includeSystemDocuments: true })
+
+    expect(report.totalDocuments).toBe(5)
+    expect(report.skippedDocuments).toBe(0)
+  })
+
+  it('understands drafts', async () => {
+    const { results } = await collect(chunks(lines.join('\n'), 64))
+
+    const draft = results.find(r => r.documentId === 'drafts.a1')
+    expect(draft?.isDraft).toBe(true)
+    expect(draft?.publishedId).toBe('a1')
+    // Drafts share unique values with their published document
+    expect(draft?.result.valid).toBe(true)
+  })
+
+  it('skips drafts on request', async () => {
+    const { results, report } = await collect(chunks(lines.join('\n'), 64), { skipDrafts: true })
+
+    expect(results.map(r => r.documentId)).toEqual(['a1', 'a2'])
+    expect(report.skippedDocuments).toBe(3)
+  })
+
+  it('collects parse errors', async () => {
+    const { report } = await collect(chunks(lines.join('\n'), 64))
+
+    expect(report.parseErrors).toHaveLength(1)
+    expect(report.parseErrors[0]?.line).toBe(5)
+    expect(report.parseErrors[0]?.message).toContain('Invalid JSON')
+  })
+
+  it('adds line numbers to the worst documents', async () => {
+    const { report } = await collect(chunks(lines.join('\r\n'), 64))
+
+    expect(report.worstDocuments).toEqual([
+      { index: 2, documentId: 'a2', documentType: 'article', errorCount: 1, warningCount: 0, line: 6 },
+    ])
+  })
+
+  it('reads from a file path', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'schema-client-'))
+    const file = join(dir, 'data.ndjson')
+    writeFileSync(file, lines.join('\n') + '\n')
+
+    try {
+      const { results, report } = await collect(file)
+      expect(results.map(r => r.line)).toEqual([2, 4, 6])
+      expect(report.invalidDocuments).toBe(1)
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
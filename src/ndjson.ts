@@ -0,0 +1,199 @@
+import type { ManifestSchemaType } from './types.js'
+import type {
+  DetailedValidationReport,
+  DocumentValidationResult,
+  ValidateDocumentsOptions,
+} from './batch.js'
+import { validateBatch } from './batch.js'
+
+/**
+ * The validation result for one document in an NDJSON export.
+ */
+export interface NdjsonDocumentResult extends DocumentValidationResult {
+  /** Line number of the document in the NDJSON source (1-based) */
+  line: number
+  /** Whether the document is a draft (`drafts.` ID prefix) */
+  isDraft: boolean
+  /** The published document ID (without `drafts.` prefix), if the document has an ID */
+  publishedId?: string
+}
+
+/**
+ * Options for validating an NDJSON export.
+ */
+export interface ValidateNdjsonOptions extends Omit<ValidateDocumentsOptions, 'onResult'> {
+  /** Called with each document's result as soon as it is validated */
+  onResult?: (item: NdjsonDocumentResult) => void | Promise<void>
+  /** Validate system documents (`_.*` IDs, `system.*` and `sanity.*` types) too (default: false) */
+  includeSystemDocuments?: boolean
+  /** Skip draft documents (default: false) */
+  skipDrafts?: boolean
+}
+
+/**
+ * Aggregate report for an NDJSON export.
+ */
+export interface NdjsonValidationReport extends DetailedValidationReport<{ line: number }> {
+  /** Number of system and draft documents that were skipped */
+  skippedDocuments: number
+  /** Lines that could not be parsed as a JSON object */
+  parseErrors: Array<{ line: number; message: string }>
+}
+
+/**
+ * Validates the documents in a Sanity dataset export (`data.ndjson`).
+ *
+ * Lines are read and validated one at a time, so large exports are never held
+ * in memory. System documents - schemas (`_.schemas.*`) and other `_.` IDs,
+ * and `system.*` and `sanity.*` types such as asset documents - are skipped
+ * unless `includeSystemDocuments` is set. Drafts (`drafts.` ID prefix) are
+ * validated like any other document, and are not reported as duplicates of
+ * their published version. Each result carries the line number of the
+ * document, so issues can be traced back to the source.
+ *
+ * Exports are `.tar.gz` archives; extract them first and pass the path to
+ * `data.ndjson`, or pass any stream of NDJSON text.
+ *
+ * @param source - Path to an NDJSON file, or an async iterable of text/bytes (e.g., a readable stream)
+ * @param schemaTypes - All schema types from the schema
+ * @param options - Validation options
+ * @returns Aggregate report for the export
+ *
+ * @example
+ * ```ts
+ * const report = await validateNdjson('./export/data.ndjson', allTypes, {
+ *   onResult: ({ line, result }) => {
+ *     for (const issue of result.errors) {
+ *       console.log(`data.ndjson:${line} ${issue.path}: ${issue.message}`)
+ *     }
+ *   },
+ * })
+ * console.log(report.summary)
+ * ```
+ */
+export async function validateNdjson(
+  source: string | AsyncIterable<string | Uint8Array>,
+  schemaTypes: ManifestSchemaType[],
+  options: ValidateNdjsonOptions = {}
+): Promise<NdjsonValidationReport> {
+  const {
+    onResult,
+    includeSystemDocuments = false,
+    skipDrafts = false,
+    ...batchOptions
+  } = options
+
+  const parseErrors: NdjsonValidationReport['parseErrors'] = []
+  // Documents are validated in order, one at a time, so this is the line of the current document
+  let currentLine = 0
+  let skippedDocuments = 0
+
+  async function* documents(): AsyncGenerator<Record<string, unknown>> {
+    for await (const { line, text } of readLines(source)) {
+      if (!text.trim()) continue
+
+      let document: unknown
+      try {
+        document = JSON.parse(text)
+      } catch (error) {
+        parseErrors.push({
+          line,
+          message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+        })
+        continue
+      }
+
+      if (typeof document !== 'object' || document === null || Array.isArray(document)) {
+        parseErrors.push({ line, message: 'Line is not a JSON object' })
+        continue
+      }
+
+      const doc = document as Record<string, unknown>
+      if (
+        (!includeSystemDocuments && isSystemDocument(doc)) ||
+        (skipDrafts && isDraftId(doc['_id']))
+      ) {
+        skippedDocuments++
+        continue
+      }
+
+      currentLine = line
+      yield doc
+    }
+  }
+
+  const report = await validateBatch(
+    documents(),
+    schemaTypes,
+    {
+      ...batchOptions,
+      onResult: onResult && (async (item) => {
+        await onResult({
+          ...item,
+          line: currentLine,
+          isDraft: isDraftId(item.documentId),
+          publishedId: item.documentId?.replace(/^drafts\./, ''),
+        })
+      }),
+    },
+    () => ({ line: currentLine })
+  )
+
+  return {
+    ...report,
+    skippedDocuments,
+    parseErrors,
+  }
+}
+
+/**
+ * Check if a document is a system document rather than content.
+ */
+function isSystemDocument(document: Record<string, unknown>): boolean {
+  const id = document['_id']
+  const type = document['_type']
+  return (
+    (typeof id === 'string' && id.startsWith('_.')) ||
+    (typeof type === 'string' && (type.startsWith('system.') || type.startsWith('sanity.')))
+  )
+}
+
+function isDraftId(id: unknown): boolean {
+  return typeof id === 'string' && id.startsWith('drafts.')
+}
+
+/**
+ * Read lines from a file path or a stream of text/bytes, with 1-based line numbers.
+ */
+async function* readLines(
+  source: string | AsyncIterable<string | Uint8Array>
+): AsyncGenerator<{ line: number; text: string }> {
+  const chunks: AsyncIterable<string | Uint8Array> = typeof source === 'string'
+    ? (await import('node:fs')).createReadStream(source)
+    : source
+
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let line = 0
+
+  for await (const chunk of chunks) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true })
+
+    let start = 0
+    let newline: number
+    while ((newline = buffer.indexOf('\n', start)) !== -1) {
+      yield { line: ++line, text: stripCarriageReturn(buffer.slice(start, newline)) }
+      start = newline + 1
+    }
+    buffer = buffer.slice(start)
+  }
+
+  buffer += decoder.decode()
+  if (buffer) {
+    yield { line: ++line, text: stripCarriageReturn(buffer) }
+  }
+}
+
+function stripCarriageReturn(text: string): string {
+  return text.endsWith('\r') ? text.slice(0, -1) : text
+}
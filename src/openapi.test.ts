@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import type { ManifestSchemaType } from './types.js'
+import { toOpenApi } from './openapi.js'
+
+const types: ManifestSchemaType[] = [
+  {
+    type: 'document',
+    name: 'article',
+    title: 'Article',
+    fields: [
+      {
+        type: 'string',
+        name: 'title',
+        validation: [{ rules: [{ flag: 'presence', constraint: 'required' }, { flag: 'max', constraint: 120 }] }],
+      },
+      { type: 'reference', name: 'author', to: [{ type: 'author' }] },
+      { type: 'seo', name: 'seo' },
+    ],
+  },
+  { type: 'document', name: 'author', deprecated: { reason: 'Use person' }, fields: [{ type: 'string', name: 'name' }] },
+  { type: 'object', name: 'seo', fields: [{ type: 'string', name: 'description' }] },
+]
+
+describe('toOpenApi', () => {
+  const api = toOpenApi(types)
+  const schemas = api.components.schemas
+
+  it('defines a component schema for every named type', () => {
+    expect(api.openapi).toBe('3.1.0')
+    expect(api.info).toEqual({ title: 'Sanity Content API', version: '1.0.0' })
+    expect(Object.keys(schemas)).toEqual(['article', 'author', 'seo'])
+    expect(api.paths).toBeUndefined()
+  })
+
+  it('uses the JSON Schema mapping with component references', () => {
+    expect(schemas['article']).toMatchObject({ title: 'Article', type: 'object', required: ['_type', 'title'] })
+    expect(schemas['article']?.properties?.['title']).toEqual({ type: 'string', maxLength: 120 })
+    expect(schemas['article']?.properties?.['seo']).toEqual({ $ref: '#/components/schemas/seo' })
+    expect(schemas['seo']).toEqual({
+      type: 'object',
+      properties: { _type: { const: 'seo' }, description: { type: 'string' } },
+    })
+  })
+
+  it('adds CRUD paths for each document type', () => {
+    const withPaths = toOpenApi(types, { title: 'Content API', version: '2.0.0', paths: true, basePath: '/documents/' })
+    const ref = { $ref: '#/components/schemas/article' }
+
+    expect(withPaths.info).toEqual({ title: 'Content API', version: '2.0.0' })
+    expect(Object.keys(withPaths.paths ?? {})).toEqual([
+      '/documents/article',
+      '/documents/article/{id}',
+      '/documents/author',
+      '/documents/author/{id}',
+    ])
+
+    const collection = withPaths.paths?.['/documents/article']
+    expect(collection?.get?.operationId).toBe('listArticle')
+    expect(collection?.get?.responses['200']?.content?.['application/json']?.schema).toEqual({ type: 'array', items: ref })
+    expect(collection?.post).toMatchObject({
+      operationId: 'createArticle',
+      tags: ['article'],
+      requestBody: { required: true, content: { 'application/json': { schema: ref } } },
+    })
+
+    const item = withPaths.paths?.['/documents/article/{id}']
+    expect(item?.parameters).toEqual([{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }])
+    expect(item?.get?.operationId).toBe('getArticle')
+    expect(item?.put?.operationId).toBe('replaceArticle')
+    expect(Object.keys(item?.delete?.responses ?? {})).toEqual(['204', '404'])
+  })
+
+  it('marks operations on deprecated document types', () => {
+    const withPaths = toOpenApi(types, { paths: true })
+
+    expect(withPaths.paths?.['/author']?.get?.deprecated).toBe(true)
+    expect(withPaths.paths?.['/article']?.get).not.toHaveProperty('deprecated')
+  })
+})
@@ -0,0 +1,175 @@
+import type { ManifestSchemaType } from './types.js'
+import type { JsonSchema } from './jsonschema.js'
+import { toJsonSchemaDefinitions } from './jsonschema.js'
+import { pascalCase } from './typescript.js'
+
+/**
+ * Options for OpenAPI export.
+ */
+export interface OpenApiOptions {
+  /** API title in `info.title` (default: "Sanity Content API") */
+  title?: string
+  /** API version in `info.version` (default: "1.0.0") */
+  version?: string
+  /** Add create, read, replace and delete paths for each document type (default: false) */
+  paths?: boolean
+  /** Prefix for the paths, e.g. "/api/documents" (default: "") */
+  basePath?: string
+  /**
+   * Allow properties that are not fields in the schema (default: true).
+   * Properties starting with `_` are always allowed.
+   */
+  additionalProperties?: boolean
+}
+
+/**
+ * An OpenAPI 3.1 document, with the parts `toOpenApi` produces.
+ */
+export interface OpenApiDocument {
+  openapi: '3.1.0'
+  info: { title: string; version: string }
+  paths?: Record<string, OpenApiPathItem>
+  components: { schemas: Record<string, JsonSchema> }
+}
+
+/**
+ * The operations on one path.
+ */
+export interface OpenApiPathItem {
+  parameters?: OpenApiParameter[]
+  get?: OpenApiOperation
+  post?: OpenApiOperation
+  put?: OpenApiOperation
+  delete?: OpenApiOperation
+}
+
+/**
+ * A single operation on a path.
+ */
+export interface OpenApiOperation {
+  operationId: string
+  summary: string
+  tags: string[]
+  deprecated?: boolean
+  requestBody?: { required: boolean; content: OpenApiContent }
+  responses: Record<string, OpenApiResponse>
+}
+
+/**
+ * A path or query parameter.
+ */
+export interface OpenApiParameter {
+  name: string
+  in: 'path' | 'query'
+  required: boolean
+  schema: JsonSchema
+}
+
+/**
+ * A response, by status code in `OpenApiOperation.responses`.
+ */
+export interface OpenApiResponse {
+  description: string
+  content?: OpenApiContent
+}
+
+/** Schemas by media type */
+type OpenApiContent = Record<string, { schema: JsonSchema }>
+
+const componentsRef = '#/components/schemas/'
+
+/**
+ * Generate an OpenAPI 3.1 document with a component schema for every named
+ * type, for REST APIs that serve Sanity documents.
+ *
+ * Component schemas are the same as the `$defs` of `toJsonSchema` (OpenAPI
+ * 3.1 uses JSON Schema 2020-12), referenced as `#/components/schemas/<name>`.
+ * With `paths: true`, each document type also gets paths to list, create,
+ * get, replace and delete documents, to fill in for the actual API.
+ *
+ * Pass all types from `getTypes()`: with only `getDocumentTypes()`, fields
+ * of object types such as `seo` accept any value.
+ *
+ * @param types - Schema types, e.g. from `SchemaClient.getTypes()`
+ * @param options - API info, paths and strictness
+ * @returns An OpenAPI document, ready for `JSON.stringify`
+ *
+ * @example
+ * ```ts
+ * const types = await schemaClient.getTypes()
+ * const api = toOpenApi(types, { title: 'Content API', paths: true, basePath: '/documents' })
+ * await writeFile('openapi.json', JSON.stringify(api, null, 2))
+ * ```
+ */
+export function toOpenApi(types: ManifestSchemaType[], options: OpenApiOptions = {}): OpenApiDocument {
+  const {
+    title = 'Sanity Content API',
+    version = '1.0.0',
+    paths = false,
+    basePath = '',
+    additionalProperties = true,
+  } = options
+  const schemas = toJsonSchemaDefinitions(types, { draft: '2020-12', additionalProperties }, componentsRef)
+
+  const document: OpenApiDocument = {
+    openapi: '3.1.0',
+    info: { title, version },
+    components: { schemas },
+  }
+  if (paths) {
+    document.paths = {}
+    for (const type of types.filter((t) => t.type === 'document')) {
+      Object.assign(document.paths, documentPaths(type, basePath.replace(/\/+$/, '')))
+    }
+  }
+  return document
+}
+
+/**
+ * Path stubs for one document type: `/<type>` to list and create, and
+ * `/<type>/{id}` to get, replace and delete.
+ */
+function documentPaths(type: ManifestSchemaType, basePath: string): Record<string, OpenApiPathItem> {
+  const name = pascalCase(type.name)
+  const label = type.title ?? type.name
+  const schema: JsonSchema = { $ref: `${componentsRef}${type.name}` }
+  const json = (s: JsonSchema): OpenApiContent => ({ 'application/json': { schema: s } })
+  const operation = (
+    operationId: string,
+    summary: string,
+    rest: Pick<OpenApiOperation, 'requestBody' | 'responses'>
+  ): OpenApiOperation => ({
+    operationId,
+    summary,
+    tags: [type.name],
+    ...(type.deprecated && { deprecated: true }),
+    ...rest,
+  })
+  const notFound: OpenApiResponse = { description: 'Document not found' }
+  const invalid: OpenApiResponse = { description: 'Invalid document' }
+
+  return {
+    [`${basePath}/${type.name}`]: {
+      get: operation(`list${name}`, `List ${label} documents`, {
+        responses: { '200': { description: `${label} documents`, content: json({ type: 'array', items: schema }) } },
+      }),
+      post: operation(`create${name}`, `Create a ${label} document`, {
+        requestBody: { required: true, content: json(schema) },
+        responses: { '201': { description: 'Created document', content: json(schema) }, '400': invalid },
+      }),
+    },
+    [`${basePath}/${type.name}/{id}`]: {
+      parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+      get: operation(`get${name}`, `Get a ${label} document`, {
+        responses: { '200': { description: `The ${label} document`, content: json(schema) }, '404': notFound },
+      }),
+      put: operation(`replace${name}`, `Replace a ${label} document`, {
+        requestBody: { required: true, content: json(schema) },
+        responses: { '200': { description: 'Replaced document', content: json(schema) }, '400': invalid, '404': notFound },
+      }),
+      delete: operation(`delete${name}`, `Delete a ${label} document`, {
+        responses: { '204': { description: 'Deleted' }, '404': notFound },
+      }),
+    },
+  }
+}
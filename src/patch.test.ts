@@ -0,0 +1,271 @@
+import { describe, it, expect } from 'vitest'
+import type { ManifestSchemaType } from './types.js'
+import { validatePatch } from './patch.js'
+import { createConditionEvaluator } from './conditions.js'
+
+const articleType: ManifestSchemaType = {
+  type: 'document',
+  name: 'article',
+  fields: [
+    {
+      type: 'string',
+      name: 'title',
+      validation: [{ rules: [{ flag: 'presence', constraint: 'required' }] }],
+    },
+    {
+      type: 'string',
+      name: 'subtitle',
+      validation: [{ rules: [{ flag: 'presence', constraint: 'required' }] }],
+    },
+    { type: 'number', name: 'views' },
+    {
+      type: 'array',
+      name: 'tags',
+      of: [{ type: 'string' }],
+      validation: [{ rules: [{ flag: 'max', constraint: 3 }] }],
+    },
+    {
+      type: 'array',
+      name: 'sections',
+      of: [{ type: 'section' }],
+    },
+    {
+      type: 'object',
+      name: 'seo',
+      fields: [{ type: 'string', name: 'description' }],
+    },
+  ],
+}
+
+const sectionType: ManifestSchemaType = {
+  type: 'object',
+  name: 'section',
+  fields: [{ type: 'string', name: 'heading' }],
+}
+
+const allTypes: ManifestSchemaType[] = [articleType, sectionType]
+
+const baseDocument = {
+  _type: 'article',
+  _id: 'a',
+  title: 'Hello',
+  // subtitle is missing - a pre-existing problem
+  views: 1,
+  tags: ['one'],
+  sections: [
+    { _type: 'section', _key: 's1', heading: 'First' },
+    { _type: 'section', _key: 's2', heading: 42 },
+  ],
+}
+
+describe('validatePatch', () => {
+  it('applies the patch without modifying the base document', () => {
+    const result = validatePatch(baseDocument, { set: { title: 'New' }, inc: { views: 2 } }, allTypes)
+
+    expect(result.document['title']).toBe('New')
+    expect(result.document['views']).toBe(3)
+    expect(baseDocument.title).toBe('Hello')
+    expect(result.valid).toBe(true)
+  })
+
+  it('ignores issues outside the touched paths', () => {
+    const result = validatePatch(baseDocument, { set: { title: 'New' } }, allTypes)
+
+    expect(result.issues).toEqual([])
+    expect(result.touchedPaths).toEqual(['title'])
+  })
+
+  it('reports issues on touched paths', () => {
+    const result = validatePatch(baseDocument, { set: { views: 'many' } }, allTypes)
+
+    expect(result.valid).toBe(false)
+    expect(result.errors.map(e => e.path)).toEqual(['views'])
+  })
+
+  it('reports required fields removed by the patch', () => {
+    const result = validatePatch(baseDocument, { unset: ['title'] }, allTypes)
+
+    expect(result.errors.map(e => e.path)).toEqual(['title'])
+    expect(result.errors[0]?.rule?.flag).toBe('presence')
+  })
+
+  it('does not report existing required issues on items moved by the patch', () => {
+    const listType: ManifestSchemaType = {
+      type: 'document',
+      name: 'list',
+      fields: [{
+        type: 'array',
+        name: 'items',
+        of: [{
+          type: 'object',
+          name: 'item',
+          fields: [{ type: 'string', name: 'name', validation: [{ rules: [{ flag: 'presence', constraint: 'required' }] }] }],
+        }],
+      }],
+    }
+    const base = { _type: 'list', items: [{ _type: 'item', _key: 'a' }] }
+
+    const inserted = validatePatch(
+      base,
+      { insert: { before: 'items[0]', items: [{ _type: 'item', _key: 'b', name: 'New' }] } },
+      [listType]
+    )
+    expect(inserted.issues).toEqual([])
+
+    const removed = validatePatch(
+      { _type: 'list', items: [{ _type: 'item', _key: 'b', name: 'Old' }, { _type: 'item', _key: 'a' }] },
+      { unset: ['items[0]'] },
+      [listType]
+    )
+    expect(removed.issues).toEqual([])
+  })
+
+  it('creates missing objects for nested set paths', () => {
+    const result = validatePatch(baseDocument, { set: { 'seo.description': 42 } }, allTypes)
+
+    expect(result.document['seo']).toEqual({ description: 42 })
+    expect(result.errors.map(e => e.path)).toEqual(['seo.description'])
+  })
+
+  it('only sets missing values with setIfMissing', () => {
+    const result = validatePatch(
+      baseDocument,
+      { setIfMissing: { title: 'Ignored', subtitle: 'Added' } },
+      allTypes
+    )
+
+    expect(result.document['title']).toBe('Hello')
+    expect(result.document['subtitle']).toBe('Added')
+    expect(result.touchedPaths).toEqual(['subtitle'])
+  })
+
+  it('resolves _key selectors to indices', () => {
+    const result = validatePatch(
+      baseDocument,
+      { set: { 'sections[_key=="s2"].heading': 'Second' } },
+      allTypes
+    )
+
+    expect(result.touchedPaths).toEqual(['sections[1].heading'])
+    expect(result.valid).toBe(true)
+  })
+
+  it('checks array rules after inserting items', () => {
+    const result = validatePatch(
+      baseDocument,
+      { insert: { after: 'tags[-1]', items: ['two', 'three', 'four'] } },
+      allTypes
+    )
+
+    expect(result.document['tags']).toEqual(['one', 'two', 'three', 'four'])
+    expect(result.touchedPaths).toEqual(['tags', 'tags[1]', 'tags[2]', 'tags[3]'])
+    expect(result.errors.map(e => e.path)).toEqual(['tags'])
+  })
+
+  it('inserts before and replaces items', () => {
+    const before = validatePatch(baseDocument, { insert: { before: 'tags[0]', items: ['zero'] } }, allTypes)
+    expect(before.document['tags']).toEqual(['zero', 'one'])
+
+    const replace = validatePatch(
+      baseDocument,
+      { insert: { replace: 'sections[_key=="s2"]', items: [{ _type: 'section', _key: 's3', heading: 3 }] } },
+      allTypes
+    )
+    expect((replace.document['sections'] as unknown[]).length).toBe(2)
+    expect(replace.errors.map(e => e.path)).toEqual(['sections[1].heading'])
+  })
+
+  it('does not report existing issues in other array items', () => {
+    const result = validatePatch(baseDocument, { unset: ['sections[0]'] }, allTypes)
+
+    expect(result.document['sections']).toEqual([baseDocument.sections[1]])
+    expect(result.issues).toEqual([])
+  })
+
+  it('keeps touched paths on the same items when indices shift', () => {
+    const result = validatePatch(
+      baseDocument,
+      { set: { 'sections[1].heading': 'Second' }, unset: ['sections[0]'] },
+      allTypes
+    )
+
+    expect(result.touchedPaths).toEqual(['sections[0].heading', 'sections'])
+  })
+
+  it('applies diff-match-patch to strings', () => {
+    const result = validatePatch(
+      baseDocument,
+      { diffMatchPatch: { title: '@@ -1,5 +1,11 @@\n Hello\n+ world\n' } },
+      allTypes
+    )
+
+    expect(result.document['title']).toBe('Hello world')
+    expect(result.valid).toBe(true)
+  })
+
+  it('reports operations that cannot be applied', () => {
+    const result = validatePatch(
+      baseDocument,
+      {
+        insert: { after: 'missing[-1]', items: ['x'] },
+        diffMatchPatch: { title: '@@ -1,3 +1,3 @@\n-Bye\n+Hey\n' },
+        dec: { title: 1 },
+      },
+      allTypes
+    )
+
+    expect(result.errors.map(e => e.message)).toEqual([
+      'Cannot apply dec: value at "title" is not a number',
+      'Cannot apply insert: "missing" is not an array',
+      'Cannot apply diffMatchPatch: patch does not match the current text',
+    ])
+  })
+
+  it('warns about writes to read-only fields', () => {
+    const lockedType: ManifestSchemaType = {
+      type: 'document',
+      name: 'locked',
+      fields: [
+        { type: 'string', name: 'status' },
+        { type: 'string', name: 'code', readOnly: true },
+        { type: 'object', name: 'meta', readOnly: 'conditional', fields: [{ type: 'string', name: 'note' }] },
+      ],
+    }
+    const base = { _type: 'locked', status: 'published', code: 'a' }
+    const evaluateCondition = createConditionEvaluator({
+      'locked.meta': { readOnly: { path: 'status', equals: 'published' } },
+    })
+
+    const result = validatePatch(
+      base,
+      { set: { code: 'b', 'meta.note': 'x', status: 'draft' } },
+      [lockedType],
+      { evaluateCondition }
+    )
+
+    expect(result.valid).toBe(true)
+    expect(result.warnings.map(w => w.message)).toEqual([
+      'Field "code" is read-only',
+      'Field "meta" is read-only',
+    ])
+    expect(result.warnings[1]?.path).toBe('meta.note')
+  })
+
+  it('reports key-based paths with keyedPaths', () => {
+    const result = validatePatch(
+      baseDocument,
+      { set: { 'sections[_key=="s2"].heading': 2, 'tags[*]': 'x' } },
+      allTypes,
+      { keyedPaths: true }
+    )
+
+    expect(result.touchedPaths).toEqual(['sections[1].heading'])
+    expect(result.errors.map(e => e.path)).toEqual(['tags[*]', 'sections[_key=="s2"].heading'])
+  })
+
+  it('reports unsupported paths', () => {
+    const result = validatePatch(baseDocument, { set: { 'tags[*]': 'x' } }, allTypes)
+
+    expect(result.errors[0]?.message).toBe('Cannot apply set: unsupported path "tags[*]"')
+  })
+})
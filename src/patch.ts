@@ -0,0 +1,565 @@
+import type { PatchOperations } from '@sanity/client'
+import type { ManifestSchemaType, ManifestArrayMember } from './types.js'
+import type { ValidateOptions, ValidationIssue, ValidationResult } from './validation.js'
+import { buildResult, createTypeMap, validateWithTypeMap, withKeyedPaths } from './validation.js'
+import { evaluateFieldCondition } from './conditions.js'
+import type { PathSegment } from './paths.js'
+import { getParentPath, getValueAtPath, parsePath as parseSegments, toKeyedPath } from './paths.js'
+import { formatMessage } from './messages.js'
+
+/**
+ * Result of validating a patch.
+ */
+export interface PatchValidationResult extends ValidationResult {
+  /** The document with the patch applied (the base document is not modified) */
+  document: Record<string, unknown>
+  /** Paths the patch touched, with `_key` selectors resolved to array indices */
+  touchedPaths: string[]
+}
+
+/**
+ * A path the patch touched. Issues below a subtree path are reported; for
+ * other paths (e.g., an array that had items inserted) only issues on the
+ * path itself are.
+ */
+interface TouchedPath {
+  path: string
+  subtree: boolean
+}
+
+/**
+ * Where a path points in the document: the container holding the value and
+ * the field name or index of the value within it.
+ */
+interface Location {
+  parent: Record<string, unknown> | unknown[]
+  segment: string | number
+  path: string
+}
+
+class PatchError extends Error {}
+
+/**
+ * Validates a patch against a document without writing it.
+ *
+ * The patch is applied to a copy of `baseDocument` in memory, in this order:
+ * `setIfMissing`, `set`, `unset`, `inc`, `dec`, `insert`, `diffMatchPatch`.
+ * The patched document is then validated, and only issues on paths the patch
+ * touched are reported, along with any required field that was valid before
+ * the patch and is missing after it. Pre-existing problems elsewhere in the
+ * document do not block the write. Writes to read-only fields are reported
+ * as warnings, with conditional `readOnly` evaluated by `options.evaluateCondition`
+ * against the document as it was before the patch.
+ *
+ * Paths use the same syntax as Sanity patches: `title`, `body[0].children[2]`,
+ * `tags[-1]` and `items[_key=="abc"]`. Operations that cannot be applied
+ * (e.g., inserting into a missing array, or a diff-match-patch that does not
+ * match the current text) are reported as errors.
+ *
+ * @param baseDocument - The current document (must have `_type` field)
+ * @param patch - The patch operations to apply
+ * @param schemaTypes - All schema types from the schema
+ * @param options - Validation options
+ * @returns Validation result for the patched document, limited to touched paths
+ *
+ * @example
+ * ```ts
+ * const current = await sanityClient.getDocument(id)
+ * const patch = { set: { title: '' }, insert: { after: 'tags[-1]', items: ['news'] } }
+ *
+ * const result = validatePatch(current, patch, allTypes)
+ * if (result.valid) {
+ *   await sanityClient.patch(id, patch).commit()
+ * }
+ * ```
+ */
+export function validatePatch(
+  baseDocument: Record<string, unknown>,
+  patch: PatchOperations,
+  schemaTypes: ManifestSchemaType[],
+  options: ValidateOptions = {}
+): PatchValidationResult {
+  const typeMap = createTypeMap(schemaTypes)
+  const document = structuredClone(baseDocument)
+  const { touched, issues: patchIssues } = applyPatch(document, patch, options)
+  const touchedPaths = Array.from(new Set(touched.map((t) => t.path)))
+
+  const docType = document['_type']
+  if (typeof docType !== 'string' || !typeMap.has(docType)) {
+    // Missing or unknown _type - the whole document is invalid
+    const result = validateWithTypeMap(document, typeMap, options)
+    return { ...result, document, touchedPaths }
+  }
+
+  const allSeverities = { ...options, includeWarnings: true, includeInfo: true, keyedPaths: false }
+  // Compared by keyed paths, so items moved by an insert or unset still match
+  const baseRequired = new Set(
+    validateWithTypeMap(baseDocument, typeMap, allSeverities)
+      .issues.filter(isRequiredIssue)
+      .map((issue) => toKeyedPath(issue.path, baseDocument))
+  )
+
+  const issues = validateWithTypeMap(document, typeMap, allSeverities).issues.filter(
+    (issue) =>
+      touched.some((t) => isWithin(issue.path, t)) ||
+      (isRequiredIssue(issue) && !baseRequired.has(toKeyedPath(issue.path, document)))
+  )
+
+  const readOnlyIssues = checkReadOnlyWrites(
+    touchedPaths,
+    baseDocument,
+    document,
+    typeMap.get(docType) as ManifestSchemaType,
+    typeMap,
+    options
+  )
+
+  const allIssues = [...patchIssues, ...readOnlyIssues, ...issues]
+  const result = buildResult(options.keyedPaths ? withKeyedPaths(allIssues, document) : allIssues, docType, options)
+  return { ...result, document, touchedPaths }
+}
+
+/**
+ * Report touched paths that are, or are inside, read-only fields.
+ *
+ * The patched document is used to find the schema type of array items (which
+ * may have been inserted by the patch), while conditions are evaluated against
+ * the values in the base document.
+ */
+function checkReadOnlyWrites(
+  touchedPaths: string[],
+  baseDocument: Record<string, unknown>,
+  document: Record<string, unknown>,
+  schemaType: ManifestSchemaType,
+  typeMap: Map<string, ManifestSchemaType>,
+  options: ValidateOptions
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  const reported = new Set<string>()
+
+  for (const touchedPath of touchedPaths) {
+    let fields = schemaType.fields
+    let members: ManifestArrayMember[] | undefined
+    let value: unknown = document
+    let path = ''
+
+    for (const segment of touchedPath.match(/[^.[\]]+/g) ?? []) {
+      if (/^\d+$/.test(segment)) {
+        if (!Array.isArray(value) || !members) break
+        value = value[Number(segment)]
+        path = `${path}[${segment}]`
+
+        const member = findMember(members, value)
+        const definition = member && (typeMap.get(member['type'] as string) ?? (member as ManifestSchemaType))
+        fields = definition?.fields
+        members = definition?.of
+        continue
+      }
+
+      const field = fields?.find((f) => f.name === segment)
+      if (!field) break
+
+      const parent = value
+      value = isPlainObject(parent) ? parent[segment] : undefined
+      path = path ? `${path}.${segment}` : segment
+
+      const context = {
+        path,
+        document: baseDocument,
+        parent: getValueAtPath(baseDocument, getParentPath(path)),
+        value: getValueAtPath(baseDocument, path),
+      }
+      if (evaluateFieldCondition('readOnly', field, context, options.evaluateCondition)) {
+        if (!reported.has(path)) {
+          reported.add(path)
+          issues.push({
+            path: touchedPath,
+            message: formatMessage('READ_ONLY', { field: field.title || field.name }, options.locale),
+            code: 'READ_ONLY',
+            severity: 'warning',
+            value,
+            field: { name: field.name, type: field.type, title: field.title },
+            suggestions: [`Remove "${touchedPath}" from the patch`],
+          })
+        }
+        break
+      }
+
+      const definition = typeMap.get(field.type)
+      fields = field.fields ?? definition?.fields
+      members = field.of ?? definition?.of
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Find the array member definition matching an item's `_type`.
+ */
+function findMember(members: ManifestArrayMember[], item: unknown): ManifestArrayMember | undefined {
+  const itemType = isPlainObject(item) ? item['_type'] : undefined
+  if (itemType === undefined) {
+    return members.length === 1 ? members[0] : undefined
+  }
+  return members.find((m) => m['type'] === itemType || m.name === itemType)
+}
+
+function isRequiredIssue(issue: ValidationIssue): boolean {
+  return issue.rule?.flag === 'presence'
+}
+
+function isWithin(issuePath: string, touched: TouchedPath): boolean {
+  if (issuePath === touched.path) return true
+  return touched.subtree && (
+    issuePath.startsWith(`${touched.path}.`) || issuePath.startsWith(`${touched.path}[`)
+  )
+}
+
+/**
+ * Apply patch operations to a document in place, recording the touched paths.
+ * Operations that cannot be applied are reported as issues and skipped.
+ */
+function applyPatch(
+  document: Record<string, unknown>,
+  patch: PatchOperations,
+  options: ValidateOptions
+): { touched: TouchedPath[]; issues: ValidationIssue[] } {
+  const touched: TouchedPath[] = []
+  const issues: ValidationIssue[] = []
+
+  function attempt(operation: string, path: string, apply: () => void): void {
+    try {
+      apply()
+    } catch (error) {
+      if (!(error instanceof PatchError)) throw error
+      issues.push({
+        path,
+        message: formatMessage('PATCH_NOT_APPLICABLE', { operation, reason: error.message }, options.locale),
+        code: 'PATCH_NOT_APPLICABLE',
+        severity: 'error',
+      })
+    }
+  }
+
+  /**
+   * Keep touched paths pointing at the same items after items are inserted
+   * into or removed from an array. Paths to removed items are dropped.
+   */
+  function shiftIndices(arrayPath: string, from: number, by: number): void {
+    const prefix = `${arrayPath}[`
+    for (let i = touched.length - 1; i >= 0; i--) {
+      const entry = touched[i] as TouchedPath
+      if (!entry.path.startsWith(prefix)) continue
+
+      const match = /^(\d+)\]/.exec(entry.path.slice(prefix.length))
+      const index = Number(match?.[1])
+      if (!match || index < from) continue
+
+      if (by < 0 && index < from - by) {
+        touched.splice(i, 1)
+      } else {
+        entry.path = `${prefix}${index + by}${entry.path.slice(prefix.length + match[0].length - 1)}`
+      }
+    }
+  }
+
+  for (const [path, value] of Object.entries(patch.setIfMissing ?? {})) {
+    attempt('setIfMissing', path, () => {
+      const location = locate(document, path, true)
+      if (read(location) !== undefined) return
+      write(location, structuredClone(value))
+      touched.push({ path: location.path, subtree: true })
+    })
+  }
+
+  for (const [path, value] of Object.entries(patch.set ?? {})) {
+    attempt('set', path, () => {
+      const location = locate(document, path, true)
+      write(location, structuredClone(value))
+      touched.push({ path: location.path, subtree: true })
+    })
+  }
+
+  for (const path of patch.unset ?? []) {
+    attempt('unset', path, () => {
+      const location = tryLocate(document, path)
+      if (!location || read(location) === undefined) return
+      if (Array.isArray(location.parent)) {
+        const arrayPath = getParentPath(location.path)
+        location.parent.splice(location.segment as number, 1)
+        shiftIndices(arrayPath, location.segment as number, -1)
+        touched.push({ path: arrayPath, subtree: false })
+      } else {
+        delete location.parent[location.segment as string]
+        touched.push({ path: location.path, subtree: true })
+      }
+    })
+  }
+
+  for (const [operation, sign] of [['inc', 1], ['dec', -1]] as const) {
+    for (const [path, amount] of Object.entries(patch[operation] ?? {})) {
+      attempt(operation, path, () => {
+        const location = tryLocate(document, path)
+        const current = location ? read(location) : undefined
+        if (!location || current === undefined) return
+        if (typeof current !== 'number') {
+          throw new PatchError(`value at "${location.path}" is not a number`)
+        }
+        write(location, current + sign * amount)
+        touched.push({ path: location.path, subtree: true })
+      })
+    }
+  }
+
+  if (patch.insert) {
+    const insert = patch.insert
+    const [position, path] = 'before' in insert
+      ? ['before', insert.before] as const
+      : 'after' in insert
+        ? ['after', insert.after] as const
+        : ['replace', insert.replace] as const
+
+    attempt('insert', path, () => {
+      const segments = parsePath(path)
+      const last = segments.pop()
+      if (last === undefined || typeof last === 'string') {
+        throw new PatchError(`"${path}" does not point to an array item`)
+      }
+
+      const array = resolve(document, segments)
+      if (!Array.isArray(array.value)) {
+        throw new PatchError(`"${array.path || path}" is not an array`)
+      }
+
+      let index = findIndex(array.value, last)
+      if (index === -1 && !(array.value.length === 0 && typeof last === 'number')) {
+        throw new PatchError(`"${path}" does not exist`)
+      }
+      if (position === 'after') index++
+      index = Math.max(index, 0)
+
+      const items = structuredClone(insert.items)
+      const removed = position === 'replace' ? 1 : 0
+      array.value.splice(index, removed, ...items)
+      shiftIndices(array.path, index, items.length - removed)
+
+      touched.push({ path: array.path, subtree: false })
+      items.forEach((_, i) => touched.push({ path: `${array.path}[${index + i}]`, subtree: true }))
+    })
+  }
+
+  for (const [path, patchText] of Object.entries(patch.diffMatchPatch ?? {})) {
+    attempt('diffMatchPatch', path, () => {
+      const location = tryLocate(document, path)
+      const current = location ? read(location) : undefined
+      if (!location || typeof current !== 'string') {
+        throw new PatchError(`value at "${path}" is not a string`)
+      }
+      write(location, applyDiffMatchPatch(current, String(patchText)))
+      touched.push({ path: location.path, subtree: true })
+    })
+  }
+
+  return { touched, issues }
+}
+
+/**
+ * Parse a patch path such as `body[0].children[_key=="abc"].text`.
+ */
+function parsePath(path: string): PathSegment[] {
+  let segments: PathSegment[] = []
+  try {
+    segments = parseSegments(path)
+  } catch {
+    // Reported below
+  }
+  if (segments.length === 0) {
+    throw new PatchError(`unsupported path "${path}"`)
+  }
+  return segments
+}
+
+/**
+ * Walk the given segments from the document root.
+ */
+function resolve(
+  document: Record<string, unknown>,
+  segments: PathSegment[],
+  create = false
+): { value: unknown; path: string } {
+  let value: unknown = document
+  let path = ''
+
+  for (const segment of segments) {
+    const parent = value
+    if (typeof segment === 'string') {
+      if (!isPlainObject(parent)) {
+        throw new PatchError(`"${path}" is not an object`)
+      }
+      if (create && (parent[segment] === undefined || parent[segment] === null)) {
+        parent[segment] = {}
+      }
+      value = parent[segment]
+      path = path ? `${path}.${segment}` : segment
+    } else {
+      if (!Array.isArray(parent)) {
+        throw new PatchError(`"${path}" is not an array`)
+      }
+      const index = findIndex(parent, segment)
+      if (index === -1) {
+        throw new PatchError(`"${formatSegment(path, segment)}" does not exist`)
+      }
+      value = parent[index]
+      path = `${path}[${index}]`
+    }
+  }
+
+  return { value, path }
+}
+
+/**
+ * Locate the value a path points to. With `create`, missing objects along the
+ * way are created, as Sanity does for `set`.
+ */
+function locate(document: Record<string, unknown>, path: string, create = false): Location {
+  const segments = parsePath(path)
+  const last = segments.pop() as PathSegment
+  const { value: parent, path: parentPath } = resolve(document, segments, create)
+
+  if (typeof last === 'string') {
+    if (!isPlainObject(parent)) {
+      throw new PatchError(`"${parentPath}" is not an object`)
+    }
+    return { parent, segment: last, path: parentPath ? `${parentPath}.${last}` : last }
+  }
+
+  if (!Array.isArray(parent)) {
+    throw new PatchError(`"${parentPath}" is not an array`)
+  }
+  const index = findIndex(parent, last)
+  if (index === -1) {
+    throw new PatchError(`"${formatSegment(parentPath, last)}" does not exist`)
+  }
+  return { parent, segment: index, path: `${parentPath}[${index}]` }
+}
+
+/**
+ * Like `locate`, but returns undefined for paths that do not exist.
+ */
+function tryLocate(document: Record<string, unknown>, path: string): Location | undefined {
+  // Invalid path syntax is still reported
+  parsePath(path)
+  try {
+    return locate(document, path)
+  } catch (error) {
+    if (error instanceof PatchError) return undefined
+    throw error
+  }
+}
+
+function read({ parent, segment }: Location): unknown {
+  return Array.isArray(parent) ? parent[segment as number] : parent[segment as string]
+}
+
+function write({ parent, segment }: Location, value: unknown): void {
+  if (Array.isArray(parent)) {
+    parent[segment as number] = value
+  } else {
+    parent[segment as string] = value
+  }
+}
+
+function findIndex(array: unknown[], segment: number | { _key: string }): number {
+  if (typeof segment === 'number') {
+    const index = segment < 0 ? array.length + segment : segment
+    return index >= 0 && index < array.length ? index : -1
+  }
+  return array.findIndex((item) => isPlainObject(item) && item['_key'] === segment._key)
+}
+
+function formatSegment(path: string, segment: number | { _key: string }): string {
+  return typeof segment === 'number' ? `${path}[${segment}]` : `${path}[_key=="${segment._key}"]`
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Apply a diff-match-patch patch (as produced by `patch_toText`) to a string.
+ *
+ * Each hunk must match the text exactly; it is looked for at its expected
+ * position first, then at the closest occurrence elsewhere in the text.
+ */
+function applyDiffMatchPatch(text: string, patchText: string): string {
+  const lines = patchText.split('\n')
+  let result = text
+  let delta = 0
+  let i = 0
+
+  while (i < lines.length) {
+    const header = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@$/.exec(lines[i] ?? '')
+    if (!header) {
+      if (lines[i] === '') {
+        i++
+        continue
+      }
+      throw new PatchError(`invalid diff-match-patch header "${lines[i]}"`)
+    }
+    i++
+
+    const start2 = Number(header[3])
+    const expected = (header[4] === '0' ? start2 : start2 - 1) + delta
+
+    let before = ''
+    let after = ''
+    while (i < lines.length && !(lines[i] ?? '').startsWith('@@')) {
+      const line = lines[i] ?? ''
+      i++
+      if (line === '') continue
+
+      let content: string
+      try {
+        content = decodeURI(line.slice(1))
+      } catch {
+        throw new PatchError(`invalid diff-match-patch line "${line}"`)
+      }
+
+      if (line[0] === ' ') {
+        before += content
+        after += content
+      } else if (line[0] === '-') {
+        before += content
+      } else if (line[0] === '+') {
+        after += content
+      } else {
+        throw new PatchError(`invalid diff-match-patch line "${line}"`)
+      }
+    }
+
+    const location = findClosest(result, before, expected)
+    if (location === -1) {
+      throw new PatchError('patch does not match the current text')
+    }
+    result = result.slice(0, location) + after + result.slice(location + before.length)
+    delta += location - expected
+  }
+
+  return result
+}
+
+/**
+ * Find the occurrence of `search` in `text` closest to `expected`.
+ */
+function findClosest(text: string, search: string, expected: number): number {
+  if (text.startsWith(search, Math.max(expected, 0))) return Math.max(expected, 0)
+
+  let closest = -1
+  for (let at = text.indexOf(search); at !== -1; at = text.indexOf(search, at + 1)) {
+    if (closest === -1 || Math.abs(at - expected) < Math.abs(closest - expected)) {
+      closest = at
+    }
+  }
+  return closest
+}
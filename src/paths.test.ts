@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parsePath,
+  formatPath,
+  getValueAtPath,
+  getParentPath,
+  toKeyedPath,
+  toIndexPath,
+  toJsonPointer,
+  fromJsonPointer,
+  toJsonPath,
+  fromJsonPath,
+} from './paths.js'
+
+const document = {
+  _type: 'article',
+  title: 'Hello',
+  body: [
+    {
+      _type: 'block',
+      _key: 'b1',
+      children: [
+        { _type: 'span', _key: 's1', text: 'First' },
+        { _type: 'span', _key: 's2', text: 'Second' },
+      ],
+    },
+  ],
+  tags: ['news', 'sports'],
+  'a/b~c': 1,
+}
+
+describe('parsePath', () => {
+  it('parses field names, indices and key selectors', () => {
+    expect(parsePath('body[0].children[_key=="s2"].text')).toEqual(['body', 0, 'children', { _key: 's2' }, 'text'])
+    expect(parsePath("tags[-1]")).toEqual(['tags', -1])
+    expect(parsePath("body[ _key == 'b1' ]")).toEqual(['body', { _key: 'b1' }])
+    expect(parsePath('[0]')).toEqual([0])
+    expect(parsePath('')).toEqual([])
+  })
+
+  it('rejects invalid paths', () => {
+    expect(() => parsePath('.title')).toThrow('Invalid path ".title"')
+    expect(() => parsePath('title..text')).toThrow()
+    expect(() => parsePath('tags[*]')).toThrow()
+    expect(() => parsePath('tags[0')).toThrow()
+  })
+
+  it('round-trips with formatPath', () => {
+    const path = 'body[_key=="b1"].children[1].text'
+    expect(formatPath(parsePath(path))).toBe(path)
+  })
+})
+
+describe('getValueAtPath', () => {
+  it('resolves indices, negative indices and keys', () => {
+    expect(getValueAtPath(document, 'body[0].children[1].text')).toBe('Second')
+    expect(getValueAtPath(document, 'body[_key=="b1"].children[-1].text')).toBe('Second')
+    expect(getValueAtPath(document, ['tags', 0])).toBe('news')
+    expect(getValueAtPath(document, '')).toBe(document)
+  })
+
+  it('returns undefined for missing values', () => {
+    expect(getValueAtPath(document, 'body[_key=="nope"].children')).toBeUndefined()
+    expect(getValueAtPath(document, 'title.text')).toBeUndefined()
+    expect(getValueAtPath(document, 'tags[5]')).toBeUndefined()
+  })
+})
+
+describe('getParentPath', () => {
+  it('removes the last segment', () => {
+    expect(getParentPath('sections[0].heading')).toBe('sections[0]')
+    expect(getParentPath('sections[0]')).toBe('sections')
+    expect(getParentPath('body[_key=="b1"].children')).toBe('body[_key=="b1"]')
+    expect(getParentPath('title')).toBe('')
+  })
+})
+
+describe('toKeyedPath and toIndexPath', () => {
+  it('converts between index and key paths', () => {
+    expect(toKeyedPath('body[0].children[1].text', document)).toBe('body[_key=="b1"].children[_key=="s2"].text')
+    expect(toIndexPath('body[_key=="b1"].children[_key=="s2"].text', document)).toBe('body[0].children[1].text')
+    expect(toIndexPath('tags[-1]', document)).toBe('tags[1]')
+  })
+
+  it('keeps indices for items without a key, and paths that do not exist', () => {
+    expect(toKeyedPath('tags[1]', document)).toBe('tags[1]')
+    expect(toKeyedPath('body[3].children[0]', document)).toBe('body[3].children[0]')
+  })
+
+  it('throws for keys that do not match an item', () => {
+    expect(() => toIndexPath('body[_key=="nope"].children', document)).toThrow(
+      '"body[_key=="nope"]" does not match an array item'
+    )
+  })
+})
+
+describe('JSON Pointer', () => {
+  it('converts paths to JSON Pointers', () => {
+    expect(toJsonPointer('body[0].children[1].text')).toBe('/body/0/children/1/text')
+    expect(toJsonPointer('body[_key=="b1"].children[-1]', document)).toBe('/body/0/children/1')
+    expect(toJsonPointer(['a/b~c'])).toBe('/a~1b~0c')
+    expect(toJsonPointer('')).toBe('')
+  })
+
+  it('needs a document to resolve keys', () => {
+    expect(() => toJsonPointer('body[_key=="b1"]')).toThrow('A document is needed')
+  })
+
+  it('converts JSON Pointers to paths', () => {
+    expect(fromJsonPointer('/body/0/children/1/text')).toBe('body[0].children[1].text')
+    expect(fromJsonPointer('/a~1b~0c')).toBe('a/b~c')
+    expect(fromJsonPointer('')).toBe('')
+    expect(() => fromJsonPointer('body/0')).toThrow('Invalid JSON Pointer "body/0"')
+  })
+})
+
+describe('JSONPath', () => {
+  it('converts paths to JSONPaths', () => {
+    expect(toJsonPath('content[0].children[2].text')).toBe('$.content[0].children[2].text')
+    expect(toJsonPath('body[_key=="b1"].children[-1]')).toBe("$.body[?(@._key=='b1')].children[-1]")
+    expect(toJsonPath(['my-field', { _key: "it's" }])).toBe("$['my-field'][?(@._key=='it\\'s')]")
+    expect(toJsonPath('')).toBe('$')
+  })
+
+  it('converts JSONPaths to paths', () => {
+    expect(fromJsonPath('$.content[0].children[2].text')).toBe('content[0].children[2].text')
+    expect(fromJsonPath('$["content"][0][\'children\'][-1]')).toBe('content[0].children[-1]')
+    expect(fromJsonPath('$.body[?(@._key=="b1")]')).toBe('body[_key=="b1"]')
+    expect(fromJsonPath("$.body[?@._key == 'b1'].text")).toBe('body[_key=="b1"].text')
+    expect(fromJsonPath('$')).toBe('')
+  })
+
+  it('round-trips with toJsonPath', () => {
+    for (const path of ['title', 'body[_key=="b1"].children[0].text', 'tags[-1]']) {
+      expect(fromJsonPath(toJsonPath(path))).toBe(path)
+    }
+  })
+
+  it('rejects JSONPaths that do not address a single value', () => {
+    expect(() => fromJsonPath('content[0]')).toThrow('Invalid JSONPath "content[0]"')
+    expect(() => fromJsonPath('$..text')).toThrow('Unsupported JSONPath "$..text"')
+    expect(() => fromJsonPath('$.tags[*]')).toThrow('Unsupported JSONPath')
+    expect(() => fromJsonPath('$.tags[0:2]')).toThrow('Unsupported JSONPath')
+    expect(() => fromJsonPath('$.body[?(@.style=="h1")]')).toThrow('Unsupported JSONPath')
+  })
+})
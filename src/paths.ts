@@ -0,0 +1,352 @@
+/**
+ * A path segment: a field name, an array index, or a `_key` selector.
+ */
+export type PathSegment = string | number | { _key: string }
+
+const segmentPattern = /^(?:\.([^.[\]]+)|\[\s*(-?\d+)\s*\]|\[\s*_key\s*==\s*(?:"([^"]*)"|'([^']*)')\s*\])/
+
+const quoted = `(?:'((?:[^'\\\\]|\\\\.)*)'|"((?:[^"\\\\]|\\\\.)*)")`
+const jsonPathSegmentPattern = new RegExp(
+  `^(?:\\.([A-Za-z_][\\w-]*)|\\[\\s*(-?\\d+)\\s*\\]|\\[\\s*${quoted}\\s*\\]` +
+    `|\\[\\s*\\?\\(?\\s*@\\._key\\s*==\\s*${quoted}\\s*\\)?\\s*\\])`
+)
+
+/**
+ * Parse a path such as `body[0].children[_key=="abc"].text` into segments.
+ *
+ * Accepts the paths used in validation issues and Sanity patches: field
+ * names, array indices (negative indices count from the end) and `_key`
+ * selectors. The empty path is the document itself.
+ *
+ * @param path - The path to parse
+ * @returns The path's segments
+ * @throws If the path has invalid syntax
+ *
+ * @example
+ * ```ts
+ * parsePath('body[_key=="a1"].children[0].text')
+ * // ['body', { _key: 'a1' }, 'children', 0, 'text']
+ * ```
+ */
+export function parsePath(path: string): PathSegment[] {
+  const segments: PathSegment[] = []
+  const trimmed = path.trim()
+  // A leading field name has no dot
+  let rest = trimmed && !trimmed.startsWith('[') ? `.${trimmed}` : trimmed
+
+  while (rest) {
+    const match = segmentPattern.exec(rest)
+    if (!match) {
+      throw new Error(`Invalid path "${path}"`)
+    }
+    const [token, field, index, doubleQuoted, singleQuoted] = match
+    if (field !== undefined) {
+      segments.push(field)
+    } else if (index !== undefined) {
+      segments.push(Number(index))
+    } else {
+      segments.push({ _key: doubleQuoted ?? singleQuoted ?? '' })
+    }
+    rest = rest.slice(token.length)
+  }
+
+  return segments
+}
+
+/**
+ * Format path segments as a path string.
+ *
+ * @example
+ * ```ts
+ * formatPath(['body', { _key: 'a1' }, 'children', 0, 'text'])
+ * // 'body[_key=="a1"].children[0].text'
+ * ```
+ */
+export function formatPath(segments: PathSegment[]): string {
+  let path = ''
+  for (const segment of segments) {
+    if (typeof segment === 'string') {
+      path = path ? `${path}.${segment}` : segment
+    } else if (typeof segment === 'number') {
+      path = `${path}[${segment}]`
+    } else {
+      path = `${path}[_key=="${segment._key}"]`
+    }
+  }
+  return path
+}
+
+/**
+ * Get the value at a path, or undefined if the path does not exist.
+ *
+ * @param root - The document (or any value) to read from
+ * @param path - A path string or parsed segments
+ * @returns The value at the path
+ *
+ * @example
+ * ```ts
+ * getValueAtPath(doc, 'body[_key=="a1"].children[-1].text')
+ * ```
+ */
+export function getValueAtPath(root: unknown, path: string | PathSegment[]): unknown {
+  let current = root
+  for (const segment of toSegments(path)) {
+    if (typeof segment === 'string') {
+      if (!isPlainObject(current)) return undefined
+      current = current[segment]
+    } else {
+      if (!Array.isArray(current)) return undefined
+      const index = findIndex(current, segment)
+      if (index === -1) return undefined
+      current = current[index]
+    }
+  }
+  return current
+}
+
+/**
+ * Get the path of the object or array containing the value at a path.
+ */
+export function getParentPath(path: string): string {
+  return formatPath(parsePath(path).slice(0, -1))
+}
+
+/**
+ * Address array items by `_key` instead of by index, where the items in the
+ * document have a `_key`. Key-based paths keep pointing at the same item when
+ * the array is reordered.
+ *
+ * @param path - A path string or parsed segments
+ * @param document - The document the path points into
+ * @returns The path, with `_key` selectors for keyed array items
+ * @throws If a `_key` selector or negative index doesn't match an item in the document
+ *
+ * @example
+ * ```ts
+ * toKeyedPath('body[0].children[1].text', doc)
+ * // 'body[_key=="a1"].children[_key=="s2"].text'
+ * ```
+ */
+export function toKeyedPath(path: string | PathSegment[], document: unknown): string {
+  return formatPath(mapArraySegments(path, document, (array, index) => {
+    const item = array[index]
+    return isPlainObject(item) && typeof item['_key'] === 'string' ? { _key: item['_key'] } : index
+  }))
+}
+
+/**
+ * Address array items by index instead of by `_key`, and resolve negative
+ * indices, as in validation issue paths.
+ *
+ * @param path - A path string or parsed segments
+ * @param document - The document the path points into
+ * @returns The path, with array indices only
+ * @throws If a `_key` selector or negative index doesn't match an item in the document
+ *
+ * @example
+ * ```ts
+ * toIndexPath('body[_key=="a1"].children[-1]', doc)
+ * // 'body[0].children[2]'
+ * ```
+ */
+export function toIndexPath(path: string | PathSegment[], document: unknown): string {
+  return formatPath(mapArraySegments(path, document, (_, index) => index))
+}
+
+/**
+ * Convert a path to a JSON Pointer (RFC 6901), e.g. for JSON Schema and JSON
+ * Patch tooling.
+ *
+ * `_key` selectors and negative indices are resolved against `document`;
+ * paths with only field names and non-negative indices don't need one.
+ *
+ * @param path - A path string or parsed segments
+ * @param document - The document the path points into
+ * @returns The JSON Pointer
+ * @throws If a `_key` selector or negative index can't be resolved
+ *
+ * @example
+ * ```ts
+ * toJsonPointer('body[0].children[1].text')
+ * // '/body/0/children/1/text'
+ * ```
+ */
+export function toJsonPointer(path: string | PathSegment[], document?: unknown): string {
+  let segments = toSegments(path)
+  if (segments.some((s) => typeof s === 'object' || (typeof s === 'number' && s < 0))) {
+    if (document === undefined) {
+      throw new Error(`A document is needed to resolve "${formatPath(segments)}" as a JSON Pointer`)
+    }
+    segments = parsePath(toIndexPath(segments, document))
+  }
+
+  return segments
+    .map((segment) => `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`)
+    .join('')
+}
+
+/**
+ * Convert a JSON Pointer (RFC 6901) to a path. Tokens that are array indices
+ * become indices; Sanity field names can't start with a digit.
+ *
+ * @param pointer - The JSON Pointer, e.g. "/body/0/children/1/text"
+ * @returns The path, e.g. "body[0].children[1].text"
+ * @throws If the pointer is not empty and doesn't start with "/"
+ *
+ * @example
+ * ```ts
+ * fromJsonPointer('/body/0/children/1/text')
+ * // 'body[0].children[1].text'
+ * ```
+ */
+export function fromJsonPointer(pointer: string): string {
+  if (pointer === '') return ''
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON Pointer "${pointer}"`)
+  }
+
+  return formatPath(
+    pointer
+      .slice(1)
+      .split('/')
+      .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+      .map((token) => (/^(?:0|[1-9]\d*)$/.test(token) ? Number(token) : token))
+  )
+}
+
+/**
+ * Convert a path to a JSONPath (RFC 9535) expression, e.g. for JSONPath
+ * libraries and API docs.
+ *
+ * `_key` selectors become filters on `_key`, and field names that aren't
+ * identifiers are quoted, so no document is needed.
+ *
+ * @param path - A path string or parsed segments
+ * @returns The JSONPath, starting with `$`
+ *
+ * @example
+ * ```ts
+ * toJsonPath('content[0].children[_key=="s2"].text')
+ * // "$.content[0].children[?(@._key=='s2')].text"
+ * ```
+ */
+export function toJsonPath(path: string | PathSegment[]): string {
+  let jsonPath = '$'
+  for (const segment of toSegments(path)) {
+    if (typeof segment === 'string') {
+      jsonPath += /^[A-Za-z_]\w*$/.test(segment) ? `.${segment}` : `['${escapeJsonPathString(segment)}']`
+    } else if (typeof segment === 'number') {
+      jsonPath += `[${segment}]`
+    } else {
+      jsonPath += `[?(@._key=='${escapeJsonPathString(segment._key)}')]`
+    }
+  }
+  return jsonPath
+}
+
+/**
+ * Convert a JSONPath (RFC 9535) expression to a path.
+ *
+ * Supports the JSONPaths that address a single value: field names in dot or
+ * bracket notation, array indices and filters on `_key`. Wildcards,
+ * recursive descent, slices and other filters are rejected.
+ *
+ * @param jsonPath - The JSONPath, e.g. "$.content[0].children[2].text"
+ * @returns The path, e.g. "content[0].children[2].text"
+ * @throws If the JSONPath is invalid or not supported
+ *
+ * @example
+ * ```ts
+ * fromJsonPath("$.content[?(@._key=='b1')]['my-field']")
+ * // 'content[_key=="b1"].my-field'
+ * ```
+ */
+export function fromJsonPath(jsonPath: string): string {
+  const trimmed = jsonPath.trim()
+  if (!trimmed.startsWith('$')) {
+    throw new Error(`Invalid JSONPath "${jsonPath}"`)
+  }
+
+  const segments: PathSegment[] = []
+  let rest = trimmed.slice(1)
+  while (rest) {
+    const match = jsonPathSegmentPattern.exec(rest)
+    if (!match) {
+      throw new Error(`Unsupported JSONPath "${jsonPath}"`)
+    }
+    const [token, field, index, singleName, doubleName, singleKey, doubleKey] = match
+    const name = field ?? singleName ?? doubleName
+    const key = singleKey ?? doubleKey
+    if (name !== undefined) {
+      segments.push(field ?? unescapeJsonPathString(name))
+    } else if (index !== undefined) {
+      segments.push(Number(index))
+    } else {
+      segments.push({ _key: unescapeJsonPathString(key ?? '') })
+    }
+    rest = rest.slice(token.length)
+  }
+
+  return formatPath(segments)
+}
+
+function escapeJsonPathString(value: string): string {
+  return value.replace(/[\\']/g, '\\$&')
+}
+
+function unescapeJsonPathString(value: string): string {
+  return value.replace(/\\(.)/g, '$1')
+}
+
+function toSegments(path: string | PathSegment[]): PathSegment[] {
+  return typeof path === 'string' ? parsePath(path) : path
+}
+
+/**
+ * Walk a path through a document, replacing each array segment with the
+ * result of `map` for the item's index. Segments below a value that doesn't
+ * exist are kept as they are.
+ */
+function mapArraySegments(
+  path: string | PathSegment[],
+  document: unknown,
+  map: (array: unknown[], index: number) => PathSegment
+): PathSegment[] {
+  const segments = toSegments(path)
+  const mapped: PathSegment[] = []
+  let current = document
+
+  for (const [i, segment] of segments.entries()) {
+    if (typeof segment === 'string') {
+      mapped.push(segment)
+      current = isPlainObject(current) ? current[segment] : undefined
+      continue
+    }
+
+    const index = Array.isArray(current) ? findIndex(current, segment) : -1
+    if (!Array.isArray(current) || index === -1) {
+      if (typeof segment === 'object' || segment < 0) {
+        throw new Error(`"${formatPath(segments.slice(0, i + 1))}" does not match an array item`)
+      }
+      mapped.push(...segments.slice(i))
+      return mapped
+    }
+
+    mapped.push(map(current, index))
+    current = current[index]
+  }
+
+  return mapped
+}
+
+function findIndex(array: unknown[], segment: number | { _key: string }): number {
+  if (typeof segment === 'number') {
+    const index = segment < 0 ? array.length + segment : segment
+    return index >= 0 && index < array.length ? index : -1
+  }
+  return array.findIndex((item) => isPlainObject(item) && item['_key'] === segment._key)
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
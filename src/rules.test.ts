@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import type { ManifestSchemaType } from './types.js'
+import { CustomRuleRegistry, createCustomRuleRegistry } from './rules.js'
+
+const field: ManifestSchemaType = {
+  type: 'string',
+  name: 'heading',
+  validation: [{ rules: [{ flag: 'custom' }], message: 'Must be title case' }],
+}
+const group = field.validation![0]!
+const rule = group.rules[0]!
+const document = { _type: 'article' }
+
+describe('CustomRuleRegistry', () => {
+  it('finds validators by document type and collapsed path', () => {
+    const registry = new CustomRuleRegistry()
+      .register('heading', { path: 'article.sections[].heading', validate: () => undefined })
+      .register('other', { path: 'article.heading', validate: () => undefined })
+
+    const matches = registry.find({ document, path: 'sections[2].heading', field, rule, group })
+    expect(matches.map(m => m.name)).toEqual(['heading'])
+  })
+
+  it('finds validators by the object type containing the field', () => {
+    const registry = new CustomRuleRegistry()
+      .register('seoHeading', { path: 'seo.heading', validate: () => undefined })
+
+    const matches = registry.find({ document, path: 'sections[2].heading', typeKey: 'seo.heading', field, rule, group })
+    expect(matches.map(m => m.name)).toEqual(['seoHeading'])
+    expect(registry.find({ document, path: 'heading', field, rule, group })).toEqual([])
+  })
+
+  it('finds validators by rule metadata', () => {
+    const registry = createCustomRuleRegistry({
+      titleCase: { match: ({ group }) => group.message === 'Must be title case', validate: () => undefined },
+      scoped: { path: 'book.heading', match: () => true, validate: () => undefined },
+    })
+
+    expect(registry.find({ document, path: 'heading', field, rule, group }).map(m => m.name))
+      .toEqual(['titleCase'])
+  })
+
+  it('rejects duplicate names and definitions without a selector', () => {
+    const registry = new CustomRuleRegistry().register('a', { path: 'article.a', validate: () => undefined })
+
+    expect(() => registry.register('a', { path: 'article.b', validate: () => undefined }))
+      .toThrow('Custom rule "a" is already registered')
+    expect(() => registry.register('b', { validate: () => undefined }))
+      .toThrow('Custom rule "b" needs a path or a match function')
+  })
+
+  it('unregisters validators', () => {
+    const registry = createCustomRuleRegistry({ a: { path: 'article.a', validate: () => undefined } })
+
+    expect(registry.unregister('a')).toBe(true)
+    expect(registry.has('a')).toBe(false)
+    expect(registry.unregister('a')).toBe(false)
+  })
+})
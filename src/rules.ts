@@ -0,0 +1,185 @@
+import type {
+  ManifestSchemaType,
+  ManifestValidationGroup,
+  ManifestValidationRule,
+} from './types.js'
+import type { ValidationIssue } from './validation.js'
+import { getFieldKey } from './conditions.js'
+
+/**
+ * Everything a custom validator receives, mirroring the arguments Sanity
+ * Studio passes to `Rule.custom()` callbacks.
+ */
+export interface CustomRuleContext {
+  /** The field's current value (may be undefined) */
+  value: unknown
+  /** The object (or array) containing the field */
+  parent: unknown
+  /** The whole document */
+  document: Record<string, unknown>
+  /** Path to the field in the document (e.g., "sections[0].heading") */
+  path: string
+  /**
+   * The field's key in the innermost named object type containing it, if any
+   * (e.g., "seo.title" for the title of an article's `seo` object)
+   */
+  typeKey?: string
+  /** The field definition */
+  field: ManifestSchemaType
+  /** The `custom` rule being evaluated */
+  rule: ManifestValidationRule
+  /** The validation group containing the rule */
+  group: ManifestValidationGroup
+}
+
+/**
+ * An issue returned by a custom validator. `path` defaults to the field's path,
+ * `severity` to the group's level and `code` to `CUSTOM_RULE`.
+ */
+export type CustomRuleIssue =
+  Omit<ValidationIssue, 'path' | 'severity' | 'code'> & Partial<Pick<ValidationIssue, 'path' | 'severity' | 'code'>>
+
+/**
+ * What a custom validator returns: nothing when the value is valid, or one or
+ * more issues.
+ */
+export type CustomRuleResult = CustomRuleIssue | CustomRuleIssue[] | undefined
+
+/**
+ * A custom validator. Async validators are only evaluated by
+ * `validateDocumentAsync` and `validateDocuments`.
+ */
+export type CustomRuleValidator = (
+  context: CustomRuleContext
+) => CustomRuleResult | Promise<CustomRuleResult>
+
+/**
+ * A registered custom rule, and the `custom` rules it evaluates.
+ */
+export interface CustomRuleDefinition {
+  /**
+   * Field to validate, keyed by document type and field path with array
+   * indices written as `[]` (e.g., "article.slug" or "article.sections[].heading").
+   * Fields of named object types can also be keyed by the object type
+   * (e.g., "seo.title"), wherever the type is used.
+   */
+  path?: string
+  /** Match `custom` rules by their metadata, such as the group's message */
+  match?: (context: Omit<CustomRuleContext, 'value' | 'parent'>) => boolean
+  /** The validator */
+  validate: CustomRuleValidator
+}
+
+/**
+ * Named custom validators that evaluate `custom` validation rules.
+ *
+ * The deployed schema only records that a field has a `custom` rule - the
+ * function itself stays in the Studio. Register validators here to run the
+ * same checks outside the Studio, and pass the registry as
+ * `ValidateOptions.customRules`. Custom rules without a registered validator
+ * are reported as info.
+ *
+ * @example
+ * ```ts
+ * const customRules = new CustomRuleRegistry()
+ *   .register('slugPrefix', {
+ *     path: 'article.slug',
+ *     validate: ({ value }) => {
+ *       const current = (value as { current?: string } | undefined)?.current
+ *       if (current && !current.startsWith('blog-')) {
+ *         return { message: 'Slug must start with "blog-"' }
+ *       }
+ *     },
+ *   })
+ *
+ * const result = validateDocument(doc, allTypes, { customRules })
+ * ```
+ */
+export class CustomRuleRegistry {
+  private rules = new Map<string, CustomRuleDefinition>()
+
+  /**
+   * Register a named validator.
+   *
+   * @param name - Unique name, reported as the constraint of the rule in issues
+   * @param definition - Which `custom` rules to evaluate, and the validator
+   * @returns The registry, for chaining
+   */
+  register(name: string, definition: CustomRuleDefinition): this {
+    if (this.rules.has(name)) {
+      throw new Error(`Custom rule "${name}" is already registered`)
+    }
+    if (definition.path === undefined && !definition.match) {
+      throw new Error(`Custom rule "${name}" needs a path or a match function`)
+    }
+    this.rules.set(name, definition)
+    return this
+  }
+
+  /**
+   * Remove a registered validator.
+   *
+   * @returns Whether a validator with the name was registered
+   */
+  unregister(name: string): boolean {
+    return this.rules.delete(name)
+  }
+
+  /**
+   * Check whether a validator is registered under a name.
+   */
+  has(name: string): boolean {
+    return this.rules.has(name)
+  }
+
+  /**
+   * Find the validators for a `custom` rule, in registration order.
+   *
+   * @param context - The rule, and where its field is in the document
+   * @returns Names and validators that match
+   */
+  find(
+    context: Omit<CustomRuleContext, 'value' | 'parent'>
+  ): Array<{ name: string; validate: CustomRuleValidator }> {
+    const key = getFieldKey(context.document, context.path)
+    const matches: Array<{ name: string; validate: CustomRuleValidator }> = []
+
+    for (const [name, definition] of this.rules) {
+      if (definition.path !== undefined && definition.path !== key && definition.path !== context.typeKey) continue
+      if (definition.match && !definition.match(context)) continue
+      matches.push({ name, validate: definition.validate })
+    }
+
+    return matches
+  }
+}
+
+/**
+ * Create a custom rule registry from a map of named definitions.
+ *
+ * @param rules - Definitions keyed by name
+ * @returns A registry for `ValidateOptions.customRules`
+ *
+ * @example
+ * ```ts
+ * const customRules = createCustomRuleRegistry({
+ *   isbn: {
+ *     match: ({ group }) => group.message === 'Must be a valid ISBN',
+ *     validate: ({ value }) => isIsbn(value) ? undefined : { message: 'Invalid ISBN' },
+ *   },
+ *   authorExists: {
+ *     path: 'book.author',
+ *     validate: async ({ value }) => (await lookupAuthor(value)) ? undefined : { message: 'Unknown author' },
+ *   },
+ * })
+ * ```
+ */
+export function createCustomRuleRegistry(
+  rules: Record<string, CustomRuleDefinition> = {}
+): CustomRuleRegistry {
+  const registry = new CustomRuleRegistry()
+  for (const [name, definition] of Object.entries(rules)) {
+    registry.register(name, definition)
+  }
+  return registry
+}
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest'
+import type { ManifestSchemaType } from './types.js'
+import { generateTypeScript, pascalCase } from './typescript.js'
+
+const types: ManifestSchemaType[] = [
+  {
+    type: 'document',
+    name: 'article',
+    title: 'Article',
+    description: 'A news article',
+    fields: [
+      {
+        type: 'string',
+        name: 'title',
+        title: 'Title',
+        validation: [{ rules: [{ flag: 'presence', constraint: 'required' }] }],
+      },
+      {
+        type: 'string',
+        name: 'status',
+        options: { list: [{ title: 'Draft', value: 'draft' }, { title: 'Published', value: 'published' }] },
+      },
+      { type: 'number', name: 'priority', options: { list: [1, 2, 3] } },
+      { type: 'reference', name: 'author', to: [{ type: 'author' }, { type: 'person' }] },
+      { type: 'array', name: 'tags', of: [{ type: 'string' }] },
+      { type: 'array', name: 'related', of: [{ type: 'reference', to: [{ type: 'article' }] }] },
+      { type: 'image', name: 'mainImage', fields: [{ type: 'string', name: 'alt' }] },
+      { type: 'seo', name: 'seo' },
+      { type: 'geopoint', name: 'location', deprecated: { reason: 'Use venue' } },
+      {
+        type: 'array',
+        name: 'sections',
+        of: [{ type: 'seo' }, { type: 'object', name: 'quote', fields: [{ type: 'text', name: 'text' }] }],
+      },
+      {
+        type: 'array',
+        name: 'body',
+        of: [
+          {
+            type: 'block',
+            styles: [{ value: 'normal', title: 'Normal' }, { value: 'h2', title: 'H2' }],
+            lists: [{ value: 'bullet', title: 'Bullets' }],
+            marks: { annotations: [{ type: 'object', name: 'link', fields: [{ type: 'url', name: 'href' }] }] },
+          },
+          { type: 'image' },
+        ],
+      },
+      { type: 'some-plugin-type', name: 'weird-name' },
+    ],
+  },
+  { type: 'document', name: 'author', fields: [{ type: 'string', name: 'name' }] },
+  {
+    type: 'object',
+    name: 'seo',
+    fields: [{ type: 'string', name: 'description', description: 'Meta description\nShown in search results' }],
+  },
+  { type: 'string', name: 'category', options: { list: ['news', "it's"] } },
+  { type: 'image', name: 'figure', fields: [{ type: 'string', name: 'caption' }] },
+]
+
+describe('generateTypeScript', () => {
+  const output = generateTypeScript(types)
+
+  it('declares documents with system fields, and required and optional fields', () => {
+    expect(output).toContain([
+      '/**',
+      ' * Article',
+      ' *',
+      ' * A news article',
+      ' */',
+      'export interface Article {',
+      '  _id: string',
+      "  _type: 'article'",
+      '  _createdAt: string',
+      '  _updatedAt: string',
+      '  _rev: string',
+      '  /** Title */',
+      '  title: string',
+      "  status?: 'draft' | 'published'",
+      '  priority?: 1 | 2 | 3',
+      "  author?: SanityReference<'author' | 'person'>",
+      '  tags?: Array<string>',
+      "  related?: Array<SanityKeyed<SanityReference<'article'>>>",
+      '  mainImage?: SanityImage & {',
+      '    alt?: string',
+      '  }',
+      '  seo?: Seo',
+      '  /** @deprecated Use venue */',
+      '  location?: SanityGeopoint',
+    ].join('\n'))
+    expect(output).toContain("  'weird-name'?: unknown\n}")
+  })
+
+  it('unions array members and keys object items', () => {
+    expect(output).toContain([
+      '  sections?: Array<SanityKeyed<Seo> | SanityKeyed<{',
+      "    _type: 'quote'",
+      '    text?: string',
+      '  }>>',
+    ].join('\n'))
+  })
+
+  it('types portable text blocks from their styles, lists and annotations', () => {
+    expect(output).toContain([
+      '  body?: Array<SanityKeyed<{',
+      "    _type: 'block'",
+      '    children: Array<SanitySpan>',
+      "    style?: 'normal' | 'h2'",
+      "    listItem?: 'bullet'",
+      '    level?: number',
+      '    markDefs?: Array<SanityKeyed<{',
+      "      _type: 'link'",
+      '      href?: string',
+      '    }>>',
+      '  }> | SanityKeyed<SanityImage>>',
+    ].join('\n'))
+  })
+
+  it('declares named object, list and image types', () => {
+    expect(output).toContain([
+      'export interface Seo {',
+      "  _type: 'seo'",
+      '  /**',
+      '   * Meta description',
+      '   * Shown in search results',
+      '   */',
+      '  description?: string',
+      '}',
+    ].join('\n'))
+    expect(output).toContain("export type Category = 'news' | 'it\\'s'")
+    expect(output).toContain("export interface Figure extends Omit<SanityImage, '_type'> {\n  _type: 'figure'")
+  })
+
+  it('escapes comment terminators in JSDoc', () => {
+    const escaped = generateTypeScript([{
+      type: 'object',
+      name: 'note',
+      description: 'Ends */ here',
+      fields: [{ type: 'string', name: 'legacy', deprecated: { reason: 'gone */ now' } }],
+    }])
+
+    expect(escaped).toContain('/** Ends *\\/ here */')
+    expect(escaped).toContain('  /** @deprecated gone *\\/ now */')
+  })
+
+  it('emits only the helper types that are used', () => {
+    expect(output.startsWith('// Generated from the deployed Sanity schema. Do not edit.\n')).toBe(true)
+    expect(output).toContain('export interface SanityReference<Target extends string = string> {')
+    expect(output).toContain('export interface SanityImage {')
+    expect(output).toContain('export interface SanitySpan {')
+    expect(output).not.toContain('SanityFile')
+    expect(output).not.toContain('SanityColor')
+  })
+
+  it('emits type aliases and custom type names', () => {
+    const aliases = generateTypeScript(types, { declarations: 'type', typeName: (name) => `S${pascalCase(name)}` })
+
+    expect(aliases).toContain('export type SArticle = {\n  _id: string')
+    expect(aliases).toContain('  seo?: SSeo\n')
+    expect(aliases).not.toContain('export interface SSeo')
+  })
+})
+
+describe('pascalCase', () => {
+  it('turns schema type names into type names', () => {
+    expect(pascalCase('blogPost')).toBe('BlogPost')
+    expect(pascalCase('blog-post')).toBe('BlogPost')
+    expect(pascalCase('sanity.imageAsset')).toBe('SanityImageAsset')
+    expect(pascalCase('3d-model')).toBe('_3dModel')
+  })
+})
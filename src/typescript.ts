@@ -0,0 +1,440 @@
+import type {
+  ManifestSchemaType,
+  ManifestArrayMember,
+  ManifestTitledValue,
+} from './types.js'
+import { getListOptions, getReferenceTargetTypes, isFieldRequired } from './helpers.js'
+
+/**
+ * Options for TypeScript generation.
+ */
+export interface GenerateTypeScriptOptions {
+  /** Declare document and object types as `interface`s or `type` aliases (default: "interface") */
+  declarations?: 'interface' | 'type'
+  /** Name of the TypeScript type for a schema type (default: PascalCase, e.g. "blogPost" → "BlogPost") */
+  typeName?: (name: string) => string
+}
+
+/**
+ * State shared while generating one file.
+ */
+interface GeneratorContext {
+  typeMap: Map<string, ManifestSchemaType>
+  typeName: (name: string) => string
+  /** Built-in helper types used so far */
+  helpers: Set<HelperName>
+}
+
+/**
+ * Shared types for Sanity's built-in object types, emitted when used.
+ */
+const helperTypes = {
+  SanityKeyed: [
+    '/** An array item, with the `_key` Sanity uses to address it */',
+    'export type SanityKeyed<T> = T & { _key: string }',
+  ],
+  SanityReference: [
+    'export declare const referenceTarget: unique symbol',
+    '',
+    '/** A reference to a document of one of the target types */',
+    'export interface SanityReference<Target extends string = string> {',
+    "  _type: 'reference'",
+    '  _ref: string',
+    '  _weak?: boolean',
+    '  /** The types the reference may point to (type-level only) */',
+    '  [referenceTarget]?: Target',
+    '}',
+  ],
+  SanityCrossDatasetReference: [
+    '/** A reference to a document in another dataset */',
+    'export interface SanityCrossDatasetReference {',
+    "  _type: 'crossDatasetReference'",
+    '  _ref: string',
+    '  _dataset: string',
+    '  _projectId: string',
+    '  _weak?: boolean',
+    '}',
+  ],
+  SanityGlobalDocumentReference: [
+    '/** A reference to a document in another resource, e.g. "dataset:project.dataset:id" */',
+    'export interface SanityGlobalDocumentReference {',
+    "  _type: 'globalDocumentReference'",
+    '  _ref: string',
+    '  _weak?: boolean',
+    '}',
+  ],
+  SanitySlug: [
+    'export interface SanitySlug {',
+    "  _type: 'slug'",
+    '  current: string',
+    '}',
+  ],
+  SanityImageHotspot: [
+    'export interface SanityImageHotspot {',
+    '  x: number',
+    '  y: number',
+    '  height: number',
+    '  width: number',
+    '}',
+  ],
+  SanityImageCrop: [
+    'export interface SanityImageCrop {',
+    '  top: number',
+    '  bottom: number',
+    '  left: number',
+    '  right: number',
+    '}',
+  ],
+  SanityImage: [
+    'export interface SanityImage {',
+    "  _type: 'image'",
+    "  asset?: SanityReference<'sanity.imageAsset'>",
+    '  hotspot?: SanityImageHotspot',
+    '  crop?: SanityImageCrop',
+    '}',
+  ],
+  SanityFile: [
+    'export interface SanityFile {',
+    "  _type: 'file'",
+    "  asset?: SanityReference<'sanity.fileAsset'>",
+    '}',
+  ],
+  SanityGeopoint: [
+    'export interface SanityGeopoint {',
+    "  _type: 'geopoint'",
+    '  lat: number',
+    '  lng: number',
+    '  alt?: number',
+    '}',
+  ],
+  SanityColor: [
+    'export interface SanityColor {',
+    "  _type: 'color'",
+    '  hex: string',
+    '  alpha?: number',
+    '  rgb?: { r: number; g: number; b: number; a: number }',
+    '  hsl?: { h: number; s: number; l: number; a: number }',
+    '  hsv?: { h: number; s: number; v: number; a: number }',
+    '}',
+  ],
+  SanitySpan: [
+    '/** Text in a portable text block, with decorators and mark definition keys in `marks` */',
+    'export interface SanitySpan {',
+    "  _type: 'span'",
+    '  _key: string',
+    '  text: string',
+    '  marks?: string[]',
+    '}',
+  ],
+} satisfies Record<string, string[]>
+
+type HelperName = keyof typeof helperTypes
+
+/** Helpers that other helpers use */
+const helperDependencies: Partial<Record<HelperName, HelperName[]>> = {
+  SanityImage: ['SanityReference', 'SanityImageHotspot', 'SanityImageCrop'],
+  SanityFile: ['SanityReference'],
+}
+
+/**
+ * Generate TypeScript types for the documents and objects in a deployed schema.
+ *
+ * Document and object types become interfaces (or type aliases), and other
+ * named types become type aliases. Fields are optional unless they are
+ * required (`isFieldRequired`), strings and numbers with `options.list` become
+ * unions of their values, references are typed by their targets, and array
+ * items get `_key`. Portable text blocks are typed with their styles, list
+ * types, annotations and inline objects. Titles, descriptions and deprecation
+ * reasons become JSDoc. Helper types for Sanity's built-in types (images,
+ * references, slugs, ...) are included as needed.
+ *
+ * @param types - All schema types from the schema
+ * @param options - Declaration style and type naming
+ * @returns The source of a TypeScript module
+ *
+ * @example
+ * ```ts
+ * const types = await schemaClient.getTypes()
+ * await writeFile('sanity.types.ts', generateTypeScript(types))
+ *
+ * // export interface Article {
+ * //   _id: string
+ * //   _type: 'article'
+ * //   ...
+ * //   title: string
+ * //   status?: 'draft' | 'published'
+ * //   author?: SanityReference<'author' | 'person'>
+ * //   tags?: Array<string>
+ * // }
+ * ```
+ */
+export function generateTypeScript(
+  types: ManifestSchemaType[],
+  options: GenerateTypeScriptOptions = {}
+): string {
+  const { declarations = 'interface', typeName = pascalCase } = options
+  const context: GeneratorContext = {
+    typeMap: new Map(types.map((t) => [t.name, t])),
+    typeName,
+    helpers: new Set(),
+  }
+
+  const declared = new Set(types.map((t) => typeName(t.name)))
+  const blocks = types.map((type) => declareType(type, declarations, context))
+
+  // Schema types with the same name as a helper (e.g., "sanity.imageCrop") take its place
+  const helpers = resolveHelpers(context.helpers).filter((name) => !declared.has(name))
+
+  return [
+    '// Generated from the deployed Sanity schema. Do not edit.',
+    ...helpers.map((name) => helperTypes[name].join('\n')),
+    ...blocks,
+  ].join('\n\n') + '\n'
+}
+
+/**
+ * Turn a schema type name into a type name ("blog-post" and "blogPost" → "BlogPost",
+ * "sanity.imageAsset" → "SanityImageAsset").
+ */
+export function pascalCase(name: string): string {
+  const pascal = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('')
+  return /^[0-9]/.test(pascal) ? `_${pascal}` : pascal
+}
+
+/**
+ * Declare a named schema type.
+ */
+function declareType(
+  type: ManifestSchemaType,
+  declarations: 'interface' | 'type',
+  context: GeneratorContext
+): string {
+  const name = context.typeName(type.name)
+  const doc = jsDoc(type, '')
+  let body: string[] | undefined
+  let base: string | undefined
+
+  if (type.type === 'document') {
+    body = [
+      '  _id: string',
+      `  _type: ${literal(type.name)}`,
+      '  _createdAt: string',
+      '  _updatedAt: string',
+      '  _rev: string',
+      ...fieldLines(type.fields ?? [], '  ', context),
+    ]
+  } else if (type.type === 'object') {
+    body = [`  _type: ${literal(type.name)}`, ...fieldLines(type.fields ?? [], '  ', context)]
+  } else if (type.type === 'image' || type.type === 'file') {
+    base = useHelper(type.type === 'image' ? 'SanityImage' : 'SanityFile', context)
+    body = [`  _type: ${literal(type.name)}`, ...fieldLines(type.fields ?? [], '  ', context)]
+  }
+
+  if (type.type === 'block') {
+    return `${doc}export type ${name} = ${blockType(type, type.name, '', context)}`
+  }
+  if (!body) {
+    return `${doc}export type ${name} = ${typeExpression(type, '', context)}`
+  }
+
+  const omitBase = base && `Omit<${base}, '_type'>`
+  if (declarations === 'interface') {
+    const heritage = omitBase ? ` extends ${omitBase}` : ''
+    return `${doc}export interface ${name}${heritage} {\n${body.join('\n')}\n}`
+  }
+  return `${doc}export type ${name} = ${omitBase ? `${omitBase} & ` : ''}{\n${body.join('\n')}\n}`
+}
+
+/**
+ * The TypeScript type for a value of a schema type.
+ */
+function typeExpression(def: ManifestSchemaType, indent: string, context: GeneratorContext): string {
+  switch (def.type) {
+    case 'string':
+    case 'text':
+    case 'url':
+    case 'email':
+    case 'date':
+    case 'datetime':
+      return listUnion(def) ?? 'string'
+    case 'number':
+      return listUnion(def) ?? 'number'
+    case 'boolean':
+      return 'boolean'
+    case 'slug':
+      return useHelper('SanitySlug', context)
+    case 'reference':
+      return referenceType(def, context)
+    case 'crossDatasetReference':
+      return useHelper('SanityCrossDatasetReference', context)
+    case 'globalDocumentReference':
+      return useHelper('SanityGlobalDocumentReference', context)
+    case 'geopoint':
+      return useHelper('SanityGeopoint', context)
+    case 'color':
+      return useHelper('SanityColor', context)
+    case 'span':
+      return useHelper('SanitySpan', context)
+    case 'image':
+    case 'file': {
+      const base = useHelper(def.type === 'image' ? 'SanityImage' : 'SanityFile', context)
+      return def.fields?.length ? `${base} & ${objectLiteral(fieldLines(def.fields, `${indent}  `, context), indent)}` : base
+    }
+    case 'object':
+      return objectLiteral(fieldLines(def.fields ?? [], `${indent}  `, context), indent)
+    case 'array':
+      return `Array<${union((def.of ?? []).map((member) => memberType(member, indent, context)))}>`
+    case 'block':
+      return blockType(def, 'block', indent, context)
+    default: {
+      const named = context.typeMap.get(def.type)
+      return named ? context.typeName(named.name) : 'unknown'
+    }
+  }
+}
+
+/**
+ * The type of an array item. Objects get a `_key`, and inline objects a
+ * `_type` with the member's name.
+ */
+function memberType(member: ManifestArrayMember, indent: string, context: GeneratorContext): string {
+  const def = member as ManifestSchemaType
+  const named = context.typeMap.get(def.type)
+  const kind = named?.type ?? def.type
+  const isObject = ['object', 'document', 'image', 'file', 'block', 'reference', 'crossDatasetReference',
+    'globalDocumentReference', 'slug', 'geopoint', 'color', 'span'].includes(kind)
+  if (!isObject) return typeExpression(def, indent, context)
+
+  let type: string
+  if (named) {
+    type = context.typeName(named.name)
+  } else if (def.type === 'object') {
+    const lines = [`${indent}  _type: ${literal(member.name ?? 'object')}`, ...fieldLines(def.fields ?? [], `${indent}  `, context)]
+    type = objectLiteral(lines, indent)
+  } else if (def.type === 'block') {
+    type = blockType(def, member.name ?? 'block', indent, context)
+  } else if ((def.type === 'image' || def.type === 'file') && member.name && member.name !== def.type) {
+    const base = useHelper(def.type === 'image' ? 'SanityImage' : 'SanityFile', context)
+    const lines = [`${indent}  _type: ${literal(member.name)}`, ...fieldLines(def.fields ?? [], `${indent}  `, context)]
+    type = `Omit<${base}, '_type'> & ${objectLiteral(lines, indent)}`
+  } else {
+    type = typeExpression(def, indent, context)
+  }
+
+  return `${useHelper('SanityKeyed', context)}<${type}>`
+}
+
+/**
+ * The type of a portable text block, with its styles, list types,
+ * annotations (mark definitions) and inline objects.
+ */
+function blockType(def: ManifestSchemaType, typeName: string, indent: string, context: GeneratorContext): string {
+  const inner = `${indent}  `
+  const children = [useHelper('SanitySpan', context), ...(def.of ?? []).map((m) => memberType(m, inner, context))]
+  const annotations = def.marks?.annotations ?? []
+  const lines = [
+    `${inner}_type: ${literal(typeName)}`,
+    `${inner}children: Array<${union(children)}>`,
+    `${inner}style?: ${titledUnion(def.styles)}`,
+  ]
+  if (def.lists?.length !== 0) {
+    lines.push(`${inner}listItem?: ${titledUnion(def.lists)}`, `${inner}level?: number`)
+  }
+  if (annotations.length > 0) {
+    lines.push(`${inner}markDefs?: Array<${union(annotations.map((m) => memberType(m, inner, context)))}>`)
+  } else {
+    lines.push(`${inner}markDefs?: Array<{ _type: string; _key: string }>`)
+  }
+  return objectLiteral(lines, indent)
+}
+
+function referenceType(def: ManifestSchemaType, context: GeneratorContext): string {
+  const reference = useHelper('SanityReference', context)
+  const targets = getReferenceTargetTypes(def)
+  return targets.length > 0 ? `${reference}<${union(targets.map(literal))}>` : reference
+}
+
+/**
+ * Property lines for fields, with JSDoc.
+ */
+function fieldLines(
+  fields: ManifestSchemaType[],
+  indent: string,
+  context: GeneratorContext
+): string[] {
+  return fields.map((field) => {
+    const optional = isFieldRequired(field) ? '' : '?'
+    return `${jsDoc(field, indent)}${indent}${propertyName(field.name)}${optional}: ${typeExpression(field, indent, context)}`
+  })
+}
+
+function objectLiteral(lines: string[], indent: string): string {
+  return `{\n${lines.join('\n')}\n${indent}}`
+}
+
+/**
+ * JSDoc from a type's title, description and deprecation reason.
+ */
+function jsDoc(def: ManifestSchemaType, indent: string): string {
+  const paragraphs = [def.title, def.description, def.deprecated && `@deprecated ${def.deprecated.reason}`]
+    .filter((text): text is string => !!text)
+    .map((text) => text.replace(/\*\//g, '*\\/'))
+
+  const [first] = paragraphs
+  if (first === undefined) return ''
+  if (paragraphs.length === 1 && !first.includes('\n')) return `${indent}/** ${first} */\n`
+
+  const lines = paragraphs
+    .flatMap((text, i) => [...(i > 0 ? [''] : []), ...text.split('\n')])
+    .map((line) => `${indent} *${line ? ` ${line}` : ''}`)
+  return `${indent}/**\n${lines.join('\n')}\n${indent} */\n`
+}
+
+function listUnion(def: ManifestSchemaType): string | undefined {
+  const list = getListOptions(def)
+  if (!list || list.length === 0) return undefined
+
+  // List items may be plain values or { title, value } objects
+  const values = list.map((item) =>
+    typeof item === 'object' && item !== null ? item.value : (item as string | number)
+  )
+  return union(values.map(literal))
+}
+
+function titledUnion(values: ManifestTitledValue[] | undefined): string {
+  return values?.length ? union(values.map((v) => literal(v.value))) : 'string'
+}
+
+function union(types: string[]): string {
+  const unique = Array.from(new Set(types))
+  return unique.length > 0 ? unique.join(' | ') : 'never'
+}
+
+function literal(value: string | number): string {
+  return typeof value === 'number' ? String(value) : `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+}
+
+function propertyName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : literal(name)
+}
+
+function useHelper(name: HelperName, context: GeneratorContext): string {
+  context.helpers.add(name)
+  return name
+}
+
+/**
+ * Helpers in declaration order, with the helpers they depend on.
+ */
+function resolveHelpers(used: Set<HelperName>): HelperName[] {
+  const all = new Set<HelperName>()
+  for (const name of used) {
+    all.add(name)
+    for (const dependency of helperDependencies[name] ?? []) all.add(dependency)
+  }
+  return (Object.keys(helperTypes) as HelperName[]).filter((name) => all.has(name))
+}
@@ -1,10 +1,15 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, vi } from 'vitest'
 import type { ManifestSchemaType } from './types.js'
 import {
   validateDocument,
+  validateDocumentAsync,
+  toPatchOperations,
   formatValidationIssues,
   formatValidationForAgent,
 } from './validation.js'
+import { createConditionEvaluator } from './conditions.js'
+import { createCustomRuleRegistry } from './rules.js'
+import { IssueCode } from './codes.js'
 
 // Test schema
 const articleType: ManifestSchemaType = {
@@ -380,7 +385,7 @@ describe('validateDocument', () => {
         _type: 'article',
         title: 'Hello',
         slug: { current: 'test' },
-        mainImage: { asset: { _ref: 'image-123' } },
+        mainImage: { asset: { _ref: 'image-Tb9Ew8CXIwaY6R1kjMvI0uRR-2000x3000-jpg' } },
       }
 
       const result = validateDocument(doc, allTypes)
@@ -397,7 +402,7 @@ describe('validateDocument', () => {
         title: 'Hello',
         slug: { current: 'test' },
         mainImage: {
-          asset: { _ref: 'image-123' },
+          asset: { _ref: 'image-Tb9Ew8CXIwaY6R1kjMvI0uRR-2000x3000-jpg' },
           alt: 'Description of image',
         },
       }
@@ -410,6 +415,1371 @@ describe('validateDocument', () => {
   })
 })
 
+describe('date validation', () => {
+  const eventType: ManifestSchemaType = {
+    type: 'document',
+    name: 'event',
+    fields: [
+      {
+        type: 'date',
+        name: 'day',
+        options: { dateFormat: 'DD/MM/YYYY' },
+        validation: [{ rules: [{ flag: 'min', constraint: '2024-01-01' }, { flag: 'max', constraint: '2024-12-31' }] }],
+      },
+      {
+        type: 'datetime',
+        name: 'startsAt',
+        validation: [{ rules: [{ flag: 'min', constraint: '2024-01-01T00:00:00Z' }] }],
+      },
+    ],
+  }
+
+  function validateEvent(fields: Record<string, unknown>) {
+    return validateDocument({ _type: 'event', ...fields }, [eventType])
+  }
+
+  it('accepts ISO dates and RFC 3339 datetimes', () => {
+    expect(validateEvent({ day: '2024-02-29', startsAt: '2024-01-15T10:30:00Z' }).valid).toBe(true)
+    expect(validateEvent({ startsAt: '2024-01-15T10:30:00.123+02:00' }).valid).toBe(true)
+  })
+
+  it('rejects loosely formatted dates', () => {
+    const result = validateEvent({ day: 'Jan 5 2024' })
+
+    expect(result.errors[0]?.message).toBe('Invalid date format: "Jan 5 2024"')
+    expect(result.errors[0]?.fixes?.[0]).toMatchObject({ op: 'set', path: 'day', value: '2024-01-05' })
+  })
+
+  it('rejects dates that do not exist', () => {
+    expect(validateEvent({ day: '2023-02-29' }).valid).toBe(false)
+    expect(validateEvent({ startsAt: '2024-01-15T24:00:00Z' }).valid).toBe(false)
+  })
+
+  it('uses options.dateFormat for suggestions', () => {
+    const result = validateEvent({ day: '05/03/2024' })
+
+    expect(result.errors[0]?.suggestions).toEqual([
+      'Use "2024-03-05"',
+      'Use format: 2024-01-15',
+      '"DD/MM/YYYY" is only the display format; values are stored as YYYY-MM-DD',
+    ])
+  })
+
+  it('reports datetimes without a timezone', () => {
+    const result = validateEvent({ startsAt: '2024-01-15T10:30:00' })
+
+    expect(result.errors[0]?.message).toBe('Datetime is missing a timezone: "2024-01-15T10:30:00"')
+    expect(result.errors[0]?.fixes?.[0]).toMatchObject({ value: '2024-01-15T10:30:00Z' })
+  })
+
+  it('compares min and max rules as dates', () => {
+    expect(validateEvent({ day: '2023-12-31' }).errors[0]?.message).toBe('Must be on or after 2024-01-01')
+    expect(validateEvent({ day: '2025-01-01' }).errors[0]?.message).toBe('Must be on or before 2024-12-31')
+    expect(validateEvent({ startsAt: '2024-01-01T01:00:00+02:00' }).errors[0]?.message)
+      .toBe('Must be on or after 2024-01-01T00:00:00Z')
+    expect(validateEvent({ startsAt: '2024-01-01T01:00:00Z' }).valid).toBe(true)
+  })
+})
+
+describe('built-in types', () => {
+  const placeType: ManifestSchemaType = {
+    type: 'document',
+    name: 'place',
+    fields: [
+      { type: 'geopoint', name: 'location' },
+      { type: 'color', name: 'color' },
+      { type: 'email', name: 'contact' },
+      { type: 'crossDatasetReference', name: 'product', dataset: 'shop', to: [{ type: 'product' }] },
+      {
+        type: 'globalDocumentReference',
+        name: 'asset',
+        resourceType: 'media-library',
+        resourceId: 'ml123',
+        to: [{ type: 'sanity.asset' }],
+      },
+      { type: 'span', name: 'caption' },
+    ],
+  }
+
+  function validatePlace(fields: Record<string, unknown>) {
+    return validateDocument({ _type: 'place', ...fields }, [placeType])
+  }
+
+  it('accepts valid values', () => {
+    const result = validatePlace({
+      location: { _type: 'geopoint', lat: 59.91, lng: 10.75, alt: 12 },
+      color: { _type: 'color', hex: '#ff0000', alpha: 1, rgb: { _type: 'rgbaColor', r: 255, g: 0, b: 0, a: 1 } },
+      contact: 'hello@example.com',
+      product: { _type: 'product', _ref: 'p1', _dataset: 'shop', _projectId: 'abc123' },
+      asset: { _type: 'asset', _ref: 'media-library:ml123:a1' },
+      caption: { _type: 'span', text: 'Hi', marks: [] },
+    })
+
+    expect(result.issues).toEqual([])
+  })
+
+  describe('geopoint', () => {
+    it('checks lat and lng ranges', () => {
+      const result = validatePlace({ location: { lat: 91, lng: 181 } })
+
+      expect(result.errors.map(e => e.message)).toEqual([
+        'Latitude must be between -90 and 90',
+        'Longitude must be between -180 and 180',
+      ])
+    })
+
+    it('requires lat and lng', () => {
+      const result = validatePlace({ location: { lat: 10 } })
+
+      expect(result.errors[0]).toMatchObject({ path: 'location.lng', message: 'Geopoint is missing lng' })
+    })
+
+    it('offers to swap lat and lng', () => {
+      const result = validatePlace({ location: { lat: 120.5, lng: 30.2 } })
+
+      expect(result.errors[0]?.fixes?.[0]).toMatchObject({
+        op: 'set',
+        path: 'location',
+        value: { lat: 30.2, lng: 120.5 },
+      })
+    })
+  })
+
+  describe('color', () => {
+    it('requires a valid hex value', () => {
+      expect(validatePlace({ color: { alpha: 1 } }).errors[0]?.message).toBe('Color is missing hex')
+
+      const result = validatePlace({ color: { hex: 'ff0000' } })
+      expect(result.errors[0]?.fixes?.[0]).toMatchObject({ path: 'color.hex', value: '#ff0000' })
+    })
+
+    it('checks channel ranges', () => {
+      const result = validatePlace({ color: { hex: '#fff', alpha: 2, rgb: { r: 300, g: 0, b: 0 } } })
+
+      expect(result.errors.map(e => e.path)).toEqual(['color.alpha', 'color.rgb.r'])
+    })
+
+    it('offers to wrap hex strings', () => {
+      const result = validatePlace({ color: '#00FF00' })
+
+      expect(result.errors[0]?.fixes?.[0]?.value).toEqual({ _type: 'color', hex: '#00ff00' })
+    })
+  })
+
+  describe('email', () => {
+    it('checks the format without an explicit rule', () => {
+      const result = validatePlace({ contact: 'not-an-email' })
+
+      expect(result.errors).toHaveLength(1)
+      expect(result.errors[0]?.message).toBe('Invalid email address: "not-an-email"')
+    })
+
+    it('offers to trim whitespace', () => {
+      const result = validatePlace({ contact: ' hello@example.com ' })
+
+      expect(result.errors[0]?.fixes?.[0]?.value).toBe('hello@example.com')
+    })
+  })
+
+  describe('crossDatasetReference', () => {
+    it('requires _ref, _dataset and _projectId', () => {
+      const result = validatePlace({ product: { _type: 'product' } })
+
+      expect(result.errors.map(e => e.path)).toEqual(['product._ref', 'product._dataset', 'product._projectId'])
+      expect(result.errors[1]?.fixes?.[0]?.value).toBe('shop')
+    })
+
+    it('checks the dataset', () => {
+      const result = validatePlace({ product: { _ref: 'p1', _dataset: 'blog', _projectId: 'abc123' } })
+
+      expect(result.errors[0]?.message).toBe('Reference points to dataset "blog", but this field references "shop"')
+    })
+
+    it('is not resolved against the current dataset', async () => {
+      const resolveReference = vi.fn(async () => null)
+
+      const result = await validateDocumentAsync(
+        { _type: 'place', product: { _ref: 'p1', _dataset: 'shop', _projectId: 'abc123' } },
+        [placeType],
+        { resolveReference }
+      )
+
+      expect(resolveReference).not.toHaveBeenCalled()
+      expect(result.valid).toBe(true)
+    })
+  })
+
+  describe('globalDocumentReference', () => {
+    it('requires the resource in _ref', () => {
+      const result = validatePlace({ asset: { _ref: 'a1' } })
+
+      expect(result.errors[0]?.fixes?.[0]?.value).toBe('media-library:ml123:a1')
+    })
+
+    it('checks the resource', () => {
+      const result = validatePlace({ asset: { _ref: 'dataset:abc.production:a1' } })
+
+      expect(result.errors[0]?.message)
+        .toBe('Reference points to dataset "abc.production", but this field references media-library "ml123"')
+    })
+  })
+
+  describe('span', () => {
+    it('requires text and string marks', () => {
+      const result = validatePlace({ caption: { _type: 'span', marks: [1] } })
+
+      expect(result.errors.map(e => e.message)).toEqual([
+        'Span is missing text',
+        'Expected mark to be a string, got number',
+      ])
+    })
+  })
+
+  describe('as array members', () => {
+    const listType: ManifestSchemaType = {
+      type: 'document',
+      name: 'placeList',
+      fields: [
+        { type: 'array', name: 'points', of: [{ type: 'geopoint' }] },
+        { type: 'array', name: 'colors', of: [{ type: 'color' }] },
+        { type: 'array', name: 'contacts', of: [{ type: 'email' }] },
+        { type: 'array', name: 'products', of: [{ type: 'crossDatasetReference', dataset: 'shop', to: [{ type: 'product' }] }] },
+        {
+          type: 'array',
+          name: 'assets',
+          of: [{ type: 'globalDocumentReference', resourceType: 'media-library', resourceId: 'ml123', to: [{ type: 'sanity.asset' }] }],
+        },
+        { type: 'array', name: 'captions', of: [{ type: 'span' }] },
+      ],
+    }
+
+    function validateList(fields: Record<string, unknown>) {
+      return validateDocument({ _type: 'placeList', ...fields }, [listType])
+    }
+
+    it('accepts valid items', () => {
+      const result = validateList({
+        points: [{ _type: 'geopoint', _key: 'a', lat: 59.91, lng: 10.75 }],
+        colors: [{ _type: 'color', _key: 'a', hex: '#ff0000' }],
+        contacts: ['hello@example.com'],
+        products: [{ _type: 'crossDatasetReference', _key: 'a', _ref: 'p1', _dataset: 'shop', _projectId: 'abc123' }],
+        assets: [{ _type: 'globalDocumentReference', _key: 'a', _ref: 'media-library:ml123:a1' }],
+        captions: [{ _type: 'span', _key: 'a', text: 'Hi', marks: [] }],
+      })
+
+      expect(result.issues).toEqual([])
+    })
+
+    it('checks geopoint items', () => {
+      const result = validateList({ points: [{ _type: 'geopoint', _key: 'a', lat: 500, lng: 'x' }] })
+
+      expect(result.errors.map(e => [e.path, e.code])).toEqual([
+        ['points[0].lat', 'COORDINATE_OUT_OF_RANGE'],
+        ['points[0].lng', 'PROPERTY_TYPE_MISMATCH'],
+      ])
+    })
+
+    it('checks color items', () => {
+      const result = validateList({ colors: [{ _type: 'color', _key: 'a', alpha: 1 }] })
+
+      expect(result.errors[0]?.message).toBe('Color is missing hex')
+    })
+
+    it('checks email items', () => {
+      const result = validateList({ contacts: ['hello@example.com', 'not-an-email'] })
+
+      expect(result.errors.map(e => [e.path, e.message])).toEqual([
+        ['contacts[1]', 'Invalid email address: "not-an-email"'],
+      ])
+    })
+
+    it('checks crossDatasetReference items', () => {
+      const result = validateList({
+        products: [{ _type: 'crossDatasetReference', _key: 'a', _ref: 'p1', _dataset: 'blog', _projectId: 'abc123' }],
+      })
+
+      expect(result.errors[0]?.message).toBe('Reference points to dataset "blog", but this field references "shop"')
+    })
+
+    it('checks globalDocumentReference items', () => {
+      const result = validateList({ assets: [{ _type: 'globalDocumentReference', _key: 'a', _ref: 'a1' }] })
+
+      expect(result.errors[0]?.fixes?.[0]?.value).toBe('media-library:ml123:a1')
+    })
+
+    it('checks span items', () => {
+      const result = validateList({ captions: [{ _type: 'span', _key: 'a', marks: [] }] })
+
+      expect(result.errors.map(e => e.message)).toEqual(['Span is missing text'])
+    })
+  })
+})
+
+describe('asset validation', () => {
+  const mediaType: ManifestSchemaType = {
+    type: 'document',
+    name: 'media',
+    fields: [
+      { type: 'image', name: 'photo', options: { hotspot: true, accept: 'image/png,image/jpeg' } },
+      { type: 'file', name: 'attachment', options: { accept: '.pdf' } },
+      { type: 'captionedImage', name: 'figure' },
+      { type: 'array', name: 'gallery', of: [{ type: 'image' }] },
+    ],
+  }
+  const captionedImageType: ManifestSchemaType = {
+    type: 'image',
+    name: 'captionedImage',
+    fields: [
+      {
+        type: 'string',
+        name: 'caption',
+        validation: [{ rules: [{ flag: 'presence', constraint: 'required' }] }],
+      },
+    ],
+  }
+  const types = [mediaType, captionedImageType]
+
+  function validateMedia(fields: Record<string, unknown>) {
+    return validateDocument({ _type: 'media', ...fields }, types)
+  }
+
+  const imageRef = { _type: 'reference', _ref: 'image-Tb9Ew8CXIwaY6R1kjMvI0uRR-2000x3000-jpg' }
+
+  it('accepts valid asset IDs', () => {
+    const result = validateMedia({
+      photo: { asset: imageRef, hotspot: { x: 0.5, y: 0.5, height: 1, width: 1 } },
+      attachment: { asset: { _ref: 'file-8f3a1b2c-pdf' } },
+    })
+
+    expect(result.issues).toEqual([])
+  })
+
+  it('rejects malformed asset IDs', () => {
+    const result = validateMedia({ photo: { asset: { _ref: 'image-abc' } } })
+
+    expect(result.errors[0]).toMatchObject({
+      path: 'photo.asset._ref',
+      message: 'Invalid image asset ID: "image-abc"',
+      expected: 'image-<hash>-<width>x<height>-<extension>',
+    })
+  })
+
+  it('converts CDN URLs and dotted extensions to asset IDs', () => {
+    const cdn = validateMedia({
+      photo: { asset: { _ref: 'https://cdn.sanity.io/images/abc/production/Tb9Ew8-2000x3000.jpg?w=200' } },
+    })
+    expect(cdn.errors[0]?.fixes?.[0]?.value).toBe('image-Tb9Ew8-2000x3000-jpg')
+
+    const dotted = validateMedia({ attachment: { asset: { _ref: 'file-8f3a1b2c.pdf' } } })
+    expect(dotted.errors[0]?.fixes?.[0]?.value).toBe('file-8f3a1b2c-pdf')
+  })
+
+  it('wraps asset ID strings in a reference', () => {
+    const result = validateMedia({ photo: { asset: imageRef._ref } })
+
+    expect(result.errors[0]?.fixes?.[0]?.value).toEqual(imageRef)
+  })
+
+  it('rejects assets of the wrong kind', () => {
+    const result = validateMedia({ attachment: { asset: imageRef } })
+
+    expect(result.errors[0]?.message).toBe(`Expected file asset, got image asset "${imageRef._ref}"`)
+  })
+
+  it('enforces options.accept', () => {
+    expect(validateMedia({ photo: { asset: { _ref: 'image-abc-10x10-gif' } } }).errors[0]?.message)
+      .toBe('File type "gif" is not accepted')
+    expect(validateMedia({ attachment: { asset: { _ref: 'file-abc-docx' } } }).errors[0]?.message)
+      .toBe('File type "docx" is not accepted')
+    expect(validateMedia({ photo: { asset: { _ref: 'image-abc-10x10-jpeg' } } }).valid).toBe(true)
+  })
+
+  it('checks hotspot and crop ranges', () => {
+    const result = validateMedia({
+      photo: {
+        asset: imageRef,
+        hotspot: { x: 1.5, y: 0.5, height: 0.2 },
+        crop: { top: 0.6, bottom: 0.5, left: 0, right: 0 },
+      },
+    })
+
+    expect(result.errors.map(e => e.message)).toEqual([
+      'Hotspot is missing width',
+      'Expected x to be a number between 0 and 1',
+      'Crop top and bottom remove the whole image',
+    ])
+  })
+
+  it('validates named image types and their fields', () => {
+    const result = validateMedia({ figure: { asset: { _ref: 'image-abc' } } })
+
+    expect(result.errors.map(e => e.path)).toEqual(['figure.asset._ref', 'figure.caption'])
+  })
+
+  it('validates images in arrays', () => {
+    const result = validateMedia({
+      gallery: [{ _type: 'image', _key: 'a', asset: { _ref: 'image-abc' } }],
+    })
+
+    expect(result.errors.map(e => e.path)).toEqual(['gallery[0].asset._ref'])
+  })
+})
+
+describe('conditional fields', () => {
+  const eventType: ManifestSchemaType = {
+    type: 'document',
+    name: 'event',
+    fields: [
+      { type: 'string', name: 'kind' },
+      {
+        type: 'string',
+        name: 'venue',
+        hidden: 'conditional',
+        validation: [{ rules: [{ flag: 'presence', constraint: 'required' }] }],
+      },
+      {
+        type: 'array',
+        name: 'sessions',
+        of: [{
+          type: 'object',
+          name: 'session',
+          fields: [
+            { type: 'string', name: 'kind' },
+            {
+              type: 'url',
+              name: 'streamUrl',
+              hidden: 'conditional',
+              validation: [{ rules: [{ flag: 'presence', constraint: 'required' }] }],
+            },
+          ],
+        }],
+      },
+    ],
+  }
+
+  const evaluateCondition = createConditionEvaluator({
+    'event.venue': { hidden: { path: 'kind', equals: 'online' } },
+    'event.sessions[].streamUrl': { hidden: { path: '^.kind', notEquals: 'live' } },
+  })
+
+  it('skips required checks on hidden fields', () => {
+    const document = {
+      _type: 'event',
+      kind: 'online',
+      sessions: [{ _type: 'session', _key: 'a', kind: 'recorded' }],
+    }
+
+    expect(validateDocument(document, [eventType], { evaluateCondition }).valid).toBe(true)
+  })
+
+  it('requires fields that are visible', () => {
+    const document = {
+      _type: 'event',
+      kind: 'venue',
+      sessions: [{ _type: 'session', _key: 'a', kind: 'live' }],
+    }
+
+    const result = validateDocument(document, [eventType], { evaluateCondition })
+    expect(result.errors.map(e => e.path)).toEqual(['venue', 'sessions[0].streamUrl'])
+  })
+
+  it('treats conditional fields as visible without an evaluator', () => {
+    const result = validateDocument({ _type: 'event', kind: 'online' }, [eventType])
+
+    expect(result.errors.map(e => e.path)).toEqual(['venue'])
+  })
+})
+
+describe('custom rules', () => {
+  const bookType: ManifestSchemaType = {
+    type: 'document',
+    name: 'book',
+    fields: [
+      { type: 'string', name: 'format' },
+      {
+        type: 'string',
+        name: 'isbn',
+        validation: [{ rules: [{ flag: 'custom' }], level: 'warning' }],
+      },
+      {
+        type: 'number',
+        name: 'pages',
+        validation: [{ rules: [{ flag: 'custom' }] }],
+      },
+    ],
+  }
+
+  it('notes custom rules without a validator as info', () => {
+    const result = validateDocument({ _type: 'book', isbn: 'x' }, [bookType], { includeInfo: true })
+
+    expect(result.info.map(i => i.message)).toEqual(['Has custom validation that cannot be evaluated'])
+  })
+
+  it('runs registered validators with the value, parent and document', () => {
+    const validate = vi.fn(({ value }: { value: unknown }) =>
+      typeof value === 'string' && value.length !== 13 ? { message: 'ISBN must have 13 digits' } : undefined
+    )
+    const customRules = createCustomRuleRegistry({ isbn: { path: 'book.isbn', validate } })
+    const document = { _type: 'book', isbn: '123' }
+
+    const result = validateDocument(document, [bookType], { customRules })
+
+    expect(result.warnings).toEqual([{
+      path: 'isbn',
+      message: 'ISBN must have 13 digits',
+      code: 'CUSTOM_RULE',
+      severity: 'warning',
+      rule: { flag: 'custom', constraint: 'isbn' },
+      value: '123',
+      field: { name: 'isbn', type: 'string', title: undefined },
+    }])
+    expect(validate).toHaveBeenCalledWith(expect.objectContaining({ value: '123', parent: document, document }))
+  })
+
+  it('runs validators for missing values', () => {
+    const customRules = createCustomRuleRegistry({
+      pages: {
+        path: 'book.pages',
+        validate: ({ value, document }) =>
+          document['format'] === 'print' && value === undefined ? { message: 'Printed books need a page count' } : undefined,
+      },
+    })
+
+    const result = validateDocument({ _type: 'book', format: 'print' }, [bookType], { customRules })
+    expect(result.errors.map(e => e.message)).toEqual(['Printed books need a page count'])
+  })
+
+  it('reports validators that throw', () => {
+    const customRules = createCustomRuleRegistry({
+      pages: { path: 'book.pages', validate: () => { throw new Error('boom') } },
+    })
+
+    const result = validateDocument({ _type: 'book', pages: 1 }, [bookType], { customRules })
+    expect(result.errors.map(e => e.message)).toEqual(['Custom rule "pages" failed: boom'])
+  })
+
+  it('evaluates async validators with validateDocumentAsync only', async () => {
+    const customRules = createCustomRuleRegistry({
+      pages: {
+        path: 'book.pages',
+        validate: async ({ value }) => [{ message: `Page count ${String(value)} not found`, path: 'pages' }],
+      },
+    })
+    const document = { _type: 'book', pages: 12 }
+
+    const sync = validateDocument(document, [bookType], { customRules, includeInfo: true })
+    expect(sync.valid).toBe(true)
+    expect(sync.info.map(i => i.message)).toEqual([
+      'Custom rule "pages" is async and is only evaluated by validateDocumentAsync',
+    ])
+
+    const result = await validateDocumentAsync(document, [bookType], { customRules })
+    expect(result.errors.map(e => e.message)).toEqual(['Page count 12 not found'])
+  })
+
+  it('finds validators by the object type containing the field', () => {
+    const seoType: ManifestSchemaType = {
+      type: 'object',
+      name: 'seo',
+      fields: [{ type: 'string', name: 'title', validation: [{ rules: [{ flag: 'custom' }] }] }],
+    }
+    const pageType: ManifestSchemaType = {
+      type: 'document',
+      name: 'page',
+      fields: [
+        { type: 'seo', name: 'seo' },
+        { type: 'array', name: 'variants', of: [{ type: 'seo' }] },
+      ],
+    }
+    const validate = vi.fn(({ value }: { value: unknown }) =>
+      typeof value === 'string' && value.length > 10 ? { message: 'SEO title is too long' } : undefined
+    )
+    const customRules = createCustomRuleRegistry({ seoTitle: { path: 'seo.title', validate } })
+
+    const result = validateDocument({
+      _type: 'page',
+      seo: { title: 'A very long title' },
+      variants: [{ _type: 'seo', _key: 'a', title: 'Short' }, { _type: 'seo', _key: 'b', title: 'Another long title' }],
+    }, [pageType, seoType], { customRules })
+
+    expect(result.errors.map(e => e.path)).toEqual(['seo.title', 'variants[1].title'])
+    expect(validate).toHaveBeenCalledWith(expect.objectContaining({ path: 'variants[1].title', typeKey: 'seo.title' }))
+  })
+
+  it('keeps codes returned by validators', () => {
+    const customRules = createCustomRuleRegistry({
+      isbn: { path: 'book.isbn', validate: () => ({ message: 'ISBN is required', code: 'REQUIRED' }) },
+    })
+
+    const result = validateDocument({ _type: 'book' }, [bookType], { customRules })
+    expect(result.warnings.map(w => w.code)).toEqual(['REQUIRED'])
+  })
+})
+
+describe('issue codes', () => {
+  it('sets a code on every issue', () => {
+    const result = validateDocument({
+      _type: 'article',
+      title: 42,
+      description: 'Too short',
+      status: 'archived',
+      email: 'not-an-email',
+      author: { _type: 'reference', _ref: 'x', _weak: 'yes' },
+      tags: [],
+      mainImage: { _type: 'image' },
+      extra: true,
+    }, allTypes, { includeInfo: true })
+
+    expect(result.issues.length).toBeGreaterThan(0)
+    for (const issue of result.issues) {
+      expect(Object.values(IssueCode)).toContain(issue.code)
+    }
+  })
+
+  it('tells issue kinds apart without a rule', () => {
+    const result = validateDocument({
+      _type: 'article',
+      title: 42,
+      status: 'archived',
+      tags: [{ _type: 'object' }],
+    }, allTypes)
+
+    expect(result.errors.map(e => [e.path, e.code])).toEqual([
+      ['title', IssueCode.TYPE_MISMATCH],
+      ['slug', IssueCode.REQUIRED],
+      ['status', IssueCode.LIST_OPTION_INVALID],
+      ['tags[0]._type', IssueCode.ARRAY_ITEM_TYPE_NOT_ALLOWED],
+    ])
+  })
+
+  it('sets codes on document type issues', () => {
+    expect(validateDocument({}, allTypes).errors[0]?.code).toBe(IssueCode.MISSING_DOCUMENT_TYPE)
+    expect(validateDocument({ _type: 'page' }, allTypes).errors[0]?.code).toBe(IssueCode.UNKNOWN_DOCUMENT_TYPE)
+  })
+})
+
+describe('validation groups', () => {
+  const pageType: ManifestSchemaType = {
+    type: 'document',
+    name: 'page',
+    fields: [
+      {
+        type: 'string',
+        name: 'seoTitle',
+        validation: [
+          { rules: [{ flag: 'presence', constraint: 'required' }] },
+          {
+            rules: [{ flag: 'max', constraint: 60 }],
+            level: 'warning',
+            message: 'SEO title should be under 60 chars',
+          },
+        ],
+      },
+      {
+        type: 'number',
+        name: 'priority',
+        validation: [
+          { rules: [{ flag: 'integer' }], level: 'info' },
+          { rules: [{ flag: 'positive' }], message: 'Priority must be above zero' },
+        ],
+      },
+      {
+        type: 'string',
+        name: 'summary',
+        validation: [
+          {
+            rules: [{ flag: 'presence', constraint: 'required' }],
+            level: 'warning',
+            message: 'Add a summary before publishing',
+          },
+        ],
+      },
+    ],
+  }
+
+  it('uses the group level and message for rule violations', () => {
+    const result = validateDocument(
+      { _type: 'page', seoTitle: 'x'.repeat(61), summary: 'Hi' },
+      [pageType]
+    )
+
+    expect(result.valid).toBe(true)
+    expect(result.warnings).toHaveLength(1)
+    expect(result.warnings[0]?.path).toBe('seoTitle')
+    expect(result.warnings[0]?.message).toBe('SEO title should be under 60 chars')
+  })
+
+  it('uses the group level and message for required fields', () => {
+    const result = validateDocument({ _type: 'page', seoTitle: 'Hello' }, [pageType])
+
+    expect(result.valid).toBe(true)
+    const summaryWarning = result.warnings.find(w => w.path === 'summary')
+    expect(summaryWarning?.message).toBe('Add a summary before publishing')
+  })
+
+  it('keeps groups separate', () => {
+    const result = validateDocument(
+      { _type: 'page', seoTitle: 'Hello', summary: 'Hi', priority: -1.5 },
+      [pageType],
+      { includeInfo: true }
+    )
+
+    expect(result.errors).toHaveLength(1)
+    expect(result.errors[0]?.message).toBe('Priority must be above zero')
+    expect(result.info.some(i => i.path === 'priority' && i.rule?.flag === 'integer')).toBe(true)
+  })
+
+  it('omits warnings and info when filtered out', () => {
+    const result = validateDocument(
+      { _type: 'page', seoTitle: 'x'.repeat(61), summary: 'Hi', priority: 1.5 },
+      [pageType],
+      { includeWarnings: false }
+    )
+
+    expect(result.issues).toHaveLength(0)
+    expect(result.summary).toBe('Document is valid')
+  })
+})
+
+describe('unique arrays', () => {
+  it('reports duplicate array items', () => {
+    const listType: ManifestSchemaType = {
+      type: 'document',
+      name: 'list',
+      fields: [
+        {
+          type: 'array',
+          name: 'tags',
+          of: [{ type: 'string' }],
+          validation: [{ rules: [{ flag: 'unique' }] }],
+        },
+      ],
+    }
+
+    const result = validateDocument({ _type: 'list', tags: ['a', 'b', 'a'] }, [listType])
+
+    expect(result.valid).toBe(false)
+    expect(result.errors[0]?.path).toBe('tags[2]')
+    expect(result.errors[0]?.message).toBe('Duplicate of item 0')
+  })
+})
+
+describe('unknown fields', () => {
+  const validBase = { _type: 'article', _id: 'a', _rev: 'r', title: 'Hi', slug: { current: 'hi' } }
+
+  it('reports undeclared fields as warnings with suggestions', () => {
+    const result = validateDocument({ ...validBase, tittle: 'Typo' }, allTypes)
+
+    expect(result.valid).toBe(true)
+    expect(result.warnings).toHaveLength(1)
+    expect(result.warnings[0]).toMatchObject({
+      path: 'tittle',
+      message: 'Unknown field "tittle"',
+      suggestions: ['Did you mean "title"?'],
+    })
+  })
+
+  it('offers a rename only when the target is not set', () => {
+    const result = validateDocument({ ...validBase, tittle: 'Typo', ratng: 4 }, allTypes)
+
+    expect(result.warnings.find(w => w.path === 'tittle')?.fixes).toEqual([
+      { op: 'unset', path: 'tittle', description: 'Remove "tittle"' },
+    ])
+    expect(result.warnings.find(w => w.path === 'ratng')?.fixes?.[0]).toEqual({
+      op: 'rename',
+      path: 'ratng',
+      to: 'rating',
+      value: 4,
+      description: 'Rename to "rating"',
+    })
+  })
+
+  it('ignores system keys', () => {
+    const result = validateDocument(
+      { ...validBase, _createdAt: '2024-01-01', _updatedAt: '2024-01-01', _custom: true },
+      allTypes
+    )
+
+    expect(result.issues).toEqual([])
+  })
+
+  it('checks nested objects, array members and assets', () => {
+    const pageType: ManifestSchemaType = {
+      type: 'document',
+      name: 'page',
+      fields: [
+        { type: 'seo', name: 'seo' },
+        { type: 'array', name: 'items', of: [{ type: 'object', name: 'item', fields: [{ type: 'string', name: 'label' }] }] },
+        { type: 'image', name: 'image' },
+      ],
+    }
+    const seoType: ManifestSchemaType = {
+      type: 'object',
+      name: 'seo',
+      fields: [{ type: 'string', name: 'description' }],
+    }
+
+    const result = validateDocument(
+      {
+        _type: 'page',
+        seo: { description: 'Ok', descripton: 'Typo' },
+        items: [{ _type: 'item', _key: 'a', lable: 'Typo' }],
+        image: { asset: { _ref: 'image-abc-10x10-png' }, hotspot: {}, caption: 'Extra' },
+      },
+      [pageType, seoType]
+    )
+
+    expect(result.warnings.map(w => w.path)).toEqual(['seo.descripton', 'items[0].lable', 'image.caption'])
+    expect(result.warnings[2]?.suggestions).toEqual(['Remove "caption" or add it to the schema'])
+  })
+
+  it('uses the configured severity', () => {
+    const document = { ...validBase, tittle: 'Typo' }
+
+    expect(validateDocument(document, allTypes, { unknownFields: 'error' }).errors[0]?.path).toBe('tittle')
+    expect(validateDocument(document, allTypes, { unknownFields: 'ignore' }).issues).toEqual([])
+  })
+})
+
+describe('portable text validation', () => {
+  const postType: ManifestSchemaType = {
+    type: 'document',
+    name: 'post',
+    fields: [
+      {
+        type: 'array',
+        name: 'body',
+        of: [
+          {
+            type: 'block',
+            styles: [
+              { value: 'normal', title: 'Normal' },
+              { value: 'h2', title: 'Heading 2' },
+            ],
+            lists: [{ value: 'bullet', title: 'Bullets' }],
+            marks: {
+              decorators: [{ value: 'strong', title: 'Strong' }],
+              annotations: [
+                {
+                  type: 'object',
+                  name: 'link',
+                  fields: [
+                    {
+                      type: 'url',
+                      name: 'href',
+                      validation: [{ rules: [{ flag: 'presence', constraint: 'required' }] }],
+                    },
+                  ],
+                },
+              ],
+            },
+          },
+        ],
+      },
+      {
+        type: 'array',
+        name: 'defaults',
+        of: [{ type: 'block' }],
+      },
+    ],
+  }
+
+  function block(overrides: Record<string, unknown> = {}) {
+    return {
+      _type: 'block',
+      _key: 'b1',
+      style: 'normal',
+      markDefs: [],
+      children: [{ _type: 'span', _key: 's1', text: 'Hello', marks: [] }],
+      ...overrides,
+    }
+  }
+
+  function validate(body: unknown[], field = 'body') {
+    return validateDocument({ _type: 'post', [field]: body }, [postType])
+  }
+
+  it('accepts a valid block', () => {
+    const result = validate([
+      block({
+        style: 'h2',
+        listItem: 'bullet',
+        markDefs: [{ _type: 'link', _key: 'l1', href: 'https://example.com' }],
+        children: [{ _type: 'span', _key: 's1', text: 'Hi', marks: ['strong', 'l1'] }],
+      }),
+    ])
+
+    expect(result.issues).toHaveLength(0)
+  })
+
+  it('reports styles that are not allowed', () => {
+    const result = validate([block({ style: 'h5' })])
+
+    const styleError = result.errors.find(e => e.path === 'body[0].style')
+    expect(styleError?.message).toBe('Block style "h5" is not allowed')
+    expect(styleError?.expected).toBe('one of: normal, h2')
+  })
+
+  it('reports list types that are not allowed', () => {
+    const result = validate([block({ listItem: 'number' })])
+
+    expect(result.errors.find(e => e.path === 'body[0].listItem')?.message)
+      .toBe('List type "number" is not allowed')
+  })
+
+  it('reports decorators that are not allowed', () => {
+    const result = validate([
+      block({ children: [{ _type: 'span', _key: 's1', text: 'x', marks: ['code'] }] }),
+    ])
+
+    expect(result.errors.find(e => e.path === 'body[0].children[0].marks[0]')?.message)
+      .toBe('Decorator "code" is not allowed')
+  })
+
+  it('reports marks without a mark definition', () => {
+    const result = validate([
+      block({ children: [{ _type: 'span', _key: 's1', text: 'x', marks: ['missing'] }] }),
+    ])
+
+    expect(result.errors.find(e => e.path === 'body[0].children[0].marks[0]')?.message)
+      .toContain('not an allowed decorator or a mark definition key')
+  })
+
+  it('reports unused mark definitions', () => {
+    const result = validate([
+      block({ markDefs: [{ _type: 'link', _key: 'l1', href: 'https://example.com' }] }),
+    ])
+
+    expect(result.valid).toBe(true)
+    expect(result.warnings.find(w => w.path === 'body[0].markDefs[0]')?.message)
+      .toBe('Mark definition "l1" is not used by any span')
+  })
+
+  it('validates mark definitions against annotation schemas', () => {
+    const result = validate([
+      block({
+        markDefs: [
+          { _type: 'link', _key: 'l1' },
+          { _type: 'comment', _key: 'c1' },
+        ],
+        children: [{ _type: 'span', _key: 's1', text: 'x', marks: ['l1', 'c1'] }],
+      }),
+    ])
+
+    expect(result.errors.find(e => e.path === 'body[0].markDefs[0].href')?.message).toContain('required')
+    expect(result.errors.find(e => e.path === 'body[0].markDefs[1]._type')?.message)
+      .toBe('Annotation "comment" is not allowed')
+  })
+
+  describe('inline objects', () => {
+    const productType: ManifestSchemaType = {
+      type: 'object',
+      name: 'product',
+      fields: [
+        {
+          type: 'string',
+          name: 'sku',
+          validation: [{ rules: [{ flag: 'presence', constraint: 'required' }] }],
+        },
+      ],
+    }
+
+    const pageType: ManifestSchemaType = {
+      type: 'document',
+      name: 'page',
+      fields: [
+        {
+          type: 'array',
+          name: 'body',
+          of: [
+            {
+              type: 'block',
+              of: [
+                { type: 'product' },
+                { type: 'reference', name: 'productRef', to: [{ type: 'productPage' }] },
+              ],
+            },
+          ],
+        },
+      ],
+    }
+
+    function validateChildren(children: unknown[]) {
+      return validateDocument(
+        { _type: 'page', body: [{ _type: 'block', _key: 'b1', markDefs: [], children }] },
+        [pageType, productType]
+      )
+    }
+
+    it('validates inline objects against their type', () => {
+      const result = validateChildren([
+        { _type: 'span', _key: 's1', text: 'Buy ' },
+        { _type: 'product', _key: 'p1' },
+      ])
+
+      expect(result.errors.find(e => e.path === 'body[0].children[1].sku')?.message).toContain('required')
+    })
+
+    it('validates inline references', () => {
+      const valid = validateChildren([{ _type: 'productRef', _key: 'r1', _ref: 'product-1' }])
+      const invalid = validateChildren([{ _type: 'productRef', _key: 'r1' }])
+
+      expect(valid.valid).toBe(true)
+      expect(invalid.errors.find(e => e.path === 'body[0].children[0]._ref')?.message).toContain('missing _ref')
+    })
+
+    it('reports unknown inline types with the allowed types', () => {
+      const result = validateChildren([{ _type: 'video', _key: 'v1' }])
+
+      const typeError = result.errors.find(e => e.path === 'body[0].children[0]._type')
+      expect(typeError?.message).toBe('Inline type "video" is not allowed in this block')
+      expect(typeError?.suggestions).toEqual(['Change _type to "product"', 'Change _type to "productRef"'])
+    })
+  })
+
+  it('uses Sanity defaults when the block declares no styles or marks', () => {
+    const result = validate(
+      [
+        block({
+          style: 'h5',
+          listItem: 'number',
+          markDefs: [{ _type: 'link', _key: 'l1', href: 'https://example.com' }],
+          children: [{ _type: 'span', _key: 's1', text: 'x', marks: ['code', 'l1'] }],
+        }),
+        block({ _key: 'b2', style: 'h7' }),
+      ],
+      'defaults'
+    )
+
+    expect(result.errors.map(e => e.path)).toEqual(['defaults[1].style'])
+  })
+})
+
+describe('validateDocumentAsync', () => {
+  const postType: ManifestSchemaType = {
+    type: 'document',
+    name: 'post',
+    fields: [
+      { type: 'reference', name: 'author', to: [{ type: 'author' }] },
+      {
+        type: 'array',
+        name: 'related',
+        of: [{ type: 'reference', to: [{ type: 'post' }] }],
+      },
+      {
+        type: 'array',
+        name: 'body',
+        of: [
+          {
+            type: 'block',
+            marks: {
+              annotations: [
+                {
+                  type: 'object',
+                  name: 'internalLink',
+                  fields: [
+                    { type: 'reference', name: 'reference', to: [{ type: 'post' }] },
+                  ],
+                },
+              ],
+            },
+          },
+        ],
+      },
+    ],
+  }
+
+  const types: ManifestSchemaType[] = [postType]
+  const existing: Record<string, string> = {
+    'author-1': 'author',
+    'post-1': 'post',
+    'category-1': 'category',
+  }
+  const resolveReference = async (id: string) => existing[id] ?? null
+
+  it('passes when references resolve to allowed types', async () => {
+    const result = await validateDocumentAsync(
+      {
+        _type: 'post',
+        author: { _type: 'reference', _ref: 'author-1' },
+        related: [{ _type: 'reference', _key: 'a', _ref: 'post-1' }],
+      },
+      types,
+      { resolveReference }
+    )
+
+    expect(result.valid).toBe(true)
+  })
+
+  it('reports dangling references', async () => {
+    const result = await validateDocumentAsync(
+      { _type: 'post', author: { _type: 'reference', _ref: 'author-404' } },
+      types,
+      { resolveReference }
+    )
+
+    expect(result.valid).toBe(false)
+    const refError = result.errors.find(e => e.path === 'author._ref')
+    expect(refError?.message).toContain('does not exist')
+  })
+
+  it('allows dangling weak references', async () => {
+    const result = await validateDocumentAsync(
+      { _type: 'post', author: { _type: 'reference', _ref: 'author-404', _weak: true } },
+      types,
+      { resolveReference }
+    )
+
+    expect(result.valid).toBe(true)
+  })
+
+  it('reports references to types not in the field targets', async () => {
+    const result = await validateDocumentAsync(
+      {
+        _type: 'post',
+        related: [{ _type: 'reference', _key: 'a', _ref: 'author-1' }],
+      },
+      types,
+      { resolveReference }
+    )
+
+    const refError = result.errors.find(e => e.path === 'related[0]._ref')
+    expect(refError?.message).toContain('Reference to "author" is not allowed')
+    expect(refError?.expected).toBe('reference to: post')
+  })
+
+  it('checks references inside portable text annotations', async () => {
+    const result = await validateDocumentAsync(
+      {
+        _type: 'post',
+        body: [
+          {
+            _type: 'block',
+            _key: 'b1',
+            children: [{ _type: 'span', _key: 's1', text: 'Hi', marks: ['m1'] }],
+            markDefs: [
+              { _type: 'internalLink', _key: 'm1', reference: { _type: 'reference', _ref: 'category-1' } },
+            ],
+          },
+        ],
+      },
+      types,
+      { resolveReference }
+    )
+
+    const refError = result.errors.find(e => e.path === 'body[0].markDefs[0].reference._ref')
+    expect(refError?.message).toContain('Reference to "category" is not allowed')
+  })
+
+  it('resolves each document ID once', async () => {
+    const resolver = vi.fn(resolveReference)
+
+    await validateDocumentAsync(
+      {
+        _type: 'post',
+        author: { _type: 'reference', _ref: 'author-1' },
+        related: [
+          { _type: 'reference', _key: 'a', _ref: 'post-1' },
+          { _type: 'reference', _key: 'b', _ref: 'post-1' },
+        ],
+      },
+      types,
+      { resolveReference: resolver }
+    )
+
+    expect(resolver).toHaveBeenCalledTimes(2)
+  })
+
+  it('limits concurrent lookups', async () => {
+    let active = 0
+    let maxActive = 0
+    const resolver = async (id: string) => {
+      active++
+      maxActive = Math.max(maxActive, active)
+      await new Promise((resolve) => setTimeout(resolve, 1))
+      active--
+      return existing[id] ?? 'post'
+    }
+
+    await validateDocumentAsync(
+      {
+        _type: 'post',
+        related: ['a', 'b', 'c', 'd', 'e'].map((k) => ({ _type: 'reference', _key: k, _ref: `post-${k}` })),
+      },
+      types,
+      { resolveReference: resolver, referenceConcurrency: 2 }
+    )
+
+    expect(maxActive).toBe(2)
+  })
+
+  it('falls back to the default concurrency for invalid values', async () => {
+    const resolver = vi.fn(resolveReference)
+    const document = {
+      _type: 'post',
+      related: ['a', 'b'].map((k) => ({ _type: 'reference', _key: k, _ref: `post-${k}` })),
+    }
+
+    for (const referenceConcurrency of [NaN, 0, -1]) {
+      resolver.mockClear()
+      await validateDocumentAsync(document, types, { resolveReference: resolver, referenceConcurrency })
+
+      expect(resolver).toHaveBeenCalledTimes(2)
+    }
+  })
+
+  it('reports unique values used by other documents', async () => {
+    const articleWithSku: ManifestSchemaType = {
+      type: 'document',
+      name: 'product',
+      fields: [
+        { type: 'slug', name: 'slug' },
+        { type: 'string', name: 'sku', validation: [{ rules: [{ flag: 'unique' }] }] },
+      ],
+    }
+    const checkUnique = vi.fn(async ({ queryPath }: { queryPath: string }) =>
+      queryPath === 'sku' ? ['product-2'] : []
+    )
+
+    const result = await validateDocumentAsync(
+      { _type: 'product', _id: 'product-1', slug: { current: 'shoe' }, sku: 'SKU-1' },
+      [articleWithSku],
+      { checkUnique }
+    )
+
+    expect(checkUnique).toHaveBeenCalledWith(expect.objectContaining({
+      documentId: 'product-1',
+      documentType: 'product',
+      path: 'slug.current',
+      value: 'shoe',
+    }))
+    const skuError = result.errors.find(e => e.path === 'sku')
+    expect(skuError?.message).toBe('"SKU-1" is already used by document product-2')
+    expect(result.errors.some(e => e.path === 'slug.current')).toBe(false)
+  })
+
+  it('returns the synchronous result without a resolver', async () => {
+    const doc = { _type: 'post', author: { _type: 'reference', _ref: 'author-404' } }
+
+    const result = await validateDocumentAsync(doc, types)
+
+    expect(result).toEqual(validateDocument(doc, types))
+  })
+})
+
+describe('structured fixes', () => {
+  it('offers list options as set operations', () => {
+    const result = validateDocument(
+      { _type: 'article', title: 'Hi', slug: { current: 'hi' }, status: 'live' },
+      allTypes
+    )
+
+    const statusError = result.errors.find(e => e.path === 'status')
+    expect(statusError?.fixes).toEqual([
+      { op: 'set', path: 'status', value: 'draft', description: 'Use "draft"' },
+      { op: 'set', path: 'status', value: 'published', description: 'Use "published"' },
+    ])
+  })
+
+  it('offers conversions for type mismatches', () => {
+    const result = validateDocument(
+      { _type: 'article', title: 'Hi', slug: { current: 'hi' }, rating: '4', tags: 'news' },
+      allTypes
+    )
+
+    expect(result.errors.find(e => e.path === 'rating')?.fixes?.[0])
+      .toMatchObject({ op: 'set', path: 'rating', value: 4 })
+    expect(result.errors.find(e => e.path === 'tags')?.fixes?.[0])
+      .toMatchObject({ op: 'set', path: 'tags', value: ['news'] })
+  })
+
+  it('offers slugified values and truncation', () => {
+    const result = validateDocument(
+      { _type: 'article', title: 'x'.repeat(101), slug: { current: 'Hello World' } },
+      allTypes
+    )
+
+    expect(result.warnings.find(w => w.path === 'slug.current')?.fixes?.[0])
+      .toMatchObject({ op: 'set', path: 'slug.current', value: 'hello-world' })
+    expect(result.errors.find(e => e.path === 'title')?.fixes?.[0])
+      .toMatchObject({ op: 'set', path: 'title', value: 'x'.repeat(100) })
+  })
+
+  it('offers generated keys for array items', () => {
+    const listType: ManifestSchemaType = {
+      type: 'document',
+      name: 'list',
+      fields: [{ type: 'array', name: 'items', of: [{ type: 'object', name: 'item', fields: [] }] }],
+    }
+
+    const result = validateDocument({ _type: 'list', items: [{ _type: 'item' }] }, [listType])
+
+    const fix = result.warnings[0]?.fixes?.[0]
+    expect(fix?.op).toBe('set')
+    expect(fix?.path).toBe('items[0]._key')
+    expect(fix?.value).toMatch(/^[a-z0-9]{12}$/)
+  })
+
+  it('is included in the agent format', () => {
+    const result = validateDocument({ _type: 'article', status: 'live' }, allTypes)
+
+    const statusError = formatValidationForAgent(result).errors.find(e => e.path === 'status')
+    expect(statusError?.fixes).toHaveLength(2)
+  })
+})
+
+describe('key-based paths', () => {
+  const listType: ManifestSchemaType = {
+    type: 'document',
+    name: 'list',
+    fields: [{
+      type: 'array',
+      name: 'items',
+      of: [{
+        type: 'object',
+        name: 'item',
+        fields: [{ type: 'string', name: 'size', options: { list: ['s', 'm'] } }],
+      }],
+    }],
+  }
+  const document = {
+    _type: 'list',
+    items: [
+      { _type: 'item', _key: 'a', size: 's' },
+      { _type: 'item', _key: 'b', size: 'xl' },
+      { _type: 'item', size: 'xxl' },
+    ],
+  }
+
+  it('addresses array items by _key with keyedPaths', () => {
+    const result = validateDocument(document, [listType], { keyedPaths: true })
+
+    expect(result.errors.map(e => e.path)).toEqual(['items[_key=="b"].size', 'items[2].size'])
+    expect(result.errors[0]?.fixes?.[0]).toMatchObject({ op: 'set', path: 'items[_key=="b"].size', value: 's' })
+    expect(result.warnings.map(w => w.path)).toEqual(['items[2]'])
+  })
+
+  it('uses index paths by default', async () => {
+    expect(validateDocument(document, [listType]).errors.map(e => e.path)).toEqual(['items[1].size', 'items[2].size'])
+
+    const result = await validateDocumentAsync(document, [listType], { keyedPaths: true })
+    expect(result.errors.map(e => e.path)).toEqual(['items[_key=="b"].size', 'items[2].size'])
+  })
+})
+
+describe('toPatchOperations', () => {
+  it('converts each operation to a Sanity patch', () => {
+    expect(toPatchOperations({ op: 'set', path: 'status', value: 'draft', description: '' }))
+      .toEqual({ set: { status: 'draft' } })
+    expect(toPatchOperations({ op: 'unset', path: 'tags[2]', description: '' }))
+      .toEqual({ unset: ['tags[2]'] })
+    expect(toPatchOperations({ op: 'insert', path: 'tags[-1]', value: ['a'], description: '' }))
+      .toEqual({ insert: { after: 'tags[-1]', items: ['a'] } })
+    expect(toPatchOperations({ op: 'rename', path: 'tittle', to: 'title', value: 'Hi', description: '' }))
+      .toEqual({ set: { title: 'Hi' }, unset: ['tittle'] })
+  })
+})
+
 describe('formatValidationIssues', () => {
   it('formats valid result', () => {
     const result = validateDocument(
@@ -1,11 +1,20 @@
+import type { PatchOperations } from '@sanity/client'
 import type {
   ManifestSchemaType,
   ManifestField,
+  ManifestValidationGroup,
   ManifestValidationRule,
   ManifestArrayMember,
   ManifestReferenceMember,
 } from './types.js'
-import { getValidationRules } from './helpers.js'
+import type { ConditionEvaluator } from './conditions.js'
+import type { CustomRuleRegistry, CustomRuleResult } from './rules.js'
+import type { MessageId, MessageParams } from './messages.js'
+import type { IssueCode } from './codes.js'
+import { getValidationRules, generateKey, hasHotspot } from './helpers.js'
+import { evaluateFieldCondition } from './conditions.js'
+import { getParentPath, getValueAtPath, toKeyedPath } from './paths.js'
+import { formatMessage } from './messages.js'
 
 /**
  * Severity level for validation issues.
@@ -20,6 +29,8 @@ export interface ValidationIssue {
   path: string
   /** Human-readable error message */
   message: string
+  /** Stable code for the kind of issue, see `IssueCode` */
+  code: IssueCode
   /** Severity level */
   severity: ValidationSeverity
   /** The validation rule that was violated */
@@ -39,6 +50,32 @@ export interface ValidationIssue {
   }
   /** Suggestions for fixing the issue (useful for agents) */
   suggestions?: string[]
+  /** Machine-applicable fixes, as alternatives in order of preference */
+  fixes?: ValidationFix[]
+}
+
+/**
+ * A machine-applicable fix for a validation issue, modelled on Sanity patch operations.
+ *
+ * Paths use the same format as `ValidationIssue.path`, which Sanity patches accept.
+ * Use `toPatchOperations` to turn a fix into a patch for `client.patch()`.
+ */
+export interface ValidationFix {
+  /**
+   * - `set`: set `path` to `value`
+   * - `unset`: remove `path`
+   * - `insert`: insert the `value` items after the array item at `path`
+   * - `rename`: move the `value` at `path` to `to`
+   */
+  op: 'set' | 'unset' | 'insert' | 'rename'
+  /** Path the operation applies to */
+  path: string
+  /** The value to set, the items to insert, or the value to move */
+  value?: unknown
+  /** Target path for `rename` */
+  to?: string
+  /** Human-readable description of the fix */
+  description: string
 }
 
 /**
@@ -71,10 +108,83 @@ export interface ValidateOptions {
   includeInfo?: boolean
   /** Stop after first error (default: false) */
   stopOnFirstError?: boolean
-  /** Custom type lookup for references (returns type definition for a document ID) */
+  /**
+   * Severity for fields that are not declared in the schema, or 'ignore' to
+   * skip the check (default: 'warning'). Keys starting with `_` are never reported.
+   */
+  unknownFields?: ValidationSeverity | 'ignore'
+  /**
+   * Address array items by `_key` in issue and fix paths, e.g.
+   * `body[_key=="a1"].children[_key=="s1"].text` instead of `body[0].children[0].text`
+   * (default: false). Key-based paths survive reordering; items without a
+   * `_key` keep their index.
+   */
+  keyedPaths?: boolean
+  /**
+   * Locale for messages, e.g. "nb" or "de-AT" (default: "en"). Register
+   * messages for a locale with `registerLocale`. Messages from the schema are
+   * used as-is.
+   */
+  locale?: string
+  /**
+   * Decides whether fields with conditional `hidden`/`readOnly` are currently
+   * hidden or read-only. Hidden fields are not required; see `createConditionEvaluator`.
+   */
+  evaluateCondition?: ConditionEvaluator
+  /**
+   * Validators for `custom` rules, which the deployed schema can't express.
+   * Async validators are only evaluated by `validateDocumentAsync`.
+   */
+  customRules?: CustomRuleRegistry
+  /**
+   * Resolves a referenced document ID to its `_type`, or null if the document
+   * does not exist. Only used by `validateDocumentAsync`.
+   */
   resolveReference?: (id: string) => Promise<string | null>
+  /** Maximum number of concurrent `resolveReference` calls (default: 10, also used for values below 1) */
+  referenceConcurrency?: number
+  /**
+   * Looks up other documents that use the same value for a unique field.
+   * Only used by `validateDocumentAsync` and `validateDocuments`.
+   */
+  checkUnique?: UniquenessChecker
+}
+
+/**
+ * Options passed down while validating fields, with the document being
+ * validated for evaluating conditional fields and custom rules.
+ */
+interface FieldValidationOptions extends ValidateOptions {
+  document?: Record<string, unknown>
+  /** The innermost named object type being validated, and its path in the document */
+  objectType?: { name: string; path: string }
+  /** Collects results of async custom rules when validating asynchronously */
+  pendingIssues?: Promise<ValidationIssue[]>[]
+}
+
+/**
+ * A value that must be unique across documents of the same type.
+ */
+export interface UniqueValueContext {
+  /** ID of the document being validated, if it has one */
+  documentId?: string
+  /** Type of the document being validated */
+  documentType: string
+  /** Path to the value in the document (e.g., "slug.current") */
+  path: string
+  /** GROQ path to the value, with `[]` for arrays (e.g., "variants[].sku") */
+  queryPath: string
+  /** The value that must be unique */
+  value: string | number | boolean
+  /** Field information for context */
+  field?: ValidationIssue['field']
 }
 
+/**
+ * Returns the IDs of other documents that already use a unique value.
+ */
+export type UniquenessChecker = (context: UniqueValueContext) => Promise<string[]>
+
 /**
  * Helper for early returns when validation cannot proceed (missing/invalid _type).
  */
@@ -124,25 +234,52 @@ export function validateDocument(
   schemaTypes: ManifestSchemaType[],
   options: ValidateOptions = {}
 ): ValidationResult {
-  const {
-    includeWarnings = true,
-    includeInfo = false,
-    stopOnFirstError = false,
-  } = options
+  return validateWithTypeMap(document, createTypeMap(schemaTypes), options)
+}
+
+/**
+ * Index schema types by name for validation.
+ */
+export function createTypeMap(schemaTypes: ManifestSchemaType[]): Map<string, ManifestSchemaType> {
+  return new Map(schemaTypes.map((t) => [t.name, t]))
+}
+
+/**
+ * Validates a document against a prebuilt type map.
+ *
+ * Used by batch validation to avoid re-indexing the schema for every document.
+ */
+export function validateWithTypeMap(
+  document: Record<string, unknown>,
+  typeMap: Map<string, ManifestSchemaType>,
+  options: ValidateOptions = {}
+): ValidationResult {
+  return validateDocumentFields(document, typeMap, options)
+}
+
+/**
+ * Validates a document's fields, with the internal options used by async validation.
+ */
+function validateDocumentFields(
+  document: Record<string, unknown>,
+  typeMap: Map<string, ManifestSchemaType>,
+  options: FieldValidationOptions
+): ValidationResult {
+  const { stopOnFirstError = false } = options
 
   const issues: ValidationIssue[] = []
-  const typeMap = new Map(schemaTypes.map((t) => [t.name, t]))
 
   // Check document has _type
   const docType = document['_type']
   if (!docType || typeof docType !== 'string') {
-    const documentTypes = schemaTypes
+    const documentTypes = Array.from(typeMap.values())
       .filter((t) => t.type === 'document')
       .map((t) => t.name)
 
     issues.push({
       path: '_type',
-      message: 'Document is missing required _type field',
+      message: localize(options, 'MISSING_DOCUMENT_TYPE'),
+      code: 'MISSING_DOCUMENT_TYPE',
       severity: 'error',
       expected: `string (document type name)`,
       suggestions: documentTypes.length > 0
@@ -157,13 +294,14 @@ export function validateDocument(
   // Look up the schema type
   const schemaType = typeMap.get(docType)
   if (!schemaType) {
-    const documentTypes = schemaTypes
+    const documentTypes = Array.from(typeMap.values())
       .filter((t) => t.type === 'document')
       .map((t) => t.name)
 
     issues.push({
       path: '_type',
-      message: `Unknown document type "${docType}"`,
+      message: localize(options, 'UNKNOWN_DOCUMENT_TYPE', { type: docType }),
+      code: 'UNKNOWN_DOCUMENT_TYPE',
       severity: 'error',
       value: docType,
       expected: `one of: ${documentTypes.slice(0, 10).join(', ')}${documentTypes.length > 10 ? '...' : ''}`,
@@ -186,12 +324,165 @@ export function validateDocument(
         field,
         field.name,
         typeMap,
-        options
+        { ...options, document }
       )
       issues.push(...fieldIssues)
     }
   }
 
+  issues.push(...checkUnknownFields(document, schemaType.fields ?? [], '', options))
+
+  return buildResult(options.keyedPaths ? withKeyedPaths(issues, document) : issues, schemaType.name, options)
+}
+
+/**
+ * Validates a document against its schema type, resolving references.
+ *
+ * Runs the same checks as {@link validateDocument}, then calls
+ * `options.resolveReference` for every `_ref` found in the document - including
+ * references nested in arrays, objects and portable text annotations. Dangling
+ * references and references to types not listed in the field's `to` targets
+ * are reported as errors. Each document ID is resolved only once.
+ *
+ * When `options.checkUnique` is set, slug fields and fields with a `unique`
+ * rule are checked against other documents of the same type.
+ *
+ * @param document - The document to validate (must have `_type` field)
+ * @param schemaTypes - All schema types from the schema
+ * @param options - Validation options
+ * @returns Detailed validation result
+ *
+ * @example
+ * ```ts
+ * const result = await validateDocumentAsync(myDocument, allTypes, {
+ *   resolveReference: async (id) => {
+ *     const doc = await sanityClient.getDocument(id)
+ *     return doc?._type ?? null
+ *   },
+ *   referenceConcurrency: 5,
+ * })
+ * ```
+ */
+export async function validateDocumentAsync(
+  document: Record<string, unknown>,
+  schemaTypes: ManifestSchemaType[],
+  options: ValidateOptions = {}
+): Promise<ValidationResult> {
+  return validateWithTypeMapAsync(document, createTypeMap(schemaTypes), options)
+}
+
+/**
+ * Validates a document against a prebuilt type map, resolving references.
+ *
+ * Used by batch validation to avoid re-indexing the schema for every document.
+ */
+export async function validateWithTypeMapAsync(
+  document: Record<string, unknown>,
+  typeMap: Map<string, ManifestSchemaType>,
+  options: ValidateOptions = {}
+): Promise<ValidationResult> {
+  const {
+    resolveReference,
+    checkUnique,
+    referenceConcurrency = 10,
+    stopOnFirstError = false,
+  } = options
+
+  const docType = document['_type']
+  const schemaType = typeof docType === 'string' ? typeMap.get(docType) : undefined
+  if (!schemaType) {
+    // Missing or unknown _type - nothing to resolve against
+    return validateWithTypeMap(document, typeMap, options)
+  }
+
+  // Validate synchronously first, keeping all severities until the end
+  const pendingIssues: Promise<ValidationIssue[]>[] = []
+  const syncResult = validateDocumentFields(document, typeMap, {
+    ...options,
+    includeWarnings: true,
+    includeInfo: true,
+    keyedPaths: false,
+    pendingIssues,
+  })
+  const issues = [...syncResult.issues]
+
+  for (const customIssues of await Promise.all(pendingIssues)) {
+    issues.push(...customIssues)
+  }
+
+  const canContinue = !(stopOnFirstError && syncResult.errors.length > 0)
+
+  if (resolveReference && canContinue) {
+    const references = collectReferences(document, schemaType, typeMap)
+    const ids = Array.from(new Set(references.map((r) => r.id)))
+    const types = await mapConcurrent(ids, resolveReference, referenceConcurrency)
+    const resolved = new Map(ids.map((id, i) => [id, types[i] ?? null]))
+
+    for (const reference of references) {
+      issues.push(...checkResolvedReference(reference, resolved.get(reference.id) ?? null, options))
+    }
+  }
+
+  if (checkUnique && canContinue) {
+    const documentId = typeof document['_id'] === 'string' ? document['_id'] : undefined
+    const uniqueValues = collectUniqueValues(document, schemaType, typeMap)
+    const conflicts = await mapConcurrent(
+      uniqueValues,
+      ({ group, ...value }) => checkUnique({ ...value, documentId, documentType: schemaType.name }),
+      referenceConcurrency
+    )
+
+    uniqueValues.forEach((uniqueValue, i) => {
+      issues.push(...checkUniqueConflicts(uniqueValue, conflicts[i] ?? [], options))
+    })
+  }
+
+  return buildResult(options.keyedPaths ? withKeyedPaths(issues, document) : issues, schemaType.name, options)
+}
+
+/**
+ * Rewrite issue and fix paths to address array items by `_key`.
+ *
+ * Used by patch validation, which matches issues to touched paths by index first.
+ */
+export function withKeyedPaths(
+  issues: ValidationIssue[],
+  document: Record<string, unknown>
+): ValidationIssue[] {
+  const keyed = (path: string): string => {
+    try {
+      return toKeyedPath(path, document)
+    } catch {
+      // Paths that don't resolve (e.g., from a patch that could not be applied) are kept
+      return path
+    }
+  }
+
+  return issues.map((issue) => ({
+    ...issue,
+    path: keyed(issue.path),
+    ...(issue.fixes && {
+      fixes: issue.fixes.map((fix) => ({
+        ...fix,
+        path: keyed(fix.path),
+        ...(fix.to !== undefined && { to: keyed(fix.to) }),
+      })),
+    }),
+  }))
+}
+
+/**
+ * Filter issues by the requested severities and build the final result.
+ *
+ * Used by patch validation to build a result from a subset of issues.
+ */
+export function buildResult(
+  issues: ValidationIssue[],
+  documentType: string,
+  options: ValidateOptions
+): ValidationResult {
+  const { includeWarnings = true, includeInfo = false } = options
+
   // Filter by severity
   const errors = issues.filter((i) => i.severity === 'error')
   const warnings = includeWarnings ? issues.filter((i) => i.severity === 'warning') : []
@@ -219,7 +510,7 @@ export function validateDocument(
     errors,
     warnings,
     info,
-    documentType: schemaType.name,
+    documentType,
     summary,
   }
 }
@@ -232,7 +523,7 @@ function validateField(
   field: ManifestField,
   path: string,
   typeMap: Map<string, ManifestSchemaType>,
-  options: ValidateOptions
+  options: FieldValidationOptions
 ): ValidationIssue[] {
   const issues: ValidationIssue[] = []
 
@@ -244,15 +535,17 @@ function validateField(
 
   // Check required fields
   const rules = getValidationRules(field)
-  const isRequired = rules.some(
-    (r) => r.flag === 'presence' && r.constraint === 'required'
+  const requiredGroup = field.validation?.find((group) =>
+    group.rules.some((r) => r.flag === 'presence' && r.constraint === 'required')
   )
 
-  if (isRequired && (value === undefined || value === null)) {
+  // Hidden fields can't be filled in by editors, so they are not required
+  if (requiredGroup && (value === undefined || value === null) && !isFieldHidden(field, path, value, options)) {
     issues.push({
       path,
-      message: `${field.title || field.name} is required`,
-      severity: 'error',
+      message: requiredGroup.message ?? localize(options, 'REQUIRED', { field: field.title || field.name }),
+      code: 'REQUIRED',
+      severity: requiredGroup.level ?? 'error',
       rule: { flag: 'presence', constraint: 'required' },
       value,
       expected: field.type,
@@ -262,26 +555,52 @@ function validateField(
     return issues // Don't validate further if required field is missing
   }
 
-  // Skip validation if value is not present and not required
+  // Skip validation if value is not present and not required, apart from
+  // custom rules, which may require a value depending on other fields
   if (value === undefined || value === null) {
+    issues.push(...checkCustomRules(value, field, path, options, fieldContext))
     return issues
   }
 
-  // Type-specific validation
+  issues.push(...validateValue(value, field, path, rules, typeMap, options, fieldContext))
+
+  // Apply validation rules group by group, so each group's level and message are kept
+  for (const group of field.validation ?? []) {
+    issues.push(...applyValidationRules(value, group, path, field, options, fieldContext))
+  }
+  issues.push(...checkCustomRules(value, field, path, options, fieldContext))
+
+  return issues
+}
+
+/**
+ * Type-specific validation of a present value, shared by fields and array members.
+ */
+function validateValue(
+  value: unknown,
+  field: ManifestField,
+  path: string,
+  rules: ManifestValidationRule[],
+  typeMap: Map<string, ManifestSchemaType>,
+  options: FieldValidationOptions,
+  fieldContext: ValidationIssue['field']
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+
   switch (field.type) {
     case 'string':
     case 'text':
-      issues.push(...validateString(value, field, path, rules, fieldContext))
+      issues.push(...validateString(value, field, path, rules, options, fieldContext))
       break
     case 'number':
-      issues.push(...validateNumber(value, field, path, rules, fieldContext))
+      issues.push(...validateNumber(value, path, options, fieldContext))
       break
     case 'boolean':
-      issues.push(...validateBoolean(value, path, fieldContext))
+      issues.push(...validateBoolean(value, path, options, fieldContext))
       break
     case 'date':
     case 'datetime':
-      issues.push(...validateDate(value, field, path, fieldContext))
+      issues.push(...validateDate(value, field, path, options, fieldContext))
       break
     case 'array':
       issues.push(...validateArray(value, field, path, typeMap, options, fieldContext))
@@ -290,32 +609,56 @@ function validateField(
       issues.push(...validateObject(value, field, path, typeMap, options, fieldContext))
       break
     case 'reference':
-      issues.push(...validateReference(value, field, path, fieldContext))
+      issues.push(...validateReference(value, field, path, options, fieldContext))
       break
     case 'image':
     case 'file':
       issues.push(...validateAsset(value, field, path, typeMap, options, fieldContext))
       break
     case 'slug':
-      issues.push(...validateSlug(value, field, path, rules, fieldContext))
+      issues.push(...validateSlug(value, field, path, rules, options, fieldContext))
       break
     case 'url':
-      issues.push(...validateUrl(value, path, rules, fieldContext))
+      issues.push(...validateUrl(value, path, rules, options, fieldContext))
       break
     case 'block':
       issues.push(...validateBlock(value, field, path, typeMap, options, fieldContext))
       break
+    case 'span':
+      issues.push(...validateSpan(value, path, options, fieldContext))
+      break
+    case 'email':
+      issues.push(...validateEmail(value, path, options, fieldContext))
+      break
+    case 'geopoint':
+      issues.push(...validateGeopoint(value, path, options, fieldContext))
+      break
+    case 'color':
+      issues.push(...validateColor(value, path, options, fieldContext))
+      break
+    case 'crossDatasetReference':
+      issues.push(...validateCrossDatasetReference(value, field, path, options, fieldContext))
+      break
+    case 'globalDocumentReference':
+      issues.push(...validateGlobalDocumentReference(value, field, path, options, fieldContext))
+      break
     default:
       // For custom types, look up in type map
       const customType = typeMap.get(field.type)
       if (customType && customType.type === 'object' && customType.fields) {
-        issues.push(...validateObject(value, customType, path, typeMap, options, fieldContext))
+        issues.push(...validateObject(value, customType, path, typeMap, inObjectType(options, customType.name, path), fieldContext))
+      } else if (customType && (customType.type === 'image' || customType.type === 'file')) {
+        // Named image/file types, with field-level options taking precedence
+        const assetType: ManifestField = {
+          ...customType,
+          name: field.name,
+          fields: field.fields ?? customType.fields,
+          options: { ...customType.options, ...field.options },
+        }
+        issues.push(...validateAsset(value, assetType, path, typeMap, inObjectType(options, customType.name, path), fieldContext))
       }
   }
 
-  // Apply validation rules
-  issues.push(...applyValidationRules(value, rules, path, field, fieldContext))
-
   return issues
 }
 
@@ -324,6 +667,7 @@ function validateString(
   field: ManifestField,
   path: string,
   rules: ManifestValidationRule[],
+  options: FieldValidationOptions,
   fieldContext: ValidationIssue['field']
 ): ValidationIssue[] {
   const issues: ValidationIssue[] = []
@@ -331,12 +675,16 @@ function validateString(
   if (typeof value !== 'string') {
     issues.push({
       path,
-      message: `Expected string, got ${typeof value}`,
+      message: localize(options, 'TYPE_MISMATCH', { expected: 'string', actual: typeof value }),
+      code: 'TYPE_MISMATCH',
       severity: 'error',
       value,
       expected: 'string',
       field: fieldContext,
       suggestions: [`Convert the value to a string`],
+      fixes: typeof value === 'number' || typeof value === 'boolean'
+        ? [{ op: 'set', path, value: String(value), description: `Convert to "${value}"` }]
+        : undefined,
     })
     return issues
   }
@@ -350,12 +698,14 @@ function validateString(
     if (!validValues.includes(value)) {
       issues.push({
         path,
-        message: `"${value}" is not a valid option`,
+        message: localize(options, 'LIST_OPTION_INVALID', { value }),
+        code: 'LIST_OPTION_INVALID',
         severity: 'error',
         value,
         expected: `one of: ${validValues.join(', ')}`,
         field: fieldContext,
         suggestions: validValues.map((v) => `Use "${v}"`),
+        fixes: validValues.map((v) => ({ op: 'set', path, value: v, description: `Use "${v}"` })),
       })
     }
   }
@@ -365,9 +715,8 @@ function validateString(
 
 function validateNumber(
   value: unknown,
-  field: ManifestField,
   path: string,
-  rules: ManifestValidationRule[],
+  options: FieldValidationOptions,
   fieldContext: ValidationIssue['field']
 ): ValidationIssue[] {
   const issues: ValidationIssue[] = []
@@ -375,63 +724,42 @@ function validateNumber(
   if (typeof value !== 'number' || isNaN(value)) {
     issues.push({
       path,
-      message: `Expected number, got ${typeof value}`,
+      message: localize(options, 'TYPE_MISMATCH', { expected: 'number', actual: typeof value }),
+      code: 'TYPE_MISMATCH',
       severity: 'error',
       value,
       expected: 'number',
       field: fieldContext,
       suggestions: [`Convert the value to a number`],
+      fixes: typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))
+        ? [{ op: 'set', path, value: Number(value), description: `Convert to ${Number(value)}` }]
+        : undefined,
     })
     return issues
   }
 
-  // Check integer rule
-  const integerRule = rules.find((r) => r.flag === 'integer')
-  if (integerRule && !Number.isInteger(value)) {
-    issues.push({
-      path,
-      message: `Expected integer, got decimal`,
-      severity: 'error',
-      rule: integerRule,
-      value,
-      expected: 'integer',
-      field: fieldContext,
-      suggestions: [`Round to ${Math.round(value)}`],
-    })
-  }
-
-  // Check positive rule
-  const positiveRule = rules.find((r) => r.flag === 'positive')
-  if (positiveRule && value <= 0) {
-    issues.push({
-      path,
-      message: `Expected positive number`,
-      severity: 'error',
-      rule: positiveRule,
-      value,
-      expected: 'positive number',
-      field: fieldContext,
-      suggestions: [`Use a positive value`],
-    })
-  }
-
   return issues
 }
 
 function validateBoolean(
   value: unknown,
   path: string,
+  options: FieldValidationOptions,
   fieldContext: ValidationIssue['field']
 ): ValidationIssue[] {
   if (typeof value !== 'boolean') {
     return [{
       path,
-      message: `Expected boolean, got ${typeof value}`,
+      message: localize(options, 'TYPE_MISMATCH', { expected: 'boolean', actual: typeof value }),
+      code: 'TYPE_MISMATCH',
       severity: 'error',
       value,
       expected: 'boolean',
       field: fieldContext,
       suggestions: [`Use true or false`],
+      fixes: value === 'true' || value === 'false'
+        ? [{ op: 'set', path, value: value === 'true', description: `Convert to ${value}` }]
+        : undefined,
     }]
   }
   return []
@@ -441,42 +769,191 @@ function validateDate(
   value: unknown,
   field: ManifestField,
   path: string,
+  options: FieldValidationOptions,
   fieldContext: ValidationIssue['field']
 ): ValidationIssue[] {
+  const isDatetime = field.type === 'datetime'
+  const expected = isDatetime ? 'RFC 3339 datetime string with timezone' : 'YYYY-MM-DD date string'
+  const example = isDatetime ? '2024-01-15T10:30:00Z' : '2024-01-15'
+
   if (typeof value !== 'string') {
     return [{
       path,
-      message: `Expected date string, got ${typeof value}`,
+      message: localize(options, 'TYPE_MISMATCH', { expected: 'date string', actual: typeof value }),
+      code: 'TYPE_MISMATCH',
       severity: 'error',
       value,
-      expected: field.type === 'datetime' ? 'ISO 8601 datetime string' : 'YYYY-MM-DD date string',
+      expected,
       field: fieldContext,
-      suggestions: [field.type === 'datetime' ? 'Use format: 2024-01-15T10:30:00Z' : 'Use format: 2024-01-15'],
+      suggestions: [`Use format: ${example}`],
     }]
   }
 
-  const date = new Date(value)
-  if (isNaN(date.getTime())) {
+  if (isDatetime ? isDatetimeString(value) : isDateString(value)) {
+    return []
+  }
+
+  // A datetime that is only missing its timezone
+  if (isDatetime && isDatetimeString(`${value}Z`)) {
     return [{
       path,
-      message: `Invalid date format: "${value}"`,
+      message: localize(options, 'DATETIME_MISSING_TIMEZONE', { value }),
+      code: 'DATETIME_MISSING_TIMEZONE',
       severity: 'error',
       value,
-      expected: field.type === 'datetime' ? 'ISO 8601 datetime string' : 'YYYY-MM-DD date string',
+      expected,
       field: fieldContext,
-      suggestions: [field.type === 'datetime' ? 'Use format: 2024-01-15T10:30:00Z' : 'Use format: 2024-01-15'],
+      suggestions: [`Add a timezone, e.g. "${value}Z" for UTC`],
+      fixes: [{ op: 'set', path, value: `${value}Z`, description: `Use "${value}Z" (UTC)` }],
     }]
   }
 
-  return []
+  const corrected = isDatetime ? toDatetimeString(value) : toDateString(value, field)
+  const displayFormat = field.options?.['dateFormat']
+  const suggestions = [`Use format: ${example}`]
+  if (typeof displayFormat === 'string') {
+    suggestions.push(`"${displayFormat}" is only the display format; values are stored as ${isDatetime ? 'RFC 3339' : 'YYYY-MM-DD'}`)
+  }
+  if (corrected) {
+    suggestions.unshift(`Use "${corrected}"`)
+  }
+
+  return [{
+    path,
+    message: localize(options, 'INVALID_DATE_FORMAT', { type: field.type, value }),
+    code: 'INVALID_DATE_FORMAT',
+    severity: 'error',
+    value,
+    expected,
+    field: fieldContext,
+    suggestions,
+    fixes: corrected ? [{ op: 'set', path, value: corrected, description: `Use "${corrected}"` }] : undefined,
+  }]
+}
+
+/**
+ * Check for a `YYYY-MM-DD` date that exists in the calendar.
+ */
+function isDateString(value: string): boolean {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value)
+  return match !== null && isCalendarDate(Number(match[1]), Number(match[2]), Number(match[3]))
+}
+
+/**
+ * Check for an RFC 3339 datetime, e.g. `2024-01-15T10:30:00.000Z` or `2024-01-15T10:30:00+02:00`.
+ */
+function isDatetimeString(value: string): boolean {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})(?:\.\d+)?(?:Z|([+-])(\d{2}):(\d{2}))$/i.exec(value)
+  if (!match) return false
+
+  const [, year, month, day, hour, minute, second, , offsetHour, offsetMinute] = match.map(Number)
+  return (
+    isCalendarDate(year as number, month as number, day as number) &&
+    (hour as number) < 24 &&
+    (minute as number) < 60 &&
+    (second as number) <= 60 && // Leap seconds
+    (offsetHour === undefined || Number.isNaN(offsetHour) || offsetHour < 24) &&
+    (offsetMinute === undefined || Number.isNaN(offsetMinute) || offsetMinute < 60)
+  )
+}
+
+function isCalendarDate(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day))
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+}
+
+/**
+ * Convert a loosely formatted date to `YYYY-MM-DD`, using the field's
+ * `options.dateFormat` when the value is in that format.
+ */
+function toDateString(value: string, field: ManifestField): string | undefined {
+  const displayFormat = field.options?.['dateFormat']
+  if (typeof displayFormat === 'string') {
+    const parsed = parseDisplayDate(value, displayFormat)
+    if (parsed) return parsed
+  }
+
+  // Full datetimes keep their date part
+  const datePart = /^(\d{4}-\d{2}-\d{2})T/.exec(value)?.[1]
+  if (datePart && isDateString(datePart)) return datePart
+
+  const date = new Date(value)
+  if (isNaN(date.getTime())) return undefined
+  // Dates without a time are parsed as local time
+  return [
+    String(date.getFullYear()).padStart(4, '0'),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-')
+}
+
+/**
+ * Convert a loosely formatted datetime to RFC 3339 in UTC.
+ */
+function toDatetimeString(value: string): string | undefined {
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+/**
+ * Compare a date value with a `min`/`max` constraint. Returns 0 when either
+ * cannot be compared, so invalid values are only reported by the format check.
+ */
+function compareDates(value: unknown, constraint: unknown, field: ManifestField): number {
+  if (typeof value !== 'string' || typeof constraint !== 'string') return 0
+  if (field.type === 'date' ? !isDateString(value) : !isDatetimeString(value)) return 0
+
+  // Date constraints may be full datetimes; compare them by their date part
+  if (field.type === 'date') {
+    const limit = constraint.slice(0, 10)
+    if (!isDateString(limit)) return 0
+    return value < limit ? -1 : value > limit ? 1 : 0
+  }
+
+  const difference = Date.parse(value) - Date.parse(constraint)
+  return Number.isNaN(difference) ? 0 : Math.sign(difference)
 }
 
+/**
+ * Parse a date in a display format such as `DD/MM/YYYY` or `M-D-YYYY`.
+ * Formats with other tokens (e.g., `MMMM Do`) are not supported.
+ */
+function parseDisplayDate(value: string, format: string): string | undefined {
+  const groups: Record<string, string> = { YYYY: 'year', MM: 'month', M: 'month', DD: 'day', D: 'day' }
+  const tokens = format.match(/Y+|M+|D+|[^YMD]+/g) ?? []
+  const used = new Set<string>()
+  let pattern = ''
+
+  for (const token of tokens) {
+    const group = groups[token]
+    if (group) {
+      if (used.has(group)) return undefined
+      used.add(group)
+      pattern += `(?<${group}>\\d{${token === 'YYYY' ? 4 : '1,2'}})`
+    } else if (/^[^A-Za-z]+$/.test(token)) {
+      pattern += token.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    } else {
+      return undefined
+    }
+  }
+  if (used.size !== 3) return undefined
+
+  const match = new RegExp(`^${pattern}$`).exec(value)?.groups
+  if (!match?.['year'] || !match['month'] || !match['day']) return undefined
+
+  const date = `${match['year']}-${match['month'].padStart(2, '0')}-${match['day'].padStart(2, '0')}`
+  return isDateString(date) ? date : undefined
+}
+
+/** Built-in member types that are checked the same way as fields of that type */
+const BUILT_IN_MEMBER_TYPES = new Set(['geopoint', 'color', 'span', 'email', 'crossDatasetReference', 'globalDocumentReference'])
+
 function validateArray(
   value: unknown,
   field: ManifestField,
   path: string,
   typeMap: Map<string, ManifestSchemaType>,
-  options: ValidateOptions,
+  options: FieldValidationOptions,
   fieldContext: ValidationIssue['field']
 ): ValidationIssue[] {
   const issues: ValidationIssue[] = []
@@ -484,12 +961,14 @@ function validateArray(
   if (!Array.isArray(value)) {
     issues.push({
       path,
-      message: `Expected array, got ${typeof value}`,
+      message: localize(options, 'TYPE_MISMATCH', { expected: 'array', actual: typeof value }),
+      code: 'TYPE_MISMATCH',
       severity: 'error',
       value,
       expected: 'array',
       field: fieldContext,
       suggestions: [`Wrap the value in an array: [${JSON.stringify(value)}]`],
+      fixes: [{ op: 'set', path, value: [value], description: 'Wrap the value in an array' }],
     })
     return issues
   }
@@ -505,12 +984,14 @@ function validateArray(
     if (typeof item === 'object' && item !== null && !('_key' in item)) {
       issues.push({
         path: itemPath,
-        message: `Array item is missing _key property`,
+        message: localize(options, 'ARRAY_MISSING_KEY'),
+        code: 'ARRAY_MISSING_KEY',
         severity: 'warning',
         value: item,
         expected: 'object with _key',
         field: fieldContext,
         suggestions: [`Add a unique "_key" property to this item`],
+        fixes: [{ op: 'set', path: `${itemPath}._key`, value: generateKey(), description: 'Add a unique _key' }],
       })
     }
 
@@ -526,31 +1007,53 @@ function validateArray(
         const allowedTypes = memberTypes.map((m) => m['type'] || m.name).filter(Boolean)
         issues.push({
           path: `${itemPath}._type`,
-          message: `Type "${itemType}" is not allowed in this array`,
+          message: localize(options, 'ARRAY_ITEM_TYPE_NOT_ALLOWED', { type: itemType }),
+          code: 'ARRAY_ITEM_TYPE_NOT_ALLOWED',
           severity: 'error',
           value: itemType,
           expected: `one of: ${allowedTypes.join(', ')}`,
           field: fieldContext,
           suggestions: allowedTypes.map((t) => `Change _type to "${t}"`),
+          fixes: [
+            ...allowedTypes.map((t): ValidationFix => ({
+              op: 'set',
+              path: `${itemPath}._type`,
+              value: t,
+              description: `Change _type to "${t}"`,
+            })),
+            { op: 'unset', path: itemPath, description: 'Remove the item' },
+          ],
         })
       } else {
         // Validate against member type
-        const memberTypeDef = typeMap.get(itemType) || memberType
+        const namedType = typeMap.get(itemType)
+        const memberTypeDef = namedType || memberType
         const memberFields = memberTypeDef['fields'] as ManifestField[] | undefined
-        if (memberFields) {
+        const memberOptions = namedType ? inObjectType(options, namedType.name, itemPath) : options
+        if (memberTypeDef['type'] === 'block') {
+          issues.push(...validateBlock(item, memberTypeDef as ManifestField, itemPath, typeMap, options, fieldContext))
+        } else if (memberTypeDef['type'] === 'image' || memberTypeDef['type'] === 'file') {
+          issues.push(...validateAsset(item, memberTypeDef as ManifestField, itemPath, typeMap, memberOptions, fieldContext))
+        } else if (BUILT_IN_MEMBER_TYPES.has(memberTypeDef['type'] as string)) {
+          issues.push(...validateValue(item, memberTypeDef as ManifestField, itemPath, [], typeMap, memberOptions, fieldContext))
+        } else if (memberFields) {
           for (const f of memberFields) {
             const fieldValue = (item as Record<string, unknown>)[f.name]
-            issues.push(...validateField(fieldValue, f, `${itemPath}.${f.name}`, typeMap, options))
+            issues.push(...validateField(fieldValue, f, `${itemPath}.${f.name}`, typeMap, memberOptions))
           }
+          issues.push(...checkUnknownFields(item as Record<string, unknown>, memberFields, itemPath, options))
         }
       }
     } else if (memberTypes.length > 0) {
       // Primitive array items
       const expectedType = memberTypes[0]?.['type'] as string | undefined
-      if (expectedType && typeof item !== expectedType) {
+      if (expectedType && BUILT_IN_MEMBER_TYPES.has(expectedType)) {
+        issues.push(...validateValue(item, memberTypes[0] as ManifestField, itemPath, [], typeMap, options, fieldContext))
+      } else if (expectedType && typeof item !== expectedType) {
         issues.push({
           path: itemPath,
-          message: `Expected ${expectedType}, got ${typeof item}`,
+          message: localize(options, 'TYPE_MISMATCH', { expected: expectedType, actual: typeof item }),
+          code: 'TYPE_MISMATCH',
           severity: 'error',
           value: item,
           expected: expectedType,
@@ -568,7 +1071,7 @@ function validateObject(
   field: ManifestSchemaType,
   path: string,
   typeMap: Map<string, ManifestSchemaType>,
-  options: ValidateOptions,
+  options: FieldValidationOptions,
   fieldContext: ValidationIssue['field']
 ): ValidationIssue[] {
   const issues: ValidationIssue[] = []
@@ -576,7 +1079,8 @@ function validateObject(
   if (typeof value !== 'object' || value === null || Array.isArray(value)) {
     issues.push({
       path,
-      message: `Expected object, got ${Array.isArray(value) ? 'array' : typeof value}`,
+      message: localize(options, 'TYPE_MISMATCH', { expected: 'object', actual: Array.isArray(value) ? 'array' : typeof value }),
+      code: 'TYPE_MISMATCH',
       severity: 'error',
       value,
       expected: 'object',
@@ -593,6 +1097,7 @@ function validateObject(
       const fieldValue = obj[f.name]
       issues.push(...validateField(fieldValue, f, `${path}.${f.name}`, typeMap, options))
     }
+    issues.push(...checkUnknownFields(obj, field.fields, path, options))
   }
 
   return issues
@@ -602,6 +1107,7 @@ function validateReference(
   value: unknown,
   field: ManifestField,
   path: string,
+  options: FieldValidationOptions,
   fieldContext: ValidationIssue['field']
 ): ValidationIssue[] {
   const issues: ValidationIssue[] = []
@@ -609,7 +1115,8 @@ function validateReference(
   if (typeof value !== 'object' || value === null) {
     issues.push({
       path,
-      message: `Expected reference object, got ${typeof value}`,
+      message: localize(options, 'TYPE_MISMATCH', { expected: 'reference object', actual: typeof value }),
+      code: 'TYPE_MISMATCH',
       severity: 'error',
       value,
       expected: 'reference object with _ref',
@@ -626,7 +1133,8 @@ function validateReference(
   if (!refValue || typeof refValue !== 'string') {
     issues.push({
       path: `${path}._ref`,
-      message: `Reference is missing _ref property`,
+      message: localize(options, 'REFERENCE_MISSING_REF'),
+      code: 'REFERENCE_MISSING_REF',
       severity: 'error',
       value: refValue,
       expected: 'string (document ID)',
@@ -635,14 +1143,15 @@ function validateReference(
     })
   }
 
-  // Check reference targets
+  // Check reference targets (named reference members use their name as _type)
   const targets = field.to || []
-  if (refType && refType !== 'reference') {
+  if (refType && refType !== 'reference' && refType !== field.name) {
     const allowedTypes = targets.map((t) => t['type']).filter(Boolean)
     if (allowedTypes.length > 0 && !allowedTypes.includes(refType as string)) {
       issues.push({
         path: `${path}._type`,
-        message: `Reference to "${refType}" is not allowed`,
+        message: localize(options, 'REFERENCE_TARGET_NOT_ALLOWED', { type: String(refType) }),
+        code: 'REFERENCE_TARGET_NOT_ALLOWED',
         severity: 'error',
         value: refType,
         expected: `reference to: ${allowedTypes.join(', ')}`,
@@ -660,7 +1169,7 @@ function validateAsset(
   field: ManifestField,
   path: string,
   typeMap: Map<string, ManifestSchemaType>,
-  options: ValidateOptions,
+  options: FieldValidationOptions,
   fieldContext: ValidationIssue['field']
 ): ValidationIssue[] {
   const issues: ValidationIssue[] = []
@@ -668,7 +1177,8 @@ function validateAsset(
   if (typeof value !== 'object' || value === null) {
     issues.push({
       path,
-      message: `Expected ${field.type} object, got ${typeof value}`,
+      message: localize(options, 'TYPE_MISMATCH', { expected: `${field.type} object`, actual: typeof value }),
+      code: 'TYPE_MISMATCH',
       severity: 'error',
       value,
       expected: `${field.type} object with asset reference`,
@@ -685,26 +1195,51 @@ function validateAsset(
   if (!assetValue) {
     issues.push({
       path: `${path}.asset`,
-      message: `${field.type === 'image' ? 'Image' : 'File'} is missing asset reference`,
+      message: localize(options, 'ASSET_MISSING', { type: field.type }),
+      code: 'ASSET_MISSING',
       severity: 'error',
       expected: 'asset reference object',
       field: fieldContext,
       suggestions: [`Add "asset": { "_ref": "${field.type}-..." }`],
     })
+  } else if (typeof assetValue === 'string') {
+    const assetId = parseAssetId(assetValue) ? assetValue : toAssetId(assetValue)
+    issues.push({
+      path: `${path}.asset`,
+      message: localize(options, 'TYPE_MISMATCH', { expected: 'asset reference object', actual: 'string' }),
+      code: 'TYPE_MISMATCH',
+      severity: 'error',
+      value: assetValue,
+      expected: 'asset reference object',
+      field: fieldContext,
+      suggestions: [`Use format: { "_type": "reference", "_ref": "${assetId ?? `${field.type}-...`}" }`],
+      fixes: assetId
+        ? [{ op: 'set', path: `${path}.asset`, value: { _type: 'reference', _ref: assetId }, description: 'Wrap the asset ID in a reference' }]
+        : undefined,
+    })
   } else if (typeof assetValue === 'object' && assetValue !== null) {
     const assetRef = assetValue as Record<string, unknown>
     const assetRefValue = assetRef['_ref']
     if (!assetRefValue || typeof assetRefValue !== 'string') {
       issues.push({
         path: `${path}.asset._ref`,
-        message: `Asset is missing _ref property`,
+        message: localize(options, 'ASSET_MISSING_REF'),
+        code: 'ASSET_MISSING_REF',
         severity: 'error',
         expected: 'asset ID string',
         field: fieldContext,
       })
+    } else {
+      issues.push(...validateAssetId(assetRefValue, field, `${path}.asset._ref`, options, fieldContext))
     }
   }
 
+  // Hotspot and crop are only stored when the field enables them
+  if (field.type === 'image' && hasHotspot(field)) {
+    issues.push(...validateImageRect(asset['hotspot'], 'hotspot', `${path}.hotspot`, options, fieldContext))
+    issues.push(...validateImageRect(asset['crop'], 'crop', `${path}.crop`, options, fieldContext))
+  }
+
   // Validate nested fields (like alt text on images)
   if (field.fields) {
     for (const f of field.fields as ManifestField[]) {
@@ -713,59 +1248,277 @@ function validateAsset(
     }
   }
 
+  const assetKeys = field.type === 'image' ? ['asset', 'hotspot', 'crop', 'media'] : ['asset', 'media']
+  issues.push(...checkUnknownFields(asset, field.fields ?? [], path, options, assetKeys))
+
   return issues
 }
 
-function validateSlug(
-  value: unknown,
+/** Properties of an image hotspot, as fractions of the image size */
+const HOTSPOT_PROPERTIES = ['x', 'y', 'height', 'width']
+
+/** Properties of an image crop, as fractions of the image size cut from each side */
+const CROP_PROPERTIES = ['top', 'bottom', 'left', 'right']
+
+/** MIME types for common asset extensions, for matching `options.accept` */
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  svg: 'image/svg+xml',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  bmp: 'image/bmp',
+  heic: 'image/heic',
+  pdf: 'application/pdf',
+  json: 'application/json',
+  zip: 'application/zip',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  csv: 'text/csv',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+}
+
+/**
+ * Parse a Sanity asset ID: `image-<hash>-<width>x<height>-<extension>` or
+ * `file-<hash>-<extension>`.
+ */
+function parseAssetId(id: string): { type: 'image' | 'file'; extension: string } | undefined {
+  const image = /^image-[a-zA-Z0-9]+-\d+x\d+-([a-z0-9]+)$/.exec(id)
+  if (image) return { type: 'image', extension: image[1] as string }
+
+  const file = /^file-[a-zA-Z0-9]+-([a-z0-9]+)$/.exec(id)
+  if (file) return { type: 'file', extension: file[1] as string }
+
+  return undefined
+}
+
+/**
+ * Convert common malformed asset references to an asset ID: Sanity CDN URLs
+ * (`https://cdn.sanity.io/images/<project>/<dataset>/<hash>-<w>x<h>.<ext>`)
+ * and IDs with a dotted extension (`image-<hash>-<w>x<h>.<ext>`).
+ */
+function toAssetId(value: string): string | undefined {
+  const cdnImage = /\/images\/[^/]+\/[^/]+\/([a-zA-Z0-9]+-\d+x\d+)\.([a-zA-Z0-9]+)(?:\?.*)?$/.exec(value)
+  if (cdnImage) return `image-${cdnImage[1]}-${cdnImage[2]?.toLowerCase()}`
+
+  const cdnFile = /\/files\/[^/]+\/[^/]+\/([a-zA-Z0-9]+)\.([a-zA-Z0-9]+)(?:\?.*)?$/.exec(value)
+  if (cdnFile) return `file-${cdnFile[1]}-${cdnFile[2]?.toLowerCase()}`
+
+  const dotted = /^((?:image-[a-zA-Z0-9]+-\d+x\d+)|(?:file-[a-zA-Z0-9]+))\.([a-zA-Z0-9]+)$/.exec(value)
+  if (dotted) return `${dotted[1]}-${dotted[2]?.toLowerCase()}`
+
+  return undefined
+}
+
+function validateAssetId(
+  id: string,
   field: ManifestField,
   path: string,
-  rules: ManifestValidationRule[],
+  options: FieldValidationOptions,
   fieldContext: ValidationIssue['field']
 ): ValidationIssue[] {
-  const issues: ValidationIssue[] = []
+  const expected = field.type === 'image' ? 'image-<hash>-<width>x<height>-<extension>' : 'file-<hash>-<extension>'
+  const parsed = parseAssetId(id)
 
-  if (typeof value !== 'object' || value === null) {
-    issues.push({
+  if (!parsed) {
+    const corrected = toAssetId(id)
+    return [{
       path,
-      message: `Expected slug object, got ${typeof value}`,
+      message: localize(options, 'INVALID_ASSET_ID', { type: field.type, id }),
+      code: 'INVALID_ASSET_ID',
       severity: 'error',
-      value,
-      expected: 'slug object with current property',
+      value: id,
+      expected,
       field: fieldContext,
-      suggestions: [`Use format: { "current": "my-slug" }`],
-    })
-    return issues
+      suggestions: corrected ? [`Use "${corrected}"`] : [`Use an asset document ID, e.g. "${field.type === 'image' ? 'image-abc123-1200x800-jpg' : 'file-abc123-pdf'}"`],
+      fixes: corrected ? [{ op: 'set', path, value: corrected, description: `Use "${corrected}"` }] : undefined,
+    }]
   }
 
-  const slug = value as Record<string, unknown>
-  const slugCurrent = slug['current']
-
-  if (!slugCurrent || typeof slugCurrent !== 'string') {
-    issues.push({
-      path: `${path}.current`,
-      message: `Slug is missing current value`,
+  if (parsed.type !== field.type) {
+    return [{
+      path,
+      message: localize(options, 'ASSET_TYPE_MISMATCH', { expected: field.type, actual: parsed.type, id }),
+      code: 'ASSET_TYPE_MISMATCH',
       severity: 'error',
-      value: slugCurrent,
-      expected: 'string',
+      value: id,
+      expected,
       field: fieldContext,
-      suggestions: [`Add "current": "url-friendly-slug"`],
-    })
-    return issues
+      suggestions: [`Reference a ${field.type} asset, or change the field type`],
+    }]
   }
 
-  // Check slug format
-  if (!/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(slugCurrent)) {
-    issues.push({
-      path: `${path}.current`,
-      message: `Slug contains invalid characters`,
+  const accept = field.options?.['accept']
+  if (typeof accept === 'string' && isAccepted(parsed.extension, accept) === false) {
+    return [{
+      path,
+      message: localize(options, 'FILE_TYPE_NOT_ACCEPTED', { extension: parsed.extension }),
+      code: 'FILE_TYPE_NOT_ACCEPTED',
+      severity: 'error',
+      value: id,
+      expected: `asset matching: ${accept}`,
+      field: fieldContext,
+      suggestions: [`Upload a file matching "${accept}"`],
+    }]
+  }
+
+  return []
+}
+
+/**
+ * Check an asset extension against an `accept` string (e.g., "image/png,.pdf").
+ * Returns undefined when the MIME type of the extension is not known.
+ */
+function isAccepted(extension: string, accept: string): boolean | undefined {
+  const mimeType = MIME_TYPES[extension]
+  let undecided = false
+
+  for (const entry of accept.split(',').map((a) => a.trim().toLowerCase()).filter(Boolean)) {
+    if (entry.startsWith('.')) {
+      const entryExtension = entry.slice(1)
+      if (entryExtension === extension) return true
+      if (mimeType && MIME_TYPES[entryExtension] === mimeType) return true
+    } else if (!mimeType) {
+      undecided = true
+    } else if (entry.endsWith('/*') ? mimeType.startsWith(entry.slice(0, -1)) : mimeType === entry) {
+      return true
+    }
+  }
+
+  return undecided ? undefined : false
+}
+
+/**
+ * Validate an image hotspot or crop: all properties are numbers between 0 and 1.
+ */
+function validateImageRect(
+  value: unknown,
+  kind: 'hotspot' | 'crop',
+  path: string,
+  options: FieldValidationOptions,
+  fieldContext: ValidationIssue['field']
+): ValidationIssue[] {
+  if (value === undefined || value === null) return []
+
+  const properties = kind === 'crop' ? CROP_PROPERTIES : HOTSPOT_PROPERTIES
+  const name = kind === 'crop' ? 'Crop' : 'Hotspot'
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return [{
+      path,
+      message: localize(options, 'TYPE_MISMATCH', { expected: `${kind} object`, actual: Array.isArray(value) ? 'array' : typeof value }),
+      code: 'TYPE_MISMATCH',
+      severity: 'error',
+      value,
+      expected: `object with ${properties.join(', ')}`,
+      field: fieldContext,
+    }]
+  }
+
+  const issues: ValidationIssue[] = []
+  const rect = value as Record<string, unknown>
+
+  for (const property of properties) {
+    if (rect[property] === undefined) {
+      issues.push({
+        path: `${path}.${property}`,
+        message: localize(options, 'MISSING_PROPERTY', { object: name, property }),
+        code: 'MISSING_PROPERTY',
+        severity: 'error',
+        expected: 'number between 0 and 1',
+        field: fieldContext,
+      })
+    }
+  }
+  issues.push(...checkNumberRanges(rect, Object.fromEntries(properties.map((p) => [p, 1])), path, options, fieldContext))
+
+  // Opposite crop sides must leave part of the image
+  if (kind === 'crop' && issues.length === 0) {
+    for (const [a, b] of [['top', 'bottom'], ['left', 'right']] as const) {
+      if ((rect[a] as number) + (rect[b] as number) >= 1) {
+        issues.push({
+          path,
+          message: localize(options, 'CROP_TOO_LARGE', { first: a, second: b }),
+          code: 'CROP_TOO_LARGE',
+          severity: 'error',
+          value: rect,
+          expected: `${a} + ${b} < 1`,
+          field: fieldContext,
+        })
+      }
+    }
+  }
+
+  return issues
+}
+
+function validateSlug(
+  value: unknown,
+  field: ManifestField,
+  path: string,
+  rules: ManifestValidationRule[],
+  options: FieldValidationOptions,
+  fieldContext: ValidationIssue['field']
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+
+  if (typeof value !== 'object' || value === null) {
+    issues.push({
+      path,
+      message: localize(options, 'TYPE_MISMATCH', { expected: 'slug object', actual: typeof value }),
+      code: 'TYPE_MISMATCH',
+      severity: 'error',
+      value,
+      expected: 'slug object with current property',
+      field: fieldContext,
+      suggestions: [`Use format: { "current": "my-slug" }`],
+    })
+    return issues
+  }
+
+  const slug = value as Record<string, unknown>
+  const slugCurrent = slug['current']
+
+  if (!slugCurrent || typeof slugCurrent !== 'string') {
+    issues.push({
+      path: `${path}.current`,
+      message: localize(options, 'SLUG_MISSING_CURRENT'),
+      code: 'SLUG_MISSING_CURRENT',
+      severity: 'error',
+      value: slugCurrent,
+      expected: 'string',
+      field: fieldContext,
+      suggestions: [`Add "current": "url-friendly-slug"`],
+    })
+    return issues
+  }
+
+  // Check slug format
+  if (!/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(slugCurrent)) {
+    const slugified = slugCurrent.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+    issues.push({
+      path: `${path}.current`,
+      message: localize(options, 'SLUG_INVALID_CHARACTERS'),
+      code: 'SLUG_INVALID_CHARACTERS',
       severity: 'warning',
       value: slugCurrent,
       expected: 'lowercase letters, numbers, and hyphens only',
       field: fieldContext,
-      suggestions: [
-        `Use: "${slugCurrent.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}"`,
-      ],
+      suggestions: [`Use: "${slugified}"`],
+      fixes: [{ op: 'set', path: `${path}.current`, value: slugified, description: `Use "${slugified}"` }],
     })
   }
 
@@ -776,12 +1529,14 @@ function validateUrl(
   value: unknown,
   path: string,
   rules: ManifestValidationRule[],
+  options: FieldValidationOptions,
   fieldContext: ValidationIssue['field']
 ): ValidationIssue[] {
   if (typeof value !== 'string') {
     return [{
       path,
-      message: `Expected URL string, got ${typeof value}`,
+      message: localize(options, 'TYPE_MISMATCH', { expected: 'URL string', actual: typeof value }),
+      code: 'TYPE_MISMATCH',
       severity: 'error',
       value,
       expected: 'URL string',
@@ -794,7 +1549,8 @@ function validateUrl(
   } catch {
     return [{
       path,
-      message: `Invalid URL: "${value}"`,
+      message: localize(options, 'INVALID_URL', { value }),
+      code: 'INVALID_URL',
       severity: 'error',
       value,
       expected: 'valid URL',
@@ -806,12 +1562,422 @@ function validateUrl(
   return []
 }
 
+/** Loose email address format, as used by Sanity's email rule */
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+function validateEmail(
+  value: unknown,
+  path: string,
+  options: FieldValidationOptions,
+  fieldContext: ValidationIssue['field']
+): ValidationIssue[] {
+  if (typeof value !== 'string') {
+    return [{
+      path,
+      message: localize(options, 'TYPE_MISMATCH', { expected: 'email string', actual: typeof value }),
+      code: 'TYPE_MISMATCH',
+      severity: 'error',
+      value,
+      expected: 'email address string',
+      field: fieldContext,
+      suggestions: [`Use format: user@example.com`],
+    }]
+  }
+
+  if (!EMAIL_PATTERN.test(value)) {
+    const trimmed = value.trim()
+    const canTrim = trimmed !== value && EMAIL_PATTERN.test(trimmed)
+    return [{
+      path,
+      message: localize(options, 'INVALID_EMAIL', { value }),
+      code: 'INVALID_EMAIL',
+      severity: 'error',
+      value,
+      expected: 'valid email address',
+      field: fieldContext,
+      suggestions: canTrim ? [`Remove surrounding whitespace: "${trimmed}"`] : [`Use format: user@example.com`],
+      fixes: canTrim ? [{ op: 'set', path, value: trimmed, description: `Use "${trimmed}"` }] : undefined,
+    }]
+  }
+
+  return []
+}
+
+function validateGeopoint(
+  value: unknown,
+  path: string,
+  options: FieldValidationOptions,
+  fieldContext: ValidationIssue['field']
+): ValidationIssue[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [{
+      path,
+      message: localize(options, 'TYPE_MISMATCH', { expected: 'geopoint object', actual: Array.isArray(value) ? 'array' : typeof value }),
+      code: 'TYPE_MISMATCH',
+      severity: 'error',
+      value,
+      expected: 'geopoint object with lat and lng',
+      field: fieldContext,
+      suggestions: [`Use format: { "_type": "geopoint", "lat": 59.91, "lng": 10.75 }`],
+    }]
+  }
+
+  const issues: ValidationIssue[] = []
+  const point = value as Record<string, unknown>
+  const lat = point['lat']
+  const lng = point['lng']
+
+  const ranges = [
+    { key: 'lat', name: 'Latitude', value: lat, limit: 90 },
+    { key: 'lng', name: 'Longitude', value: lng, limit: 180 },
+  ]
+  for (const range of ranges) {
+    if (range.value === undefined || range.value === null) {
+      issues.push({
+        path: `${path}.${range.key}`,
+        message: localize(options, 'MISSING_PROPERTY', { object: 'Geopoint', property: range.key }),
+        code: 'MISSING_PROPERTY',
+        severity: 'error',
+        expected: `number between -${range.limit} and ${range.limit}`,
+        field: fieldContext,
+        suggestions: [`Add "${range.key}" to the geopoint`],
+      })
+    } else if (typeof range.value !== 'number' || !Number.isFinite(range.value)) {
+      issues.push({
+        path: `${path}.${range.key}`,
+        message: localize(options, 'PROPERTY_TYPE_MISMATCH', { property: range.key, expected: 'a number', actual: typeof range.value }),
+        code: 'PROPERTY_TYPE_MISMATCH',
+        severity: 'error',
+        value: range.value,
+        expected: `number between -${range.limit} and ${range.limit}`,
+        field: fieldContext,
+      })
+    } else if (Math.abs(range.value) > range.limit) {
+      // A latitude out of range that would be a valid one is likely swapped with the longitude
+      const swapped = range.key === 'lat' && typeof lng === 'number' && Math.abs(lng) <= 90 && Math.abs(range.value) <= 180
+      issues.push({
+        path: `${path}.${range.key}`,
+        message: localize(options, 'COORDINATE_OUT_OF_RANGE', { name: range.name, limit: range.limit }),
+        code: 'COORDINATE_OUT_OF_RANGE',
+        severity: 'error',
+        value: range.value,
+        expected: `number between -${range.limit} and ${range.limit}`,
+        field: fieldContext,
+        suggestions: swapped ? ['Latitude and longitude may be swapped'] : undefined,
+        fixes: swapped
+          ? [{ op: 'set', path, value: { ...point, lat: lng, lng: lat }, description: 'Swap lat and lng' }]
+          : undefined,
+      })
+    }
+  }
+
+  const alt = point['alt']
+  if (alt !== undefined && (typeof alt !== 'number' || !Number.isFinite(alt))) {
+    issues.push({
+      path: `${path}.alt`,
+      message: localize(options, 'PROPERTY_TYPE_MISMATCH', { property: 'alt', expected: 'a number', actual: typeof alt }),
+      code: 'PROPERTY_TYPE_MISMATCH',
+      severity: 'error',
+      value: alt,
+      expected: 'number (meters)',
+      field: fieldContext,
+    })
+  }
+
+  issues.push(...checkUnknownFields(point, [], path, options, ['lat', 'lng', 'alt']))
+  return issues
+}
+
+function validateColor(
+  value: unknown,
+  path: string,
+  options: FieldValidationOptions,
+  fieldContext: ValidationIssue['field']
+): ValidationIssue[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [{
+      path,
+      message: localize(options, 'TYPE_MISMATCH', { expected: 'color object', actual: Array.isArray(value) ? 'array' : typeof value }),
+      code: 'TYPE_MISMATCH',
+      severity: 'error',
+      value,
+      expected: 'color object with hex',
+      field: fieldContext,
+      suggestions: typeof value === 'string' && HEX_COLOR_PATTERN.test(value)
+        ? [`Use format: { "_type": "color", "hex": "${value}" }`]
+        : [`Use format: { "_type": "color", "hex": "#ff0000" }`],
+      fixes: typeof value === 'string' && HEX_COLOR_PATTERN.test(value)
+        ? [{ op: 'set', path, value: { _type: 'color', hex: value.toLowerCase() }, description: 'Wrap the hex value in a color object' }]
+        : undefined,
+    }]
+  }
+
+  const issues: ValidationIssue[] = []
+  const color = value as Record<string, unknown>
+  const hex = color['hex']
+
+  if (hex === undefined || hex === null) {
+    issues.push({
+      path: `${path}.hex`,
+      message: localize(options, 'MISSING_PROPERTY', { object: 'Color', property: 'hex' }),
+      code: 'MISSING_PROPERTY',
+      severity: 'error',
+      expected: 'hex color string',
+      field: fieldContext,
+      suggestions: [`Add "hex": "#ff0000"`],
+    })
+  } else if (typeof hex !== 'string' || !HEX_COLOR_PATTERN.test(hex)) {
+    const prefixed = typeof hex === 'string' && HEX_COLOR_PATTERN.test(`#${hex}`) ? `#${hex}` : undefined
+    issues.push({
+      path: `${path}.hex`,
+      message: localize(options, 'INVALID_HEX_COLOR', { hex: JSON.stringify(hex) }),
+      code: 'INVALID_HEX_COLOR',
+      severity: 'error',
+      value: hex,
+      expected: '#rgb, #rrggbb or #rrggbbaa',
+      field: fieldContext,
+      suggestions: prefixed ? [`Use "${prefixed}"`] : [`Use format: #ff0000`],
+      fixes: prefixed ? [{ op: 'set', path: `${path}.hex`, value: prefixed, description: `Use "${prefixed}"` }] : undefined,
+    })
+  }
+
+  issues.push(...checkNumberRanges(color, { alpha: 1 }, path, options, fieldContext))
+
+  const models: Array<[string, Record<string, number>]> = [
+    ['rgb', { r: 255, g: 255, b: 255, a: 1 }],
+    ['hsl', { h: 360, s: 1, l: 1, a: 1 }],
+    ['hsv', { h: 360, s: 1, v: 1, a: 1 }],
+  ]
+  for (const [model, channels] of models) {
+    const channelValues = color[model]
+    if (channelValues === undefined) continue
+    if (typeof channelValues !== 'object' || channelValues === null || Array.isArray(channelValues)) {
+      issues.push({
+        path: `${path}.${model}`,
+        message: localize(options, 'PROPERTY_TYPE_MISMATCH', {
+          property: model,
+          expected: 'an object',
+          actual: Array.isArray(channelValues) ? 'array' : typeof channelValues,
+        }),
+        code: 'PROPERTY_TYPE_MISMATCH',
+        severity: 'error',
+        value: channelValues,
+        expected: `object with ${Object.keys(channels).join(', ')}`,
+        field: fieldContext,
+      })
+      continue
+    }
+    issues.push(...checkNumberRanges(channelValues as Record<string, unknown>, channels, `${path}.${model}`, options, fieldContext))
+  }
+
+  issues.push(...checkUnknownFields(color, [], path, options, ['hex', 'alpha', 'rgb', 'hsl', 'hsv']))
+  return issues
+}
+
+/** Hex color in #rgb, #rrggbb or #rrggbbaa form */
+const HEX_COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i
+
+/**
+ * Check that numeric properties (color channels, hotspot and crop values) are
+ * between 0 and their maximum.
+ */
+function checkNumberRanges(
+  obj: Record<string, unknown>,
+  channels: Record<string, number>,
+  path: string,
+  options: FieldValidationOptions,
+  fieldContext: ValidationIssue['field']
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+
+  for (const [channel, max] of Object.entries(channels)) {
+    const channelValue = obj[channel]
+    if (channelValue === undefined) continue
+    if (typeof channelValue !== 'number' || channelValue < 0 || channelValue > max) {
+      issues.push({
+        path: `${path}.${channel}`,
+        message: localize(options, 'NUMBER_OUT_OF_RANGE', { property: channel, max }),
+        code: 'NUMBER_OUT_OF_RANGE',
+        severity: 'error',
+        value: channelValue,
+        expected: `number between 0 and ${max}`,
+        field: fieldContext,
+      })
+    }
+  }
+
+  return issues
+}
+
+function validateCrossDatasetReference(
+  value: unknown,
+  field: ManifestField,
+  path: string,
+  options: FieldValidationOptions,
+  fieldContext: ValidationIssue['field']
+): ValidationIssue[] {
+  const dataset = typeof field['dataset'] === 'string' ? field['dataset'] : undefined
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [{
+      path,
+      message: localize(options, 'TYPE_MISMATCH', {
+        expected: 'cross-dataset reference object',
+        actual: Array.isArray(value) ? 'array' : typeof value,
+      }),
+      code: 'TYPE_MISMATCH',
+      severity: 'error',
+      value,
+      expected: 'reference object with _ref, _dataset and _projectId',
+      field: fieldContext,
+      suggestions: [`Use format: { "_type": "${field.name}", "_ref": "document-id", "_dataset": "${dataset ?? 'dataset'}", "_projectId": "project-id" }`],
+    }]
+  }
+
+  const issues: ValidationIssue[] = []
+  const ref = value as Record<string, unknown>
+
+  const required = [
+    { key: '_ref', expected: 'string (document ID)' },
+    { key: '_dataset', expected: `string (dataset name${dataset ? `, "${dataset}"` : ''})` },
+    { key: '_projectId', expected: 'string (project ID)' },
+  ]
+  for (const { key, expected } of required) {
+    const keyValue = ref[key]
+    if (!keyValue || typeof keyValue !== 'string') {
+      issues.push({
+        path: `${path}.${key}`,
+        message: localize(options, 'MISSING_PROPERTY', { object: 'Cross-dataset reference', property: key }),
+        code: 'MISSING_PROPERTY',
+        severity: 'error',
+        value: keyValue,
+        expected,
+        field: fieldContext,
+        suggestions: [`Add "${key}" to the reference`],
+        fixes: key === '_dataset' && dataset
+          ? [{ op: 'set', path: `${path}._dataset`, value: dataset, description: `Set _dataset to "${dataset}"` }]
+          : undefined,
+      })
+    }
+  }
+
+  const refDataset = ref['_dataset']
+  if (dataset && typeof refDataset === 'string' && refDataset && refDataset !== dataset) {
+    issues.push({
+      path: `${path}._dataset`,
+      message: localize(options, 'CROSS_DATASET_REFERENCE_MISMATCH', { actual: refDataset, expected: dataset }),
+      code: 'CROSS_DATASET_REFERENCE_MISMATCH',
+      severity: 'error',
+      value: refDataset,
+      expected: dataset,
+      field: fieldContext,
+      suggestions: [`Reference a document in the "${dataset}" dataset`],
+    })
+  }
+
+  return issues
+}
+
+function validateGlobalDocumentReference(
+  value: unknown,
+  field: ManifestField,
+  path: string,
+  options: FieldValidationOptions,
+  fieldContext: ValidationIssue['field']
+): ValidationIssue[] {
+  const resourceType = typeof field['resourceType'] === 'string' ? field['resourceType'] : undefined
+  const resourceId = typeof field['resourceId'] === 'string' ? field['resourceId'] : undefined
+  const prefix = resourceType && resourceId ? `${resourceType}:${resourceId}:` : undefined
+  const example = `${prefix ?? 'dataset:project-id.dataset:'}document-id`
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [{
+      path,
+      message: localize(options, 'TYPE_MISMATCH', {
+        expected: 'global document reference object',
+        actual: Array.isArray(value) ? 'array' : typeof value,
+      }),
+      code: 'TYPE_MISMATCH',
+      severity: 'error',
+      value,
+      expected: 'reference object with _ref',
+      field: fieldContext,
+      suggestions: [`Use format: { "_type": "${field.name}", "_ref": "${example}" }`],
+    }]
+  }
+
+  const refValue = (value as Record<string, unknown>)['_ref']
+
+  if (!refValue || typeof refValue !== 'string') {
+    return [{
+      path: `${path}._ref`,
+      message: localize(options, 'MISSING_PROPERTY', { object: 'Global document reference', property: '_ref' }),
+      code: 'MISSING_PROPERTY',
+      severity: 'error',
+      value: refValue,
+      expected: 'string (<resourceType>:<resourceId>:<documentId>)',
+      field: fieldContext,
+      suggestions: [`Add "_ref": "${example}"`],
+    }]
+  }
+
+  const match = /^([^:]+):([^:]+):(.+)$/.exec(refValue)
+  if (!match) {
+    const qualified = prefix && !refValue.includes(':') ? `${prefix}${refValue}` : undefined
+    return [{
+      path: `${path}._ref`,
+      message: localize(options, 'GLOBAL_REFERENCE_MISSING_RESOURCE', { ref: refValue }),
+      code: 'GLOBAL_REFERENCE_MISSING_RESOURCE',
+      severity: 'error',
+      value: refValue,
+      expected: 'string (<resourceType>:<resourceId>:<documentId>)',
+      field: fieldContext,
+      suggestions: [`Use format: "${qualified ?? example}"`],
+      fixes: qualified ? [{ op: 'set', path: `${path}._ref`, value: qualified, description: `Use "${qualified}"` }] : undefined,
+    }]
+  }
+
+  if (prefix && `${match[1]}:${match[2]}:` !== prefix) {
+    return [{
+      path: `${path}._ref`,
+      message: localize(options, 'GLOBAL_REFERENCE_MISMATCH', {
+        actualType: match[1] ?? '',
+        actualId: match[2] ?? '',
+        expectedType: resourceType ?? '',
+        expectedId: resourceId ?? '',
+      }),
+      code: 'GLOBAL_REFERENCE_MISMATCH',
+      severity: 'error',
+      value: refValue,
+      expected: `${prefix}<documentId>`,
+      field: fieldContext,
+      suggestions: [`Reference a document in ${resourceType} "${resourceId}"`],
+    }]
+  }
+
+  return []
+}
+
+/** Block styles Sanity allows when a block type doesn't declare its own */
+const DEFAULT_BLOCK_STYLES = ['normal', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote']
+
+/** List types Sanity allows when a block type doesn't declare its own */
+const DEFAULT_BLOCK_LISTS = ['bullet', 'number']
+
+/** Decorators Sanity allows when a block type doesn't declare its own */
+const DEFAULT_BLOCK_DECORATORS = ['strong', 'em', 'code', 'underline', 'strike-through']
+
+/** Annotations Sanity allows when a block type doesn't declare its own */
+const DEFAULT_BLOCK_ANNOTATIONS: ManifestArrayMember[] = [
+  { type: 'object', name: 'link', fields: [{ type: 'url', name: 'href' }] },
+]
+
 function validateBlock(
   value: unknown,
   field: ManifestField,
   path: string,
   typeMap: Map<string, ManifestSchemaType>,
-  options: ValidateOptions,
+  options: FieldValidationOptions,
   fieldContext: ValidationIssue['field']
 ): ValidationIssue[] {
   const issues: ValidationIssue[] = []
@@ -819,7 +1985,8 @@ function validateBlock(
   if (typeof value !== 'object' || value === null) {
     issues.push({
       path,
-      message: `Expected block object, got ${typeof value}`,
+      message: localize(options, 'TYPE_MISMATCH', { expected: 'block object', actual: typeof value }),
+      code: 'TYPE_MISMATCH',
       severity: 'error',
       value,
       expected: 'portable text block',
@@ -830,43 +1997,116 @@ function validateBlock(
 
   const block = value as Record<string, unknown>
   const blockType = block['_type']
-  const blockKey = block['_key']
+  const blockStyle = block['style']
+  const blockListItem = block['listItem']
   const blockChildren = block['children']
+  const blockMarkDefs = block['markDefs']
 
-  // Check _type
+  // Check _type (the _key is checked by the containing array)
   if (!blockType) {
     issues.push({
       path: `${path}._type`,
-      message: `Block is missing _type`,
+      message: localize(options, 'MISSING_PROPERTY', { object: 'Block', property: '_type' }),
+      code: 'MISSING_PROPERTY',
       severity: 'error',
       expected: 'block type',
       field: fieldContext,
     })
   }
 
-  // Check _key
-  if (!blockKey) {
+  // Check style
+  const styles = field.styles?.map((s) => s.value) ?? DEFAULT_BLOCK_STYLES
+  if (blockStyle !== undefined && !styles.includes(blockStyle as string)) {
     issues.push({
-      path: `${path}._key`,
-      message: `Block is missing _key`,
-      severity: 'warning',
-      expected: 'unique key',
+      path: `${path}.style`,
+      message: localize(options, 'BLOCK_STYLE_NOT_ALLOWED', { style: String(blockStyle) }),
+      code: 'BLOCK_STYLE_NOT_ALLOWED',
+      severity: 'error',
+      value: blockStyle,
+      expected: `one of: ${styles.join(', ')}`,
       field: fieldContext,
+      suggestions: styles.map((s) => `Use style "${s}"`),
+      fixes: styles.map((s) => ({ op: 'set', path: `${path}.style`, value: s, description: `Use style "${s}"` })),
+    })
+  }
+
+  // Check list item
+  const lists = field.lists?.map((l) => l.value) ?? DEFAULT_BLOCK_LISTS
+  if (blockListItem !== undefined && !lists.includes(blockListItem as string)) {
+    issues.push({
+      path: `${path}.listItem`,
+      message: lists.length > 0
+        ? localize(options, 'BLOCK_LIST_NOT_ALLOWED', { listItem: String(blockListItem) })
+        : localize(options, 'BLOCK_LISTS_NOT_ALLOWED'),
+      code: lists.length > 0 ? 'BLOCK_LIST_NOT_ALLOWED' : 'BLOCK_LISTS_NOT_ALLOWED',
+      severity: 'error',
+      value: blockListItem,
+      expected: lists.length > 0 ? `one of: ${lists.join(', ')}` : 'no listItem',
+      field: fieldContext,
+      suggestions: lists.length > 0
+        ? lists.map((l) => `Use listItem "${l}"`)
+        : ['Remove "listItem" from the block'],
+      fixes: [
+        ...lists.map((l): ValidationFix => ({
+          op: 'set',
+          path: `${path}.listItem`,
+          value: l,
+          description: `Use listItem "${l}"`,
+        })),
+        { op: 'unset', path: `${path}.listItem`, description: 'Remove "listItem" from the block' },
+      ],
     })
   }
 
+  // Validate mark definitions against the allowed annotations
+  const annotations = field.marks?.annotations ?? DEFAULT_BLOCK_ANNOTATIONS
+  const markDefKeys = new Map<string, number>()
+
+  if (blockMarkDefs !== undefined && !Array.isArray(blockMarkDefs)) {
+    issues.push({
+      path: `${path}.markDefs`,
+      message: localize(options, 'PROPERTY_TYPE_MISMATCH', { property: 'markDefs', expected: 'an array', actual: typeof blockMarkDefs }),
+      code: 'PROPERTY_TYPE_MISMATCH',
+      severity: 'error',
+      value: blockMarkDefs,
+      expected: 'array of annotation objects',
+      field: fieldContext,
+    })
+  } else if (Array.isArray(blockMarkDefs)) {
+    issues.push(...validateMarkDefs(blockMarkDefs, annotations, `${path}.markDefs`, typeMap, options, fieldContext, markDefKeys))
+  }
+
   // Validate children if present
+  const decorators = field.marks?.decorators?.map((d) => d.value) ?? DEFAULT_BLOCK_DECORATORS
+  const usedMarks = new Set<string>()
+
   if (blockChildren && Array.isArray(blockChildren)) {
     for (let i = 0; i < blockChildren.length; i++) {
-      const child = blockChildren[i] as Record<string, unknown>
       const childPath = `${path}.children[${i}]`
-      const childType = child['_type']
-      const childKey = child['_key']
+      const child = blockChildren[i]
+
+      if (typeof child !== 'object' || child === null) {
+        issues.push({
+          path: childPath,
+          message: localize(options, 'TYPE_MISMATCH', { expected: 'block child object', actual: typeof child }),
+          code: 'TYPE_MISMATCH',
+          severity: 'error',
+          value: child,
+          expected: 'span or inline object',
+          field: fieldContext,
+        })
+        continue
+      }
+
+      const childObj = child as Record<string, unknown>
+      const childType = childObj['_type']
+      const childKey = childObj['_key']
 
       if (!childType) {
         issues.push({
           path: `${childPath}._type`,
-          message: `Block child is missing _type`,
+          message: localize(options, 'MISSING_PROPERTY', { object: 'Block child', property: '_type' }),
+          code: 'MISSING_PROPERTY',
           severity: 'error',
           expected: 'span or inline type',
           field: fieldContext,
@@ -876,36 +2116,345 @@ function validateBlock(
       if (!childKey) {
         issues.push({
           path: `${childPath}._key`,
-          message: `Block child is missing _key`,
+          message: localize(options, 'MISSING_PROPERTY', { object: 'Block child', property: '_key' }),
+          code: 'MISSING_PROPERTY',
           severity: 'warning',
           expected: 'unique key',
           field: fieldContext,
         })
       }
+
+      if (childType === 'span') {
+        issues.push(...validateSpan(childObj, childPath, options, fieldContext))
+        issues.push(...validateSpanMarks(childObj, childPath, decorators, markDefKeys, usedMarks, options, fieldContext))
+      } else if (childType) {
+        issues.push(...validateInlineObject(childObj, field.of ?? [], childPath, typeMap, options, fieldContext))
+      }
+    }
+  }
+
+  // Report mark definitions that no span uses
+  for (const [key, index] of markDefKeys) {
+    if (!usedMarks.has(key)) {
+      issues.push({
+        path: `${path}.markDefs[${index}]`,
+        message: localize(options, 'MARK_DEFINITION_UNUSED', { key }),
+        code: 'MARK_DEFINITION_UNUSED',
+        severity: 'warning',
+        value: key,
+        field: fieldContext,
+        suggestions: [`Remove the unused mark definition, or add "${key}" to the marks of a span`],
+        fixes: [{ op: 'unset', path: `${path}.markDefs[${index}]`, description: 'Remove the unused mark definition' }],
+      })
     }
   }
 
   return issues
 }
 
+/**
+ * Validate a block's mark definitions against its allowed annotations,
+ * collecting their keys (with index) into `markDefKeys`.
+ */
+function validateMarkDefs(
+  markDefs: unknown[],
+  annotations: ManifestArrayMember[],
+  path: string,
+  typeMap: Map<string, ManifestSchemaType>,
+  options: FieldValidationOptions,
+  fieldContext: ValidationIssue['field'],
+  markDefKeys: Map<string, number>
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  const allowedTypes = annotations.map((a) => a.name || a['type']).filter(Boolean) as string[]
+
+  for (let i = 0; i < markDefs.length; i++) {
+    const markDef = markDefs[i]
+    const markDefPath = `${path}[${i}]`
+
+    if (typeof markDef !== 'object' || markDef === null || Array.isArray(markDef)) {
+      issues.push({
+        path: markDefPath,
+        message: localize(options, 'TYPE_MISMATCH', {
+          expected: 'mark definition object',
+          actual: Array.isArray(markDef) ? 'array' : typeof markDef,
+        }),
+        code: 'TYPE_MISMATCH',
+        severity: 'error',
+        value: markDef,
+        expected: 'annotation object with _key and _type',
+        field: fieldContext,
+      })
+      continue
+    }
+
+    const def = markDef as Record<string, unknown>
+    const markKey = def['_key']
+    const markType = def['_type']
+
+    if (!markKey || typeof markKey !== 'string') {
+      issues.push({
+        path: `${markDefPath}._key`,
+        message: localize(options, 'MISSING_PROPERTY', { object: 'Mark definition', property: '_key' }),
+        code: 'MISSING_PROPERTY',
+        severity: 'error',
+        expected: 'unique key referenced from span marks',
+        field: fieldContext,
+      })
+    } else {
+      markDefKeys.set(markKey, i)
+    }
+
+    const annotation = annotations.find((a) => a.name === markType || a['type'] === markType)
+    if (!annotation) {
+      issues.push({
+        path: `${markDefPath}._type`,
+        message: markType
+          ? localize(options, 'ANNOTATION_NOT_ALLOWED', { type: String(markType) })
+          : localize(options, 'MISSING_PROPERTY', { object: 'Mark definition', property: '_type' }),
+        code: markType ? 'ANNOTATION_NOT_ALLOWED' : 'MISSING_PROPERTY',
+        severity: 'error',
+        value: markType,
+        expected: allowedTypes.length > 0 ? `one of: ${allowedTypes.join(', ')}` : 'no annotations',
+        field: fieldContext,
+        suggestions: allowedTypes.length > 0
+          ? allowedTypes.map((t) => `Change _type to "${t}"`)
+          : ['Remove the mark definition'],
+      })
+      continue
+    }
+
+    // Validate the annotation's fields
+    const namedType = annotation['fields'] ? undefined : typeMap.get(annotation['type'] as string)
+    const annotationFields = (annotation['fields'] ?? namedType?.fields) as ManifestField[] | undefined
+    const annotationOptions = namedType ? inObjectType(options, namedType.name, markDefPath) : options
+    for (const f of annotationFields ?? []) {
+      issues.push(...validateField(def[f.name], f, `${markDefPath}.${f.name}`, typeMap, annotationOptions))
+    }
+    issues.push(...checkUnknownFields(def, annotationFields ?? [], markDefPath, options))
+  }
+
+  return issues
+}
+
+/**
+ * Validate an inline object in a block's children against the block's `of` members.
+ */
+function validateInlineObject(
+  child: Record<string, unknown>,
+  inlineMembers: ManifestArrayMember[],
+  path: string,
+  typeMap: Map<string, ManifestSchemaType>,
+  options: FieldValidationOptions,
+  fieldContext: ValidationIssue['field']
+): ValidationIssue[] {
+  const childType = child['_type'] as string
+  const member = inlineMembers.find((m) => m.name === childType || m['type'] === childType)
+
+  if (!member) {
+    const allowedTypes = inlineMembers.map((m) => m.name || m['type']).filter(Boolean) as string[]
+    return [{
+      path: `${path}._type`,
+      message: localize(options, 'INLINE_TYPE_NOT_ALLOWED', { type: childType }),
+      code: 'INLINE_TYPE_NOT_ALLOWED',
+      severity: 'error',
+      value: childType,
+      expected: allowedTypes.length > 0 ? `span or one of: ${allowedTypes.join(', ')}` : 'span',
+      field: fieldContext,
+      suggestions: allowedTypes.length > 0
+        ? allowedTypes.map((t) => `Change _type to "${t}"`)
+        : ['Use a span, or add the inline type to the block\'s "of" members'],
+    }]
+  }
+
+  // Resolve named types (e.g., { type: 'product' }) to their definitions
+  const memberType = member['type'] as string
+  const definition = (typeMap.get(memberType) ?? member) as ManifestSchemaType
+  const inlineField = { ...definition, name: member.name ?? definition.name ?? childType } as ManifestField
+
+  return validateField(child, inlineField, path, typeMap, options)
+}
+
+/**
+ * Validate the structure of a span: its text and the shape of its marks.
+ * Whether marks are allowed depends on the enclosing block, see validateSpanMarks.
+ */
+function validateSpan(
+  value: unknown,
+  path: string,
+  options: FieldValidationOptions,
+  fieldContext: ValidationIssue['field']
+): ValidationIssue[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [{
+      path,
+      message: localize(options, 'TYPE_MISMATCH', { expected: 'span object', actual: Array.isArray(value) ? 'array' : typeof value }),
+      code: 'TYPE_MISMATCH',
+      severity: 'error',
+      value,
+      expected: 'span object with text',
+      field: fieldContext,
+      suggestions: [`Use format: { "_type": "span", "_key": "...", "text": "Hello", "marks": [] }`],
+    }]
+  }
+
+  const issues: ValidationIssue[] = []
+  const span = value as Record<string, unknown>
+  const text = span['text']
+  const marks = span['marks']
+
+  if (text === undefined || text === null) {
+    issues.push({
+      path: `${path}.text`,
+      message: localize(options, 'MISSING_PROPERTY', { object: 'Span', property: 'text' }),
+      code: 'MISSING_PROPERTY',
+      severity: 'error',
+      expected: 'string',
+      field: fieldContext,
+      suggestions: [`Add "text" to the span (use "" for an empty span)`],
+      fixes: [{ op: 'set', path: `${path}.text`, value: '', description: 'Set text to ""' }],
+    })
+  } else if (typeof text !== 'string') {
+    issues.push({
+      path: `${path}.text`,
+      message: localize(options, 'PROPERTY_TYPE_MISMATCH', { property: 'span text', expected: 'a string', actual: typeof text }),
+      code: 'PROPERTY_TYPE_MISMATCH',
+      severity: 'error',
+      value: text,
+      expected: 'string',
+      field: fieldContext,
+      fixes: typeof text === 'number' || typeof text === 'boolean'
+        ? [{ op: 'set', path: `${path}.text`, value: String(text), description: `Convert to "${text}"` }]
+        : undefined,
+    })
+  }
+
+  if (marks !== undefined && !Array.isArray(marks)) {
+    issues.push({
+      path: `${path}.marks`,
+      message: localize(options, 'PROPERTY_TYPE_MISMATCH', { property: 'marks', expected: 'an array', actual: typeof marks }),
+      code: 'PROPERTY_TYPE_MISMATCH',
+      severity: 'error',
+      value: marks,
+      expected: 'array of decorator names and mark definition keys',
+      field: fieldContext,
+    })
+  } else if (Array.isArray(marks)) {
+    marks.forEach((mark, j) => {
+      if (typeof mark !== 'string') {
+        issues.push({
+          path: `${path}.marks[${j}]`,
+          message: localize(options, 'PROPERTY_TYPE_MISMATCH', { property: 'mark', expected: 'a string', actual: typeof mark }),
+          code: 'PROPERTY_TYPE_MISMATCH',
+          severity: 'error',
+          value: mark,
+          expected: 'decorator name or mark definition key',
+          field: fieldContext,
+          fixes: [{ op: 'unset', path: `${path}.marks[${j}]`, description: 'Remove the mark' }],
+        })
+      }
+    })
+  }
+
+  issues.push(...checkUnknownFields(span, [], path, options, ['text', 'marks']))
+  return issues
+}
+
+/**
+ * Validate a span's marks: each must be an allowed decorator or the key of a mark definition.
+ */
+function validateSpanMarks(
+  span: Record<string, unknown>,
+  path: string,
+  decorators: string[],
+  markDefKeys: Map<string, number>,
+  usedMarks: Set<string>,
+  options: FieldValidationOptions,
+  fieldContext: ValidationIssue['field']
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  const marks = span['marks']
+
+  // The shape of marks is checked by validateSpan
+  if (!Array.isArray(marks)) return issues
+
+  marks.forEach((mark, j) => {
+    if (typeof mark !== 'string') return
+    if (markDefKeys.has(mark)) {
+      usedMarks.add(mark)
+      return
+    }
+    if (decorators.includes(mark)) {
+      return
+    }
+
+    const knownKeys = Array.from(markDefKeys.keys())
+    issues.push({
+      path: `${path}.marks[${j}]`,
+      message: DEFAULT_BLOCK_DECORATORS.includes(mark)
+        ? localize(options, 'DECORATOR_NOT_ALLOWED', { mark })
+        : localize(options, 'MARK_NOT_ALLOWED', { mark }),
+      code: DEFAULT_BLOCK_DECORATORS.includes(mark) ? 'DECORATOR_NOT_ALLOWED' : 'MARK_NOT_ALLOWED',
+      severity: 'error',
+      value: mark,
+      expected: `one of: ${[...decorators, ...knownKeys].join(', ') || 'no marks'}`,
+      field: fieldContext,
+      suggestions: [
+        `Remove "${mark}" from marks`,
+        ...decorators.map((d) => `Use decorator "${d}"`),
+      ],
+      fixes: [
+        { op: 'unset', path: `${path}.marks[${j}]`, description: `Remove "${mark}" from marks` },
+        ...decorators.map((d): ValidationFix => ({
+          op: 'set',
+          path: `${path}.marks[${j}]`,
+          value: d,
+          description: `Use decorator "${d}"`,
+        })),
+      ],
+    })
+  })
+
+  return issues
+}
+
 function applyValidationRules(
   value: unknown,
-  rules: ManifestValidationRule[],
+  group: ManifestValidationGroup,
   path: string,
   field: ManifestField,
+  options: FieldValidationOptions,
   fieldContext: ValidationIssue['field']
 ): ValidationIssue[] {
   const issues: ValidationIssue[] = []
+  const severity = group.level ?? 'error'
 
-  for (const rule of rules) {
+  for (const rule of group.rules) {
     switch (rule.flag) {
       case 'min': {
+        if (field.type === 'date' || field.type === 'datetime') {
+          if (compareDates(value, rule.constraint, field) < 0) {
+            issues.push({
+              path,
+              message: group.message ?? localize(options, 'MIN_DATE', { min: String(rule.constraint) }),
+              code: 'MIN_DATE',
+              severity,
+              rule,
+              value,
+              expected: `${field.type} >= ${rule.constraint}`,
+              field: fieldContext,
+            })
+          }
+          break
+        }
+
         const min = rule.constraint as number
         if (typeof value === 'string' && value.length < min) {
           issues.push({
             path,
-            message: `Must be at least ${min} characters`,
-            severity: 'error',
+            message: group.message ?? localize(options, 'MIN_LENGTH', { min }),
+            code: 'MIN_LENGTH',
+            severity,
             rule,
             value,
             expected: `string with length >= ${min}`,
@@ -915,8 +2464,9 @@ function applyValidationRules(
         } else if (typeof value === 'number' && value < min) {
           issues.push({
             path,
-            message: `Must be at least ${min}`,
-            severity: 'error',
+            message: group.message ?? localize(options, 'MIN_VALUE', { min }),
+            code: 'MIN_VALUE',
+            severity,
             rule,
             value,
             expected: `number >= ${min}`,
@@ -925,35 +2475,55 @@ function applyValidationRules(
         } else if (Array.isArray(value) && value.length < min) {
           issues.push({
             path,
-            message: `Must have at least ${min} item${min === 1 ? '' : 's'}`,
-            severity: 'error',
+            message: group.message ?? localize(options, 'MIN_ITEMS', { min }),
+            code: 'MIN_ITEMS',
+            severity,
             rule,
             value: value.length,
             expected: `array with length >= ${min}`,
             field: fieldContext,
           })
         }
-        break
-      }
+        break
+      }
+
+      case 'max': {
+        if (field.type === 'date' || field.type === 'datetime') {
+          if (compareDates(value, rule.constraint, field) > 0) {
+            issues.push({
+              path,
+              message: group.message ?? localize(options, 'MAX_DATE', { max: String(rule.constraint) }),
+              code: 'MAX_DATE',
+              severity,
+              rule,
+              value,
+              expected: `${field.type} <= ${rule.constraint}`,
+              field: fieldContext,
+            })
+          }
+          break
+        }
 
-      case 'max': {
         const max = rule.constraint as number
         if (typeof value === 'string' && value.length > max) {
           issues.push({
             path,
-            message: `Must be at most ${max} characters (currently ${value.length})`,
-            severity: 'error',
+            message: group.message ?? localize(options, 'MAX_LENGTH', { max, length: value.length }),
+            code: 'MAX_LENGTH',
+            severity,
             rule,
             value,
             expected: `string with length <= ${max}`,
             field: fieldContext,
             suggestions: [`Remove ${value.length - max} character${value.length - max === 1 ? '' : 's'}`],
+            fixes: [{ op: 'set', path, value: value.slice(0, max), description: `Truncate to ${max} characters` }],
           })
         } else if (typeof value === 'number' && value > max) {
           issues.push({
             path,
-            message: `Must be at most ${max}`,
-            severity: 'error',
+            message: group.message ?? localize(options, 'MAX_VALUE', { max }),
+            code: 'MAX_VALUE',
+            severity,
             rule,
             value,
             expected: `number <= ${max}`,
@@ -962,8 +2532,9 @@ function applyValidationRules(
         } else if (Array.isArray(value) && value.length > max) {
           issues.push({
             path,
-            message: `Must have at most ${max} item${max === 1 ? '' : 's'} (currently ${value.length})`,
-            severity: 'error',
+            message: group.message ?? localize(options, 'MAX_ITEMS', { max, length: value.length }),
+            code: 'MAX_ITEMS',
+            severity,
             rule,
             value: value.length,
             expected: `array with length <= ${max}`,
@@ -973,14 +2544,50 @@ function applyValidationRules(
         break
       }
 
+      case 'integer': {
+        if (typeof value === 'number' && !Number.isInteger(value)) {
+          issues.push({
+            path,
+            message: group.message ?? localize(options, 'NOT_INTEGER'),
+            code: 'NOT_INTEGER',
+            severity,
+            rule,
+            value,
+            expected: 'integer',
+            field: fieldContext,
+            suggestions: [`Round to ${Math.round(value)}`],
+            fixes: [{ op: 'set', path, value: Math.round(value), description: `Round to ${Math.round(value)}` }],
+          })
+        }
+        break
+      }
+
+      case 'positive': {
+        if (typeof value === 'number' && value <= 0) {
+          issues.push({
+            path,
+            message: group.message ?? localize(options, 'NOT_POSITIVE'),
+            code: 'NOT_POSITIVE',
+            severity,
+            rule,
+            value,
+            expected: 'positive number',
+            field: fieldContext,
+            suggestions: [`Use a positive value`],
+          })
+        }
+        break
+      }
+
       case 'length': {
         const constraint = rule.constraint as { min?: number; max?: number }
         if (typeof value === 'string') {
           if (constraint.min !== undefined && value.length < constraint.min) {
             issues.push({
               path,
-              message: `Must be at least ${constraint.min} characters`,
-              severity: 'error',
+              message: group.message ?? localize(options, 'MIN_LENGTH', { min: constraint.min }),
+              code: 'MIN_LENGTH',
+              severity,
               rule,
               value,
               field: fieldContext,
@@ -989,8 +2596,9 @@ function applyValidationRules(
           if (constraint.max !== undefined && value.length > constraint.max) {
             issues.push({
               path,
-              message: `Must be at most ${constraint.max} characters`,
-              severity: 'error',
+              message: group.message ?? localize(options, 'MAX_LENGTH', { max: constraint.max, length: value.length }),
+              code: 'MAX_LENGTH',
+              severity,
               rule,
               value,
               field: fieldContext,
@@ -1008,10 +2616,9 @@ function applyValidationRules(
             if (!regex.test(value)) {
               issues.push({
                 path,
-                message: constraint.name
-                  ? `Does not match ${constraint.name} format`
-                  : `Does not match required pattern`,
-                severity: 'error',
+                message: group.message ?? localize(options, 'PATTERN_MISMATCH', constraint.name ? { name: constraint.name } : {}),
+                code: 'PATTERN_MISMATCH',
+                severity,
                 rule,
                 value,
                 expected: constraint.name || constraint.pattern,
@@ -1026,11 +2633,14 @@ function applyValidationRules(
       }
 
       case 'email': {
-        if (typeof value === 'string' && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) {
+        // Email fields are already checked by validateEmail
+        if (field.type === 'email') break
+        if (typeof value === 'string' && !EMAIL_PATTERN.test(value)) {
           issues.push({
             path,
-            message: `Invalid email address`,
-            severity: 'error',
+            message: group.message ?? localize(options, 'INVALID_EMAIL', { value }),
+            code: 'INVALID_EMAIL',
+            severity,
             rule,
             value,
             expected: 'valid email address',
@@ -1048,8 +2658,9 @@ function applyValidationRules(
           } catch {
             issues.push({
               path,
-              message: `Invalid URL`,
-              severity: 'error',
+              message: group.message ?? localize(options, 'INVALID_URL', { value }),
+              code: 'INVALID_URL',
+              severity,
               rule,
               value,
               expected: 'valid URL',
@@ -1061,22 +2672,137 @@ function applyValidationRules(
       }
 
       case 'unique': {
-        // Unique validation requires context we don't have here
-        // This would need to be handled at a higher level
+        // Uniqueness across documents is checked by validateDocumentAsync.
+        // For arrays, items must be unique within the array itself.
+        if (Array.isArray(value)) {
+          const seen = new Map<string, number>()
+          value.forEach((item, i) => {
+            const itemKey = JSON.stringify(stripKey(item))
+            const firstIndex = seen.get(itemKey)
+            if (firstIndex === undefined) {
+              seen.set(itemKey, i)
+              return
+            }
+            issues.push({
+              path: `${path}[${i}]`,
+              message: group.message ?? localize(options, 'DUPLICATE_ITEM', { index: firstIndex }),
+              code: 'DUPLICATE_ITEM',
+              severity,
+              rule,
+              value: item,
+              expected: 'unique array items',
+              field: fieldContext,
+              suggestions: [`Remove the duplicate item at index ${i}`],
+              fixes: [{ op: 'unset', path: `${path}[${i}]`, description: 'Remove the duplicate item' }],
+            })
+          })
+        }
         break
       }
+    }
+  }
 
-      case 'custom': {
-        // Custom validation can't be evaluated - it's a JS function
-        // We note this as info
-        issues.push({
+  return issues
+}
+
+/**
+ * Options for validating the fields of a named object type at `path`, so
+ * custom rules can be keyed by the type's name (e.g., "seo.title").
+ */
+function inObjectType(options: FieldValidationOptions, name: string, path: string): FieldValidationOptions {
+  return { ...options, objectType: { name, path } }
+}
+
+/**
+ * Format a built-in message in the locale of the validation options.
+ */
+function localize(options: ValidateOptions, id: MessageId, params?: MessageParams): string {
+  return formatMessage(id, params, options.locale)
+}
+
+/**
+ * Evaluate `custom` rules with the validators in `options.customRules`.
+ *
+ * Custom validation is a JS function in the Studio, so rules without a
+ * registered validator can't be evaluated and are noted as info. Async
+ * validators are collected in `options.pendingIssues` when validating
+ * asynchronously, and noted as info otherwise.
+ */
+function checkCustomRules(
+  value: unknown,
+  field: ManifestField,
+  path: string,
+  options: FieldValidationOptions,
+  fieldContext: ValidationIssue['field']
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  const document = options.document ?? {}
+  const hasValue = value !== undefined && value !== null
+  const { objectType } = options
+  const typeKey = objectType
+    ? `${objectType.name}.${path.slice(objectType.path.length + 1).replace(/\[[^\]]*\]/g, '[]')}`
+    : undefined
+
+  for (const group of field.validation ?? []) {
+    for (const rule of group.rules) {
+      if (rule.flag !== 'custom') continue
+
+      const context = { document, path, ...(typeKey && { typeKey }), field, rule, group }
+      const validators = options.customRules?.find(context) ?? []
+      if (validators.length === 0) {
+        if (hasValue) {
+          issues.push({
+            path,
+            message: localize(options, 'CUSTOM_RULE_NOT_EVALUATED'),
+            code: 'CUSTOM_RULE_NOT_EVALUATED',
+            severity: 'info',
+            rule,
+            field: fieldContext,
+          })
+        }
+        continue
+      }
+
+      const parent = getValueAtPath(document, getParentPath(path))
+      for (const { name, validate } of validators) {
+        const defaults: ValidationIssue = {
           path,
-          message: `Has custom validation that cannot be evaluated`,
-          severity: 'info',
-          rule,
+          message: '',
+          code: 'CUSTOM_RULE',
+          severity: group.level ?? 'error',
+          rule: { flag: 'custom', constraint: name },
+          value,
           field: fieldContext,
-        })
-        break
+        }
+
+        let result: CustomRuleResult | Promise<CustomRuleResult>
+        try {
+          result = validate({ ...context, value, parent })
+        } catch (error) {
+          issues.push(customRuleFailure(name, error, defaults, options))
+          continue
+        }
+
+        if (result instanceof Promise) {
+          if (options.pendingIssues) {
+            options.pendingIssues.push(result.then(
+              (resolved) => toCustomRuleIssues(resolved, defaults),
+              (error: unknown) => [customRuleFailure(name, error, defaults, options)]
+            ))
+          } else {
+            // Not awaited, so don't let a rejection go unhandled
+            result.catch(() => undefined)
+            issues.push({
+              ...defaults,
+              message: localize(options, 'CUSTOM_RULE_ASYNC', { name }),
+              code: 'CUSTOM_RULE_ASYNC',
+              severity: 'info',
+            })
+          }
+          continue
+        }
+
+        issues.push(...toCustomRuleIssues(result, defaults))
       }
     }
   }
@@ -1084,6 +2810,510 @@ function applyValidationRules(
   return issues
 }
 
+function toCustomRuleIssues(result: CustomRuleResult, defaults: ValidationIssue): ValidationIssue[] {
+  const returned = Array.isArray(result) ? result : result ? [result] : []
+  return returned.map((issue) => ({ ...defaults, ...issue }))
+}
+
+function customRuleFailure(
+  name: string,
+  error: unknown,
+  defaults: ValidationIssue,
+  options: ValidateOptions
+): ValidationIssue {
+  return {
+    ...defaults,
+    message: localize(options, 'CUSTOM_RULE_FAILED', {
+      name,
+      error: error instanceof Error ? error.message : String(error),
+    }),
+    code: 'CUSTOM_RULE_FAILED',
+    severity: 'error',
+  }
+}
+
+/**
+ * Check whether a field is hidden, evaluating conditional `hidden` with the
+ * document being validated.
+ */
+function isFieldHidden(
+  field: ManifestField,
+  path: string,
+  value: unknown,
+  options: FieldValidationOptions
+): boolean {
+  const document = options.document ?? {}
+  const parent = getValueAtPath(document, getParentPath(path))
+  return evaluateFieldCondition('hidden', field, { path, document, parent, value }, options.evaluateCondition)
+}
+
+/**
+ * Report keys of an object that are not declared as fields in the schema.
+ *
+ * Keys starting with `_` (`_id`, `_rev`, `_key`, `_weak`, ...) are managed by
+ * Sanity and are never reported. Unknown keys that are close to a declared
+ * field name get "did you mean" suggestions and a rename fix.
+ */
+function checkUnknownFields(
+  obj: Record<string, unknown>,
+  fields: ManifestSchemaType[],
+  path: string,
+  options: FieldValidationOptions,
+  builtInKeys: string[] = []
+): ValidationIssue[] {
+  const { unknownFields = 'warning' } = options
+  if (unknownFields === 'ignore') return []
+
+  const issues: ValidationIssue[] = []
+  const fieldNames = fields.map((f) => f.name)
+  const known = new Set([...fieldNames, ...builtInKeys])
+  const prefix = path ? `${path}.` : ''
+
+  for (const [key, value] of Object.entries(obj)) {
+    if (key.startsWith('_') || known.has(key) || value === undefined) continue
+
+    const keyPath = `${prefix}${key}`
+    const candidates = findSimilarNames(key, fieldNames)
+
+    issues.push({
+      path: keyPath,
+      message: localize(options, 'UNKNOWN_FIELD', { name: key }),
+      code: 'UNKNOWN_FIELD',
+      severity: unknownFields,
+      value,
+      expected: fieldNames.length > 0
+        ? `one of: ${fieldNames.slice(0, 10).join(', ')}${fieldNames.length > 10 ? '...' : ''}`
+        : 'no fields',
+      suggestions: candidates.length > 0
+        ? candidates.map((name) => `Did you mean "${name}"?`)
+        : [`Remove "${key}" or add it to the schema`],
+      fixes: [
+        ...candidates
+          .filter((name) => obj[name] === undefined)
+          .map((name): ValidationFix => ({
+            op: 'rename',
+            path: keyPath,
+            to: `${prefix}${name}`,
+            value,
+            description: `Rename to "${name}"`,
+          })),
+        { op: 'unset', path: keyPath, description: `Remove "${key}"` },
+      ],
+    })
+  }
+
+  return issues
+}
+
+/**
+ * Find declared names within a small edit distance of a name, closest first.
+ */
+function findSimilarNames(name: string, candidates: string[]): string[] {
+  const maxDistance = Math.max(1, Math.floor(name.length / 3))
+  return candidates
+    .map((candidate) => ({
+      candidate,
+      distance: editDistance(name.toLowerCase(), candidate.toLowerCase()),
+    }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, 3)
+    .map(({ candidate }) => candidate)
+}
+
+/**
+ * Levenshtein distance between two strings.
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(
+        (previous[j] ?? 0) + 1,
+        (current[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + cost
+      )
+    }
+    previous = current
+  }
+
+  return previous[b.length] ?? 0
+}
+
+/**
+ * Remove `_key` from an array item so items can be compared by content.
+ */
+function stripKey(item: unknown): unknown {
+  if (typeof item !== 'object' || item === null || Array.isArray(item)) return item
+  const { _key, ...rest } = item as Record<string, unknown>
+  return rest
+}
+
+/**
+ * A reference found in a document, with the schema definition that governs it.
+ */
+interface CollectedReference {
+  /** Path to the reference object (e.g., "content[0].markDefs[1].reference") */
+  path: string
+  /** The referenced document ID */
+  id: string
+  /** Allowed target types, or undefined if the reference has no known schema */
+  targets?: string[]
+  /** Whether the reference is allowed to point to a missing document */
+  weak: boolean
+  /** Field information for context */
+  field?: ValidationIssue['field']
+}
+
+/**
+ * Collect all references in a value, following the schema where possible.
+ *
+ * References found in parts of the document without a matching schema
+ * definition are still collected, but without target restrictions.
+ */
+function collectReferences(
+  document: Record<string, unknown>,
+  schemaType: ManifestSchemaType,
+  typeMap: Map<string, ManifestSchemaType>
+): CollectedReference[] {
+  const references: CollectedReference[] = []
+
+  function visitFields(
+    obj: Record<string, unknown>,
+    fields: ManifestField[],
+    path: string
+  ): void {
+    const declared = new Set<string>()
+    for (const field of fields) {
+      declared.add(field.name)
+      const fieldPath = path ? `${path}.${field.name}` : field.name
+      visit(obj[field.name], field, fieldPath)
+    }
+    // Undeclared properties may still hold references
+    for (const [key, value] of Object.entries(obj)) {
+      if (!declared.has(key)) {
+        visitUnknown(value, path ? `${path}.${key}` : key)
+      }
+    }
+  }
+
+  function visit(
+    value: unknown,
+    def: ManifestSchemaType,
+    path: string
+  ): void {
+    if (typeof value !== 'object' || value === null) return
+
+    const fieldContext = def.name
+      ? { name: def.name, type: def.type, title: def.title }
+      : undefined
+
+    switch (def.type) {
+      case 'reference': {
+        const ref = (value as Record<string, unknown>)['_ref']
+        if (typeof ref === 'string' && ref) {
+          const weak = (value as Record<string, unknown>)['_weak'] === true || def.weak === true
+          references.push({
+            path,
+            id: ref,
+            targets: (def.to ?? [])
+              .map((t: ManifestReferenceMember) => t['type'])
+              .filter((t): t is string => typeof t === 'string'),
+            weak,
+            field: fieldContext,
+          })
+        }
+        return
+      }
+
+      case 'crossDatasetReference':
+      case 'globalDocumentReference':
+        // Point to documents outside this dataset, which resolveReference cannot look up
+        return
+
+      case 'array': {
+        if (!Array.isArray(value)) return visitUnknown(value, path)
+        const members = def.of ?? []
+        value.forEach((item, i) => {
+          const member = findMember(members, item)
+          if (member) {
+            visit(item, member as ManifestSchemaType, `${path}[${i}]`)
+          } else {
+            visitUnknown(item, `${path}[${i}]`)
+          }
+        })
+        return
+      }
+
+      case 'block': {
+        const block = value as Record<string, unknown>
+        const markDefs = block['markDefs']
+        if (Array.isArray(markDefs)) {
+          const annotations = def.marks?.annotations ?? []
+          markDefs.forEach((markDef, i) => {
+            const annotation = findMember(annotations, markDef)
+            if (annotation) {
+              visit(markDef, annotation as ManifestSchemaType, `${path}.markDefs[${i}]`)
+            } else {
+              visitUnknown(markDef, `${path}.markDefs[${i}]`)
+            }
+          })
+        }
+        const children = block['children']
+        if (Array.isArray(children)) {
+          const inlineMembers = def.of ?? []
+          children.forEach((child, i) => {
+            const member = findMember(inlineMembers, child)
+            if (member) {
+              visit(child, member as ManifestSchemaType, `${path}.children[${i}]`)
+            } else {
+              visitUnknown(child, `${path}.children[${i}]`)
+            }
+          })
+        }
+        return
+      }
+
+      default: {
+        if (Array.isArray(value)) return visitUnknown(value, path)
+        const fields = def.fields ?? typeMap.get(def.type)?.fields
+        if (fields) {
+          visitFields(value as Record<string, unknown>, fields, path)
+          return
+        }
+        // Named custom types that are not objects (e.g., an alias of 'reference')
+        const customType = typeMap.get(def.type)
+        if (customType && customType.type !== def.type && customType.type !== 'document') {
+          visit(value, customType, path)
+          return
+        }
+        visitUnknown(value, path)
+      }
+    }
+  }
+
+  function visitUnknown(value: unknown, path: string): void {
+    if (typeof value !== 'object' || value === null) return
+
+    if (Array.isArray(value)) {
+      value.forEach((item, i) => visitUnknown(item, `${path}[${i}]`))
+      return
+    }
+
+    const obj = value as Record<string, unknown>
+    const ref = obj['_ref']
+    if (typeof ref === 'string' && ref) {
+      // Cross-dataset references point outside this dataset
+      if (obj['_dataset'] === undefined) {
+        references.push({ path, id: ref, weak: obj['_weak'] === true })
+      }
+      return
+    }
+
+    for (const [key, child] of Object.entries(obj)) {
+      visitUnknown(child, path ? `${path}.${key}` : key)
+    }
+  }
+
+  visitFields(document, schemaType.fields ?? [], '')
+  return references
+}
+
+/**
+ * Find the array member (or annotation) definition matching an item's `_type`.
+ */
+function findMember(
+  members: ManifestArrayMember[],
+  item: unknown
+): ManifestArrayMember | undefined {
+  if (typeof item !== 'object' || item === null) return undefined
+  const itemType = (item as Record<string, unknown>)['_type']
+  if (typeof itemType !== 'string') return undefined
+  return members.find((m) => m['type'] === itemType || m.name === itemType)
+}
+
+/**
+ * Map over items with an async function, running at most `concurrency` calls at a time.
+ */
+async function mapConcurrent<T, R>(
+  items: T[],
+  fn: (item: T) => Promise<R>,
+  concurrency: number
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index] as T)
+    }
+  }
+
+  // NaN, Infinity or a value below 1 would start no workers, so use the default instead
+  const limit = Number.isFinite(concurrency) && concurrency >= 1 ? Math.floor(concurrency) : 10
+  const workerCount = Math.min(limit, items.length)
+  await Promise.all(Array.from({ length: workerCount }, () => worker()))
+  return results
+}
+
+/**
+ * Check a collected reference against the type its target resolved to.
+ */
+function checkResolvedReference(
+  reference: CollectedReference,
+  resolvedType: string | null,
+  options: ValidateOptions
+): ValidationIssue[] {
+  const { path, id, targets, weak, field } = reference
+
+  if (resolvedType === null) {
+    if (weak) return []
+    return [{
+      path: `${path}._ref`,
+      message: localize(options, 'REFERENCE_NOT_FOUND', { id }),
+      code: 'REFERENCE_NOT_FOUND',
+      severity: 'error',
+      rule: { flag: 'reference' },
+      value: id,
+      expected: targets && targets.length > 0
+        ? `reference to an existing ${targets.join(' or ')} document`
+        : 'reference to an existing document',
+      field,
+      suggestions: [
+        `Reference an existing document instead of "${id}"`,
+        'Set "_weak": true if the reference may point to a missing document',
+      ],
+    }]
+  }
+
+  if (targets && targets.length > 0 && !targets.includes(resolvedType)) {
+    return [{
+      path: `${path}._ref`,
+      message: localize(options, 'REFERENCE_TARGET_NOT_ALLOWED', { type: resolvedType }),
+      code: 'REFERENCE_TARGET_NOT_ALLOWED',
+      severity: 'error',
+      rule: { flag: 'reference' },
+      value: id,
+      expected: `reference to: ${targets.join(', ')}`,
+      field,
+      suggestions: [`Reference a document of type: ${targets.join(', ')}`],
+    }]
+  }
+
+  return []
+}
+
+/**
+ * A unique value found in a document, with the validation group that requires it.
+ */
+interface CollectedUniqueValue extends Omit<UniqueValueContext, 'documentId' | 'documentType'> {
+  /** The group containing the `unique` rule (undefined for slugs) */
+  group?: ManifestValidationGroup
+}
+
+/**
+ * Collect values that must be unique across documents: slug fields, and
+ * non-array fields with a `unique` rule.
+ */
+function collectUniqueValues(
+  document: Record<string, unknown>,
+  schemaType: ManifestSchemaType,
+  typeMap: Map<string, ManifestSchemaType>
+): CollectedUniqueValue[] {
+  const values: CollectedUniqueValue[] = []
+
+  function visitFields(
+    obj: Record<string, unknown>,
+    fields: ManifestField[],
+    path: string,
+    queryPath: string
+  ): void {
+    for (const field of fields) {
+      visit(
+        obj[field.name],
+        field,
+        path ? `${path}.${field.name}` : field.name,
+        queryPath ? `${queryPath}.${field.name}` : field.name
+      )
+    }
+  }
+
+  function visit(value: unknown, def: ManifestSchemaType, path: string, queryPath: string): void {
+    if (value === undefined || value === null) return
+
+    const field = def.name ? { name: def.name, type: def.type, title: def.title } : undefined
+
+    if (def.type === 'slug') {
+      const current = typeof value === 'object' ? (value as Record<string, unknown>)['current'] : undefined
+      if (typeof current === 'string' && current) {
+        values.push({ path: `${path}.current`, queryPath: `${queryPath}.current`, value: current, field })
+      }
+      return
+    }
+
+    if (def.type === 'array') {
+      if (!Array.isArray(value)) return
+      const members = def.of ?? []
+      value.forEach((item, i) => {
+        const member = findMember(members, item)
+        if (member) {
+          visit(item, member as ManifestSchemaType, `${path}[${i}]`, `${queryPath}[]`)
+        }
+      })
+      return
+    }
+
+    const group = def.validation?.find((g) => g.rules.some((r) => r.flag === 'unique'))
+    if (group && (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean')) {
+      values.push({ path, queryPath, value, field, group })
+      return
+    }
+
+    if (typeof value === 'object' && !Array.isArray(value)) {
+      const fields = def.fields ?? typeMap.get(def.type)?.fields
+      if (fields) {
+        visitFields(value as Record<string, unknown>, fields, path, queryPath)
+      }
+    }
+  }
+
+  visitFields(document, schemaType.fields ?? [], '', '')
+  return values
+}
+
+/**
+ * Report other documents that use the same unique value.
+ */
+function checkUniqueConflicts(
+  uniqueValue: CollectedUniqueValue,
+  conflictingIds: string[],
+  options: ValidateOptions
+): ValidationIssue[] {
+  if (conflictingIds.length === 0) return []
+
+  const { path, value, field, group } = uniqueValue
+  const ids = Array.from(new Set(conflictingIds))
+  const isSlug = field?.type === 'slug'
+
+  return [{
+    path,
+    message: group?.message ?? localize(options, 'NOT_UNIQUE', { value: String(value), count: ids.length, ids: ids.join(', ') }),
+    code: 'NOT_UNIQUE',
+    severity: group?.level ?? 'error',
+    rule: { flag: 'unique', constraint: ids },
+    value,
+    expected: 'unique value',
+    field,
+    suggestions: isSlug
+      ? [`Use a different slug, e.g. "${value}-2"`]
+      : [`Use a value that is not already used by ${ids.join(', ')}`],
+  }]
+}
+
 /**
  * Format validation issues for display in a terminal or log.
  */
@@ -1104,6 +3334,35 @@ export function formatValidationIssues(result: ValidationResult): string {
   return lines.join('\n')
 }
 
+/**
+ * Convert a validation fix into Sanity patch operations.
+ *
+ * @example
+ * ```ts
+ * const fix = result.errors[0]?.fixes?.[0]
+ * if (fix) {
+ *   await sanityClient.patch(doc._id, toPatchOperations(fix)).commit()
+ * }
+ * ```
+ */
+export function toPatchOperations(fix: ValidationFix): PatchOperations {
+  switch (fix.op) {
+    case 'set':
+      return { set: { [fix.path]: fix.value } }
+    case 'unset':
+      return { unset: [fix.path] }
+    case 'insert':
+      return {
+        insert: {
+          after: fix.path,
+          items: Array.isArray(fix.value) ? fix.value : [fix.value],
+        },
+      }
+    case 'rename':
+      return { set: { [fix.to as string]: fix.value }, unset: [fix.path] }
+  }
+}
+
 /**
  * Format validation issues as a structured object for agent consumption.
  */
@@ -1116,6 +3375,7 @@ export function formatValidationForAgent(result: ValidationResult): {
     message: string
     suggestion?: string
     expected?: string
+    fixes?: ValidationFix[]
   }>
 } {
   return {
@@ -1127,6 +3387,7 @@ export function formatValidationForAgent(result: ValidationResult): {
       message: e.message,
       suggestion: e.suggestions?.[0],
       expected: e.expected,
+      fixes: e.fixes,
     })),
   }
 }
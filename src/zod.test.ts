@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest'
+import type { ManifestSchemaType } from './types.js'
+import { generateZod } from './zod.js'
+
+const types: ManifestSchemaType[] = [
+  {
+    type: 'document',
+    name: 'article',
+    fields: [
+      {
+        type: 'string',
+        name: 'title',
+        validation: [{ rules: [{ flag: 'presence', constraint: 'required' }, { flag: 'max', constraint: 120 }] }],
+      },
+      {
+        type: 'string',
+        name: 'subtitle',
+        validation: [{ rules: [{ flag: 'presence', constraint: 'required' }, { flag: 'min', constraint: 10 }], level: 'warning' }],
+      },
+      {
+        type: 'string',
+        name: 'internalNote',
+        hidden: true,
+        validation: [{ rules: [{ flag: 'presence', constraint: 'required' }] }],
+      },
+      {
+        type: 'string',
+        name: 'status',
+        options: { list: [{ title: 'Draft', value: 'draft' }, { title: 'Published', value: 'published' }] },
+      },
+      { type: 'number', name: 'priority', options: { list: [1, 2, 3] } },
+      {
+        type: 'string',
+        name: 'code',
+        description: 'Product code',
+        validation: [{
+          rules: [
+            { flag: 'length', constraint: 6 },
+            { flag: 'regex', constraint: { pattern: '^[A-Z0-9]+$' } },
+            { flag: 'regex', constraint: { pattern: '^TEST', invert: true } },
+          ],
+        }],
+      },
+      {
+        type: 'number',
+        name: 'rating',
+        validation: [{ rules: [{ flag: 'integer' }, { flag: 'min', constraint: 1 }, { flag: 'max', constraint: 5 }] }],
+      },
+      { type: 'email', name: 'contact', validation: [{ rules: [{ flag: 'email' }] }] },
+      {
+        type: 'array',
+        name: 'tags',
+        of: [{ type: 'string' }],
+        validation: [{ rules: [{ flag: 'min', constraint: 1 }, { flag: 'unique' }] }],
+      },
+      { type: 'reference', name: 'author', to: [{ type: 'author' }] },
+      {
+        type: 'array',
+        name: 'sections',
+        of: [{ type: 'seo' }, { type: 'object', name: 'quote', fields: [{ type: 'text', name: 'text' }] }],
+      },
+      {
+        type: 'array',
+        name: 'body',
+        of: [{ type: 'block', styles: [{ value: 'normal', title: 'Normal' }], lists: [] }],
+      },
+    ],
+  },
+  { type: 'document', name: 'author', fields: [{ type: 'string', name: 'name' }] },
+  { type: 'object', name: 'seo', fields: [{ type: 'string', name: 'description' }] },
+  {
+    type: 'object',
+    name: 'menuItem',
+    fields: [
+      { type: 'string', name: 'label' },
+      { type: 'array', name: 'children', of: [{ type: 'menuItem' }] },
+    ],
+  },
+]
+
+describe('generateZod', () => {
+  const output = generateZod(types)
+
+  it('declares named types after the types they use', () => {
+    expect(output.startsWith("// Generated from the deployed Sanity schema. Do not edit.\n\nimport { z } from 'zod'\n")).toBe(true)
+    expect(output.indexOf('export const SeoSchema')).toBeLessThan(output.indexOf('export const ArticleSchema'))
+    expect(output).toContain('export type Article = z.infer<typeof ArticleSchema>')
+    expect(output).toContain([
+      'export const SeoSchema = z.object({',
+      "  _type: z.literal('seo').optional(),",
+      '  description: z.string().optional(),',
+      '}).passthrough()',
+    ].join('\n'))
+  })
+
+  it('mirrors required fields, rules and list options', () => {
+    expect(output).toContain([
+      'export const ArticleSchema = z.object({',
+      '  _id: z.string().optional(),',
+      "  _type: z.literal('article'),",
+      '  _createdAt: z.string().optional(),',
+      '  _updatedAt: z.string().optional(),',
+      '  _rev: z.string().optional(),',
+      '  title: z.string().max(120),',
+      '  subtitle: z.string().optional(),',
+      '  internalNote: z.string().optional(),',
+      "  status: z.enum(['draft', 'published']).optional(),",
+      '  priority: z.union([z.literal(1), z.literal(2), z.literal(3)]).optional(),',
+      "  code: z.string().length(6).regex(new RegExp('^[A-Z0-9]+$')).refine((value) => !new RegExp('^TEST').test(value), 'Must not match ^TEST').describe('Product code').optional(),",
+      '  rating: z.number().int().min(1).max(5).optional(),',
+      '  contact: z.string().email().optional(),',
+      "  tags: z.array(z.string()).min(1).refine(isUnique, 'Items must be unique').optional(),",
+      '  author: SanityReferenceSchema.optional(),',
+    ].join('\n'))
+    expect(output).toContain('function isUnique(items: unknown[]): boolean {')
+  })
+
+  it('discriminates array members by _type', () => {
+    expect(output).toContain([
+      "  sections: z.array(z.discriminatedUnion('_type', [SeoSchema.extend({",
+      "    _type: z.literal('seo'),",
+      '    _key: z.string().optional(),',
+      '  }), z.object({',
+      "    _type: z.literal('quote'),",
+      '    _key: z.string().optional(),',
+      '    text: z.string().optional(),',
+      '  }).passthrough()])).optional(),',
+    ].join('\n'))
+  })
+
+  it('describes portable text blocks', () => {
+    expect(output).toContain([
+      '  body: z.array(z.object({',
+      "    _type: z.literal('block'),",
+      '    _key: z.string().optional(),',
+      '    children: z.array(SanitySpanSchema),',
+      "    style: z.enum(['normal']).optional(),",
+      '    markDefs: z.array(z.object({ _type: z.string(), _key: z.string() }).passthrough()).optional(),',
+      '  }).passthrough()).optional(),',
+    ].join('\n'))
+    expect(output).toContain("  _type: z.literal('span'),")
+  })
+
+  it('references recursive types lazily', () => {
+    expect(output).toContain('  children: z.array(z.lazy((): z.ZodTypeAny => MenuItemSchema)).optional(),')
+  })
+
+  it('emits a schema for any document type', () => {
+    expect(output).toContain("export const DocumentSchema = z.discriminatedUnion('_type', [ArticleSchema, AuthorSchema])")
+  })
+
+  it('emits only the helpers that are used', () => {
+    expect(output).toContain('export const SanityReferenceSchema = z.object({')
+    expect(output).not.toContain('SanityImageSchema')
+    expect(output).not.toContain('SanityColorSchema')
+  })
+
+  it('names schemas after custom type names', () => {
+    const custom = generateZod(types, { typeName: (name) => `Sanity${name.charAt(0).toUpperCase()}${name.slice(1)}` })
+
+    expect(custom).toContain('export const SanitySeoSchema = z.object({')
+    expect(custom).toContain('export type SanityArticle = z.infer<typeof SanityArticleSchema>')
+  })
+})
@@ -0,0 +1,504 @@
+import type { ManifestArrayMember, ManifestSchemaType, ManifestTitledValue } from './types.js'
+import { getListOptions } from './helpers.js'
+import { constraintRules, isValueRequired } from './jsonschema.js'
+import { pascalCase } from './typescript.js'
+
+/**
+ * Options for Zod generation.
+ */
+export interface GenerateZodOptions {
+  /**
+   * Name of the inferred TypeScript type for a schema type (default: PascalCase,
+   * e.g. "blogPost" → "BlogPost"). The Zod schema is named after it ("BlogPostSchema").
+   */
+  typeName?: (name: string) => string
+}
+
+/**
+ * State shared while generating one file.
+ */
+interface GeneratorContext {
+  typeMap: Map<string, ManifestSchemaType>
+  typeName: (name: string) => string
+  /** Built-in helpers used so far */
+  helpers: Set<HelperName>
+  /** Named types that are declared ("done") or being declared ("pending") */
+  states: Map<string, 'pending' | 'done'>
+  /** Declarations, in dependency order */
+  declarations: string[]
+}
+
+/**
+ * A generated array member, and the `_type` that tells it apart from other
+ * members when it is an object schema that can be used in `z.discriminatedUnion`.
+ */
+interface MemberSchema {
+  expression: string
+  discriminator?: string
+}
+
+/**
+ * Schemas for Sanity's built-in object types, emitted when used.
+ */
+const helperSchemas = {
+  SanityReferenceSchema: [
+    'export const SanityReferenceSchema = z.object({',
+    '  _type: z.string().optional(),',
+    '  _ref: z.string(),',
+    '  _weak: z.boolean().optional(),',
+    '}).passthrough()',
+  ],
+  SanityCrossDatasetReferenceSchema: [
+    'export const SanityCrossDatasetReferenceSchema = z.object({',
+    '  _type: z.string().optional(),',
+    '  _ref: z.string(),',
+    '  _dataset: z.string(),',
+    '  _projectId: z.string(),',
+    '  _weak: z.boolean().optional(),',
+    '}).passthrough()',
+  ],
+  SanityGlobalDocumentReferenceSchema: [
+    'export const SanityGlobalDocumentReferenceSchema = z.object({',
+    '  _type: z.string().optional(),',
+    '  _ref: z.string(),',
+    '  _weak: z.boolean().optional(),',
+    '}).passthrough()',
+  ],
+  SanitySlugSchema: [
+    'export const SanitySlugSchema = z.object({',
+    '  _type: z.string().optional(),',
+    '  current: z.string(),',
+    '}).passthrough()',
+  ],
+  SanityImageSchema: [
+    'export const SanityImageSchema = z.object({',
+    '  _type: z.string().optional(),',
+    '  asset: SanityReferenceSchema,',
+    '  hotspot: z.object({ x: z.number(), y: z.number(), height: z.number(), width: z.number() }).optional(),',
+    '  crop: z.object({ top: z.number(), bottom: z.number(), left: z.number(), right: z.number() }).optional(),',
+    '}).passthrough()',
+  ],
+  SanityFileSchema: [
+    'export const SanityFileSchema = z.object({',
+    '  _type: z.string().optional(),',
+    '  asset: SanityReferenceSchema,',
+    '}).passthrough()',
+  ],
+  SanityGeopointSchema: [
+    'export const SanityGeopointSchema = z.object({',
+    '  _type: z.string().optional(),',
+    '  lat: z.number().min(-90).max(90),',
+    '  lng: z.number().min(-180).max(180),',
+    '  alt: z.number().optional(),',
+    '}).passthrough()',
+  ],
+  SanityColorSchema: [
+    'export const SanityColorSchema = z.object({',
+    '  _type: z.string().optional(),',
+    '  hex: z.string().regex(/^#(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i),',
+    '  alpha: z.number().min(0).max(1).optional(),',
+    '}).passthrough()',
+  ],
+  SanitySpanSchema: [
+    'export const SanitySpanSchema = z.object({',
+    "  _type: z.literal('span'),",
+    '  _key: z.string().optional(),',
+    '  text: z.string(),',
+    '  marks: z.array(z.string()).optional(),',
+    '}).passthrough()',
+  ],
+  isUnique: [
+    '/** Whether array items are unique, ignoring their `_key` */',
+    'function isUnique(items: unknown[]): boolean {',
+    "  const values = items.map((item) => JSON.stringify(item, (key, value) => (key === '_key' ? undefined : value)))",
+    '  return new Set(values).size === items.length',
+    '}',
+  ],
+} satisfies Record<string, string[]>
+
+type HelperName = keyof typeof helperSchemas
+
+/** Helpers that other helpers use */
+const helperDependencies: Partial<Record<HelperName, HelperName[]>> = {
+  SanityImageSchema: ['SanityReferenceSchema'],
+  SanityFileSchema: ['SanityReferenceSchema'],
+}
+
+const builtInHelpers: Partial<Record<string, HelperName>> = {
+  reference: 'SanityReferenceSchema',
+  crossDatasetReference: 'SanityCrossDatasetReferenceSchema',
+  globalDocumentReference: 'SanityGlobalDocumentReferenceSchema',
+  slug: 'SanitySlugSchema',
+  image: 'SanityImageSchema',
+  file: 'SanityFileSchema',
+  geopoint: 'SanityGeopointSchema',
+  color: 'SanityColorSchema',
+  span: 'SanitySpanSchema',
+}
+
+/** Schema types whose values are objects with a `_type` */
+const objectTypes = ['document', 'object', 'block', ...Object.keys(builtInHelpers)]
+
+/**
+ * Generate the source of a module with Zod schemas for a deployed schema, to
+ * validate content in apps and form libraries that already use Zod.
+ *
+ * Each named type gets a schema constant (`ArticleSchema`) and an inferred
+ * type (`Article`), and `DocumentSchema` accepts any document type. The
+ * schemas enforce the same `error`-level rules as `validateDocument`:
+ * required fields, `min`/`max`/`length`/`regex`/`email`/`uri`/`integer`/
+ * `positive`/`unique` rules, and `options.list` values (`z.enum`). Array
+ * members become a `z.discriminatedUnion` on `_type`. Object schemas keep
+ * properties that are not fields (`.passthrough()`), as `validateDocument`
+ * only warns about them.
+ *
+ * The generated code uses the Zod 3 API, which Zod 4 also supports.
+ *
+ * @param types - All schema types from the schema
+ * @param options - Naming of the generated schemas and types
+ * @returns The source of a TypeScript module that imports `zod`
+ *
+ * @example
+ * ```ts
+ * const types = await schemaClient.getTypes()
+ * await writeFile('sanity.schemas.ts', generateZod(types))
+ *
+ * // export const ArticleSchema = z.object({
+ * //   _id: z.string().optional(),
+ * //   _type: z.literal('article'),
+ * //   ...
+ * //   title: z.string().max(120),
+ * //   status: z.enum(['draft', 'published']).optional(),
+ * //   tags: z.array(z.string()).min(1).optional(),
+ * // }).passthrough()
+ * ```
+ */
+export function generateZod(types: ManifestSchemaType[], options: GenerateZodOptions = {}): string {
+  const { typeName = pascalCase } = options
+  const context: GeneratorContext = {
+    typeMap: new Map(types.map((t) => [t.name, t])),
+    typeName,
+    helpers: new Set(),
+    states: new Map(),
+    declarations: [],
+  }
+
+  for (const type of types) {
+    declareType(type, context)
+  }
+
+  const documents = types.filter((t) => t.type === 'document').map((t) => schemaName(t.name, context))
+  if (documents.length > 0) {
+    context.declarations.push(
+      `/** Any document type */\nexport const DocumentSchema = z.discriminatedUnion('_type', [${documents.join(', ')}])`
+    )
+  }
+
+  return [
+    '// Generated from the deployed Sanity schema. Do not edit.',
+    "import { z } from 'zod'",
+    ...resolveHelpers(context.helpers).map((name) => helperSchemas[name].join('\n')),
+    ...context.declarations,
+  ].join('\n\n') + '\n'
+}
+
+/**
+ * Declare a named type's schema and inferred type, after the named types it
+ * uses.
+ */
+function declareType(type: ManifestSchemaType, context: GeneratorContext): void {
+  if (context.states.has(type.name)) return
+  context.states.set(type.name, 'pending')
+
+  let expression: string
+  if (type.type === 'document') {
+    expression = objectExpression([
+      '  _id: z.string().optional(),',
+      `  _type: z.literal(${literal(type.name)}),`,
+      '  _createdAt: z.string().optional(),',
+      '  _updatedAt: z.string().optional(),',
+      '  _rev: z.string().optional(),',
+      ...fieldLines(type.fields ?? [], '  ', context),
+    ], '')
+  } else if (type.type === 'object') {
+    expression = objectExpression([
+      `  _type: z.literal(${literal(type.name)}).optional(),`,
+      ...fieldLines(type.fields ?? [], '  ', context),
+    ], '')
+  } else if (type.type === 'image' || type.type === 'file') {
+    expression = extendExpression(useHelper(type.type === 'image' ? 'SanityImageSchema' : 'SanityFileSchema', context), [
+      `  _type: z.literal(${literal(type.name)}).optional(),`,
+      ...fieldLines(type.fields ?? [], '  ', context),
+    ], '')
+  } else if (type.type === 'block') {
+    expression = blockExpression(type, type.name, '', context)
+  } else {
+    expression = fieldExpression(type, '', context)
+  }
+
+  const name = context.typeName(type.name)
+  context.declarations.push(
+    `export const ${name}Schema = ${expression}\n\nexport type ${name} = z.infer<typeof ${name}Schema>`
+  )
+  context.states.set(type.name, 'done')
+}
+
+/**
+ * The schema for a field or type, with its rules and description.
+ */
+function fieldExpression(def: ManifestSchemaType, indent: string, context: GeneratorContext): string {
+  const description = def.description ? `.describe(${literal(def.description)})` : ''
+  return `${valueExpression(def, indent, context)}${description}`
+}
+
+/**
+ * The schema for values of a type, with its rules.
+ */
+function valueExpression(def: ManifestSchemaType, indent: string, context: GeneratorContext): string {
+  switch (def.type) {
+    case 'string':
+    case 'text':
+      return listExpression(def) ?? `z.string()${ruleChain(def, 'string', context)}`
+    case 'url':
+      return `z.string().url()${ruleChain(def, 'string', context)}`
+    case 'email':
+      return `z.string().email()${ruleChain(def, 'string', context)}`
+    case 'date':
+      return `z.string().regex(/^\\d{4}-\\d{2}-\\d{2}$/)`
+    case 'datetime':
+      return 'z.string().datetime({ offset: true })'
+    case 'number':
+      return listExpression(def) ?? `z.number()${ruleChain(def, 'number', context)}`
+    case 'boolean':
+      return 'z.boolean()'
+    case 'object':
+      return objectExpression(fieldLines(def.fields ?? [], `${indent}  `, context), indent)
+    case 'array': {
+      const members = (def.of ?? []).map((member) => memberExpression(member, indent, context))
+      return `z.array(${unionExpression(members)})${ruleChain(def, 'array', context)}`
+    }
+    case 'block':
+      return blockExpression(def, 'block', indent, context)
+    default: {
+      const helper = builtInHelpers[def.type]
+      if (helper) {
+        const base = useHelper(helper, context)
+        return def.fields?.length ? extendExpression(base, fieldLines(def.fields, `${indent}  `, context), indent) : base
+      }
+      return namedExpression(def.type, context) ?? 'z.unknown()'
+    }
+  }
+}
+
+/**
+ * The schema for an array item. Object items get their `_type` and `_key`.
+ */
+function memberExpression(member: ManifestArrayMember, indent: string, context: GeneratorContext): MemberSchema {
+  const def = member as ManifestSchemaType
+  const named = context.typeMap.get(def.type)
+  if (!objectTypes.includes(named?.type ?? def.type)) {
+    return { expression: fieldExpression(def, indent, context) }
+  }
+
+  const discriminator = member.name ?? def.type
+  const inner = `${indent}  `
+  const itemLines = [`${inner}_type: z.literal(${literal(discriminator)}),`, `${inner}_key: z.string().optional(),`]
+
+  if (named) {
+    const expression = namedExpression(def.type, context) ?? 'z.unknown()'
+    // A type that is still being declared is referenced lazily, and can't be extended
+    if (context.states.get(def.type) !== 'done') return { expression }
+    return { expression: extendExpression(expression, itemLines, indent), discriminator }
+  }
+  if (def.type === 'object' || def.type === 'document') {
+    const lines = [...itemLines, ...fieldLines(def.fields ?? [], inner, context)]
+    return { expression: objectExpression(lines, indent), discriminator }
+  }
+  if (def.type === 'block') {
+    return { expression: blockExpression(def, discriminator, indent, context), discriminator }
+  }
+
+  const helper = builtInHelpers[def.type]
+  if (!helper) return { expression: fieldExpression(def, indent, context) }
+  const lines = [...itemLines, ...fieldLines(def.fields ?? [], inner, context)]
+  return { expression: extendExpression(useHelper(helper, context), lines, indent), discriminator }
+}
+
+/**
+ * The schema for a portable text block, with its styles, list types,
+ * annotations (mark definitions) and inline objects.
+ */
+function blockExpression(def: ManifestSchemaType, typeName: string, indent: string, context: GeneratorContext): string {
+  const inner = `${indent}  `
+  const span: MemberSchema = { expression: useHelper('SanitySpanSchema', context), discriminator: 'span' }
+  const children = [span, ...(def.of ?? []).map((m) => memberExpression(m, inner, context))]
+  const annotations = (def.marks?.annotations ?? []).map((m) => memberExpression(m, inner, context))
+  const lines = [
+    `${inner}_type: z.literal(${literal(typeName)}),`,
+    `${inner}_key: z.string().optional(),`,
+    `${inner}children: z.array(${unionExpression(children)}),`,
+    `${inner}style: ${titledEnum(def.styles)}.optional(),`,
+  ]
+  if (def.lists?.length !== 0) {
+    lines.push(`${inner}listItem: ${titledEnum(def.lists)}.optional(),`, `${inner}level: z.number().int().min(1).optional(),`)
+  }
+  const markDef = annotations.length > 0
+    ? unionExpression(annotations)
+    : 'z.object({ _type: z.string(), _key: z.string() }).passthrough()'
+  lines.push(`${inner}markDefs: z.array(${markDef}).optional(),`)
+  return objectExpression(lines, indent)
+}
+
+/**
+ * The schema for a named type: the constant when it has been declared, or a
+ * lazy reference when it is still being declared (recursive types).
+ */
+function namedExpression(name: string, context: GeneratorContext): string | undefined {
+  const type = context.typeMap.get(name)
+  if (!type) return undefined
+
+  declareType(type, context)
+  const schema = schemaName(name, context)
+  // The return type annotation breaks the circular type inference
+  return context.states.get(name) === 'done' ? schema : `z.lazy((): z.ZodTypeAny => ${schema})`
+}
+
+/**
+ * Property lines for fields. Fields are optional unless a missing value is an error.
+ */
+function fieldLines(fields: ManifestSchemaType[], indent: string, context: GeneratorContext): string[] {
+  return fields.map((field) => {
+    const optional = isValueRequired(field) ? '' : '.optional()'
+    return `${indent}${propertyName(field.name)}: ${fieldExpression(field, indent, context)}${optional},`
+  })
+}
+
+/**
+ * Methods for a type's `error`-level rules, e.g. ".min(1).max(5)".
+ */
+function ruleChain(
+  def: ManifestSchemaType,
+  kind: 'string' | 'number' | 'array',
+  context: GeneratorContext
+): string {
+  const checks: string[] = []
+  const refinements: string[] = []
+
+  for (const { flag, constraint } of constraintRules(def)) {
+    switch (flag) {
+      case 'min':
+      case 'max':
+        if (typeof constraint === 'number') checks.push(`.${flag}(${constraint})`)
+        break
+      case 'length': {
+        if (kind === 'number') break
+        if (typeof constraint === 'number') {
+          checks.push(`.length(${constraint})`)
+        } else if (typeof constraint === 'object' && constraint !== null && !Array.isArray(constraint)) {
+          const { min, max } = constraint
+          if (typeof min === 'number') checks.push(`.min(${min})`)
+          if (typeof max === 'number') checks.push(`.max(${max})`)
+        }
+        break
+      }
+      case 'regex': {
+        if (kind !== 'string' || typeof constraint !== 'object' || constraint === null || Array.isArray(constraint)) break
+        const { pattern, invert } = constraint
+        if (typeof pattern !== 'string') break
+        const regex = `new RegExp(${literal(pattern)})`
+        if (invert === true) {
+          refinements.push(`.refine((value) => !${regex}.test(value), ${literal(`Must not match ${pattern}`)})`)
+        } else {
+          checks.push(`.regex(${regex})`)
+        }
+        break
+      }
+      case 'email':
+        // Email fields already have .email()
+        if (kind === 'string' && def.type !== 'email') checks.push('.email()')
+        break
+      case 'uri':
+        if (kind === 'string' && def.type !== 'url') checks.push('.url()')
+        break
+      case 'integer':
+        if (kind === 'number') checks.push('.int()')
+        break
+      case 'positive':
+        if (kind === 'number') checks.push('.positive()')
+        break
+      case 'unique':
+        if (kind === 'array') refinements.push(`.refine(${useHelper('isUnique', context)}, 'Items must be unique')`)
+        break
+    }
+  }
+
+  // Refinements return a ZodEffects, which has no more checks
+  return [...checks, ...refinements].join('')
+}
+
+function unionExpression(members: MemberSchema[]): string {
+  const [first] = members
+  if (!first) return 'z.unknown()'
+  if (members.length === 1) return first.expression
+
+  const discriminators = members.map((m) => m.discriminator)
+  const discriminated = discriminators.every((d) => d !== undefined) && new Set(discriminators).size === members.length
+  const options = members.map((m) => m.expression).join(', ')
+  return discriminated ? `z.discriminatedUnion('_type', [${options}])` : `z.union([${options}])`
+}
+
+function listExpression(def: ManifestSchemaType): string | undefined {
+  const list = getListOptions(def)
+  if (!list || list.length === 0) return undefined
+
+  // List items may be plain values or { title, value } objects
+  const values = Array.from(new Set(list.map((item) =>
+    typeof item === 'object' && item !== null ? item.value : (item as string | number)
+  )))
+  if (values.every((value) => typeof value === 'string')) {
+    return `z.enum([${values.map(literal).join(', ')}])`
+  }
+  const literals = values.map((value) => `z.literal(${literal(value)})`)
+  return literals.length === 1 ? (literals[0] ?? '') : `z.union([${literals.join(', ')}])`
+}
+
+function titledEnum(values: ManifestTitledValue[] | undefined): string {
+  return values?.length ? `z.enum([${values.map((v) => literal(v.value)).join(', ')}])` : 'z.string()'
+}
+
+function objectExpression(lines: string[], indent: string): string {
+  return `z.object({\n${lines.join('\n')}\n${indent}}).passthrough()`
+}
+
+function extendExpression(base: string, lines: string[], indent: string): string {
+  return `${base}.extend({\n${lines.join('\n')}\n${indent}})`
+}
+
+function schemaName(name: string, context: GeneratorContext): string {
+  return `${context.typeName(name)}Schema`
+}
+
+function literal(value: string | number): string {
+  return typeof value === 'number' ? String(value) : `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`
+}
+
+function propertyName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : literal(name)
+}
+
+function useHelper(name: HelperName, context: GeneratorContext): string {
+  context.helpers.add(name)
+  return name
+}
+
+/**
+ * Helpers in declaration order, with the helpers they depend on.
+ */
+function resolveHelpers(used: Set<HelperName>): HelperName[] {
+  const all = new Set<HelperName>()
+  for (const name of used) {
+    all.add(name)
+    for (const dependency of helperDependencies[name] ?? []) all.add(dependency)
+  }
+  return (Object.keys(helperSchemas) as HelperName[]).filter((name) => all.has(name))
+}